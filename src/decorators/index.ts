@@ -0,0 +1,17 @@
+/**
+ * @fileoverview Decorator Exports
+ * @description
+ * Exports the `@Transactional()` method decorator and its resolver
+ * registration.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/decorators
+ * @version 1.0.0
+ */
+
+export {
+  Transactional,
+  setTransactionalResolver,
+  type TransactionalDecorator,
+  type TransactionalMethod,
+} from './transactional';
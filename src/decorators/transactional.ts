@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Transactional Decorator
+ * @description
+ * Method decorator running application service methods inside a Unit of
+ * Work transaction, for both TypeScript legacy and TC39 standard decorators.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/decorators
+ * @version 1.0.0
+ */
+
+import { RequestContext, type IContext, type StruktosContextData } from '@struktos/core';
+
+import { PRISMA_UNIT_OF_WORK_FACTORY_TOKEN } from '../tokens';
+import { PrismaUnitOfWork } from '../unit-of-work/PrismaUnitOfWork';
+import { PrismaUnitOfWorkFactory } from '../unit-of-work/PrismaUnitOfWorkFactory';
+import { getAmbientTransaction } from '../unit-of-work/ambient-transaction';
+import type {
+  TransactionalOptions,
+  TransactionalResolver,
+  TransactionScopeOptions,
+} from '../types/prisma.types';
+import { UnitOfWorkFactoryNotFoundError } from '../errors/unit-of-work.errors';
+
+/**
+ * An async method that can be decorated with `@Transactional()`.
+ */
+export type TransactionalMethod<This, Args extends unknown[], TResult> = (
+  this: This,
+  ...args: Args
+) => Promise<TResult>;
+
+/**
+ * Decorator returned by `Transactional()`, usable as a TC39 standard
+ * decorator or as a TypeScript legacy decorator (`experimentalDecorators`).
+ */
+export interface TransactionalDecorator {
+  <This, Args extends unknown[], TResult>(
+    method: TransactionalMethod<This, Args, TResult>,
+    context: ClassMethodDecoratorContext<This, TransactionalMethod<This, Args, TResult>>
+  ): TransactionalMethod<This, Args, TResult>;
+  <TMethod extends (...args: never[]) => Promise<unknown>>(
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: TypedPropertyDescriptor<TMethod>
+  ): TypedPropertyDescriptor<TMethod>;
+}
+
+/**
+ * Resolver registered with `setTransactionalResolver()`.
+ * @internal
+ */
+let resolver: TransactionalResolver | null = null;
+
+/**
+ * Registers the resolver `@Transactional()` methods get their Unit of Work
+ * factory and request context from.
+ *
+ * @param value - Resolver to register, or null to remove the current one
+ *
+ * @example
+ * ```typescript
+ * container.bind(PRISMA_UNIT_OF_WORK_FACTORY_TOKEN).toConstantValue(
+ *   new PrismaUnitOfWorkFactory(prisma)
+ * );
+ *
+ * setTransactionalResolver({ resolve: (token) => container.get(token) });
+ * ```
+ */
+export function setTransactionalResolver<
+  TContext extends StruktosContextData = StruktosContextData,
+>(value: TransactionalResolver<TContext> | null): void {
+  resolver = value as TransactionalResolver | null;
+}
+
+/**
+ * Runs the decorated method inside a transaction.
+ *
+ * @param options - Transaction options and the token of the factory
+ * @returns A method decorator
+ *
+ * @remarks
+ * Each call resolves the `PrismaUnitOfWorkFactory` through the registered
+ * resolver and checks for an ambient transaction on its client:
+ * - Inside an ambient transaction, the method runs through
+ *   `executeInTransaction()` of its Unit of Work, so `propagation` decides
+ *   whether it joins, runs in a savepoint or runs on a new transaction.
+ * - Otherwise, a Unit of Work is created with the current request context,
+ *   runs the method in a transaction and is disposed afterwards.
+ *
+ * The method itself reaches the transaction through repositories created
+ * from the root client, which join the ambient transaction.
+ *
+ * @throws {UnitOfWorkFactoryNotFoundError} When called and the factory cannot be resolved
+ *
+ * @example
+ * ```typescript
+ * class OrderService {
+ *   constructor(private readonly orders: PrismaOrderRepository) {}
+ *
+ *   @Transactional({ isolationLevel: IsolationLevel.Serializable, timeout: 5000 })
+ *   async placeOrder(input: PlaceOrderInput): Promise<Order> {
+ *     return this.orders.create(input);
+ *   }
+ *
+ *   @Transactional({ readOnly: true })
+ *   async getOrder(id: string): Promise<Order | null> {
+ *     return this.orders.findById(id);
+ *   }
+ * }
+ * ```
+ */
+export function Transactional(options: TransactionalOptions = {}): TransactionalDecorator {
+  const { factory: token = PRISMA_UNIT_OF_WORK_FACTORY_TOKEN, ...scopeOptions } = options;
+
+  const wrap = <This, Args extends unknown[], TResult>(
+    method: TransactionalMethod<This, Args, TResult>
+  ): TransactionalMethod<This, Args, TResult> => {
+    if (typeof method !== 'function') {
+      throw new TypeError('@Transactional() can only decorate methods');
+    }
+
+    return function (this: This, ...args: Args): Promise<TResult> {
+      return runTransactional(token, scopeOptions, () => method.apply(this, args));
+    };
+  };
+
+  return ((
+    target: unknown,
+    contextOrKey: ClassMethodDecoratorContext | string | symbol,
+    descriptor?: PropertyDescriptor
+  ) => {
+    // TC39 decorators receive the method and a context object
+    if (typeof contextOrKey === 'object') {
+      return wrap(target as TransactionalMethod<unknown, unknown[], unknown>);
+    }
+
+    return { ...descriptor, value: wrap(descriptor?.value) };
+  }) as TransactionalDecorator;
+}
+
+/**
+ * Runs a decorated method call in the ambient or a new transaction.
+ * @internal
+ */
+async function runTransactional<TResult>(
+  token: string | symbol,
+  options: TransactionScopeOptions,
+  invoke: () => Promise<TResult>
+): Promise<TResult> {
+  const factory = resolveFactory(token);
+
+  const ambient = getAmbientTransaction(factory.client)?.unitOfWork;
+  if (ambient instanceof PrismaUnitOfWork) {
+    return ambient.executeInTransaction(invoke, options);
+  }
+
+  const context = resolver?.getContext
+    ? resolver.getContext()
+    : (RequestContext.current() as IContext<StruktosContextData> | undefined);
+  const unitOfWork = (
+    context ? factory.createWithContext(context) : factory.create()
+  ) as PrismaUnitOfWork;
+
+  try {
+    return await unitOfWork.executeInTransaction(invoke, options);
+  } finally {
+    await unitOfWork.dispose();
+  }
+}
+
+/**
+ * Resolves the Unit of Work factory of a token.
+ * @internal
+ */
+function resolveFactory(token: string | symbol): PrismaUnitOfWorkFactory {
+  let factory: unknown;
+  try {
+    factory = resolver?.resolve(token);
+  } catch (error) {
+    throw new UnitOfWorkFactoryNotFoundError(
+      token,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+
+  if (!(factory instanceof PrismaUnitOfWorkFactory)) {
+    throw new UnitOfWorkFactoryNotFoundError(token);
+  }
+  return factory;
+}
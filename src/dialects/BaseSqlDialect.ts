@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Base SQL Dialect
+ * @description
+ * Shared implementation of SqlDialect for databases following standard
+ * SQL savepoint syntax. Provider dialects supply identifier quoting,
+ * placeholders and the statements that differ.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+
+import type { AdvisoryLockKey, DatabaseProvider } from '../types/prisma.types';
+import type { RowLockMode, RowLockWait } from '../repository/row-locking';
+import type { SqlDialect, SqlStatement } from './SqlDialect';
+
+/**
+ * BaseSqlDialect - Standard SQL statements shared by the provider dialects.
+ *
+ * @remarks
+ * Unsupported features return `null`; subclasses override the methods
+ * their database supports.
+ *
+ * @internal
+ */
+export abstract class BaseSqlDialect implements SqlDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  public abstract readonly provider: DatabaseProvider;
+
+  /**
+   * Whether `acquireAdvisoryLock()` supports a bounded timeout.
+   */
+  public readonly supportsAdvisoryLockTimeout: boolean = true;
+
+  /**
+   * Opening and closing identifier quote characters.
+   * @protected
+   */
+  protected abstract readonly identifierQuotes: readonly [string, string];
+
+  /**
+   * Database error codes reporting a lock held by another transaction.
+   * @protected
+   */
+  protected readonly lockNotAvailableCodes: readonly string[] = [];
+
+  /**
+   * Database error codes reporting a statement cancelled by the statement timeout.
+   * @protected
+   */
+  protected readonly statementTimeoutCodes: readonly string[] = [];
+
+  /**
+   * Database error codes reporting a lock wait cancelled by the lock timeout.
+   * @protected
+   */
+  protected readonly lockTimeoutCodes: readonly string[] = [];
+
+  /**
+   * Quotes a possibly schema-qualified identifier, doubling embedded closing quotes.
+   *
+   * @param identifier - Table, column or savepoint name
+   * @returns The quoted identifier
+   */
+  public quoteIdentifier(identifier: string): string {
+    const [open, close] = this.identifierQuotes;
+    return identifier
+      .split('.')
+      .map((part) => `${open}${part.split(close).join(close + close)}${close}`)
+      .join('.');
+  }
+
+  /**
+   * Creates a savepoint.
+   *
+   * @param name - Savepoint name
+   */
+  public createSavepoint(name: string): SqlStatement {
+    return { sql: `SAVEPOINT ${this.quoteIdentifier(name)}`, params: [] };
+  }
+
+  /**
+   * Rolls back to a savepoint.
+   *
+   * @param name - Savepoint name
+   */
+  public rollbackToSavepoint(name: string): SqlStatement {
+    return { sql: `ROLLBACK TO SAVEPOINT ${this.quoteIdentifier(name)}`, params: [] };
+  }
+
+  /**
+   * Releases a savepoint.
+   *
+   * @param name - Savepoint name
+   */
+  public releaseSavepoint(name: string): SqlStatement | null {
+    return { sql: `RELEASE SAVEPOINT ${this.quoteIdentifier(name)}`, params: [] };
+  }
+
+  /**
+   * Marks the current transaction read-only.
+   */
+  public setTransactionReadOnly(): SqlStatement | null {
+    return { sql: 'SET TRANSACTION READ ONLY', params: [] };
+  }
+
+  /**
+   * Sets the statement timeout. Unsupported unless overridden.
+   */
+  public setStatementTimeout(_timeout: number): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Sets the lock timeout. Unsupported unless overridden.
+   */
+  public setLockTimeout(_timeout: number): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Restores the statement timeout; transaction-scoped unless overridden.
+   */
+  public resetStatementTimeout(): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Restores the lock timeout; transaction-scoped unless overridden.
+   */
+  public resetLockTimeout(): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Sets a transaction-scoped session variable. Unsupported unless overridden.
+   */
+  public setSessionVariable(_name: string, _value: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Prepares the transaction for a two-phase commit. Unsupported unless overridden.
+   */
+  public prepareTransaction(_transactionId: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Commits a prepared transaction. Unsupported unless overridden.
+   */
+  public commitPrepared(_transactionId: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Rolls back a prepared transaction. Unsupported unless overridden.
+   */
+  public rollbackPrepared(_transactionId: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Locks rows by id. Unsupported unless overridden.
+   */
+  public lockRows(
+    _table: string,
+    _idColumn: string,
+    _ids: readonly unknown[],
+    _mode: RowLockMode,
+    _wait: RowLockWait
+  ): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Acquires an advisory lock. Unsupported unless overridden.
+   */
+  public acquireAdvisoryLock(_key: AdvisoryLockKey, _timeout: number | null): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Checks whether an error reports a lock held by another transaction.
+   *
+   * @param error - Error thrown by a raw query
+   */
+  public isLockNotAvailableError(error: unknown): boolean {
+    return this.hasErrorCode(error, this.lockNotAvailableCodes);
+  }
+
+  /**
+   * Checks whether an error reports a statement cancelled by the statement timeout.
+   *
+   * @param error - Error thrown by a query
+   */
+  public isStatementTimeoutError(error: unknown): boolean {
+    return this.hasErrorCode(error, this.statementTimeoutCodes);
+  }
+
+  /**
+   * Checks whether an error reports a lock wait cancelled by the lock timeout.
+   *
+   * @param error - Error thrown by a query
+   */
+  public isLockTimeoutError(error: unknown): boolean {
+    return this.hasErrorCode(error, this.lockTimeoutCodes);
+  }
+
+  /**
+   * Checks an error for one of the given database codes.
+   *
+   * Prisma surfaces raw query failures as `P2010` with the database code in
+   * `meta.code`; the code is also looked up on the error itself and in the
+   * message for drivers that only report it there.
+   * @protected
+   */
+  protected hasErrorCode(error: unknown, codes: readonly string[]): boolean {
+    if (!error || typeof error !== 'object') {
+      return false;
+    }
+
+    const { code, meta, message } = error as {
+      code?: unknown;
+      meta?: { code?: unknown };
+      message?: unknown;
+    };
+    if ([code, meta?.code].some((value) => codes.includes(String(value)))) {
+      return true;
+    }
+
+    return (
+      typeof message === 'string' &&
+      codes.some((value) => message.includes(`Code: \`${value}\``))
+    );
+  }
+
+  /**
+   * Converts a timeout to a whole, non-negative number of milliseconds,
+   * safe to inline into statements that take no parameters.
+   * @protected
+   */
+  protected toMilliseconds(timeout: number): number {
+    return Number.isFinite(timeout) ? Math.max(0, Math.trunc(timeout)) : 0;
+  }
+
+  /**
+   * Quotes a string literal for statements that take no parameters.
+   * @protected
+   */
+  protected quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Maps a lock key to a lock name of at most 64 characters.
+   *
+   * Strings are hashed to hex, so the same key maps to the same name in
+   * every process.
+   * @protected
+   */
+  protected toLockName(key: AdvisoryLockKey): string {
+    if (typeof key !== 'string') {
+      return String(key);
+    }
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
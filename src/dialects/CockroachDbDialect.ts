@@ -0,0 +1,55 @@
+/**
+ * @fileoverview CockroachDB Dialect
+ * @description
+ * SQL for CockroachDB, which follows the PostgreSQL syntax.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import type { AdvisoryLockKey, DatabaseProvider } from '../types/prisma.types';
+import { PostgresDialect } from './PostgresDialect';
+import type { SqlStatement } from './SqlDialect';
+
+/**
+ * CockroachDbDialect - SQL for CockroachDB.
+ *
+ * @remarks
+ * CockroachDB accepts the PostgreSQL savepoint and locking syntax but
+ * does not implement advisory locks or prepared transactions.
+ */
+export class CockroachDbDialect extends PostgresDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  public readonly provider: DatabaseProvider = 'cockroachdb';
+
+  /**
+   * Advisory locks are not supported.
+   */
+  public acquireAdvisoryLock(_key: AdvisoryLockKey, _timeout: number | null): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Prepared transactions are not supported.
+   */
+  public prepareTransaction(_transactionId: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Prepared transactions are not supported.
+   */
+  public commitPrepared(_transactionId: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Prepared transactions are not supported.
+   */
+  public rollbackPrepared(_transactionId: string): SqlStatement | null {
+    return null;
+  }
+}
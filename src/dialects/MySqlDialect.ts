@@ -0,0 +1,123 @@
+/**
+ * @fileoverview MySQL Dialect
+ * @description
+ * SQL for MySQL 8: backtick-quoted identifiers, `?` placeholders,
+ * locking clauses and named locks.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import type { DatabaseProvider } from '../types/prisma.types';
+import { RowLockMode, RowLockWait } from '../repository/row-locking';
+import { BaseSqlDialect } from './BaseSqlDialect';
+import type { SqlStatement } from './SqlDialect';
+
+/**
+ * MySqlDialect - SQL for MySQL 8 and compatible servers.
+ *
+ * @remarks
+ * MySQL has no transaction-scoped advisory locks. `GET_LOCK` belongs to the
+ * session and would stay held on the pooled connection when Prisma expires
+ * or aborts the transaction, so advisory locks are not supported.
+ *
+ * Statement and lock timeouts are session variables; they are restored to
+ * the server defaults before the transaction ends. When Prisma expires or
+ * aborts the transaction first, the connection returns to the pool with
+ * the timeouts still set. `max_execution_time` only applies to `SELECT`
+ * statements.
+ */
+export class MySqlDialect extends BaseSqlDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  public readonly provider: DatabaseProvider = 'mysql';
+
+  /**
+   * Identifier quote characters.
+   * @protected
+   */
+  protected readonly identifierQuotes = ['`', '`'] as const;
+
+  /**
+   * `ER_LOCK_NOWAIT` (3572).
+   * @protected
+   */
+  protected readonly lockNotAvailableCodes: readonly string[] = ['3572'];
+
+  /**
+   * `ER_QUERY_TIMEOUT` (3024).
+   * @protected
+   */
+  protected readonly statementTimeoutCodes: readonly string[] = ['3024'];
+
+  /**
+   * `ER_LOCK_WAIT_TIMEOUT` (1205).
+   * @protected
+   */
+  protected readonly lockTimeoutCodes: readonly string[] = ['1205'];
+
+  /**
+   * MySQL rejects `SET TRANSACTION READ ONLY` once the transaction has
+   * begun (ER 1568), so read-only transactions rely on the client guard.
+   */
+  public setTransactionReadOnly(): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Sets `max_execution_time` for the session.
+   */
+  public setStatementTimeout(timeout: number): SqlStatement | null {
+    return { sql: `SET SESSION max_execution_time = ${this.toMilliseconds(timeout)}`, params: [] };
+  }
+
+  /**
+   * Sets `innodb_lock_wait_timeout` for the session, in whole seconds (at least 1).
+   */
+  public setLockTimeout(timeout: number): SqlStatement | null {
+    const seconds = Math.max(1, Math.ceil(this.toMilliseconds(timeout) / 1000));
+    return { sql: `SET SESSION innodb_lock_wait_timeout = ${seconds}`, params: [] };
+  }
+
+  /**
+   * Restores the server default `max_execution_time`.
+   */
+  public resetStatementTimeout(): SqlStatement | null {
+    return { sql: 'SET SESSION max_execution_time = DEFAULT', params: [] };
+  }
+
+  /**
+   * Restores the server default `innodb_lock_wait_timeout`.
+   */
+  public resetLockTimeout(): SqlStatement | null {
+    return { sql: 'SET SESSION innodb_lock_wait_timeout = DEFAULT', params: [] };
+  }
+
+  /**
+   * Locks rows with `FOR UPDATE` / `FOR SHARE`, optionally `NOWAIT` or `SKIP LOCKED`.
+   */
+  public lockRows(
+    table: string,
+    idColumn: string,
+    ids: readonly unknown[],
+    mode: RowLockMode,
+    wait: RowLockWait
+  ): SqlStatement | null {
+    const id = this.quoteIdentifier(idColumn);
+    const placeholders = ids.map(() => '?');
+    const clause = [
+      mode === RowLockMode.ForUpdate ? 'FOR UPDATE' : 'FOR SHARE',
+      ...(wait === RowLockWait.NoWait ? ['NOWAIT'] : []),
+      ...(wait === RowLockWait.SkipLocked ? ['SKIP LOCKED'] : []),
+    ].join(' ');
+
+    return {
+      sql:
+        `SELECT ${id} FROM ${this.quoteIdentifier(table)} ` +
+        `WHERE ${id} IN (${placeholders.join(', ')}) ORDER BY ${id} ${clause}`,
+      params: [...ids],
+    };
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview PostgreSQL Dialect
+ * @description
+ * SQL for PostgreSQL: double-quoted identifiers, `$n` placeholders,
+ * locking clauses and transaction-scoped advisory locks.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+
+import type { AdvisoryLockKey, DatabaseProvider } from '../types/prisma.types';
+import { RowLockMode, RowLockWait } from '../repository/row-locking';
+import { BaseSqlDialect } from './BaseSqlDialect';
+import type { SqlStatement } from './SqlDialect';
+
+/**
+ * PostgresDialect - SQL for PostgreSQL.
+ *
+ * @remarks
+ * Advisory locks use `pg_advisory_xact_lock`, released by COMMIT or
+ * ROLLBACK. A `lock_timeout` would abort the whole transaction, so bounded
+ * waits are emulated by retrying `pg_try_advisory_xact_lock`.
+ *
+ * @example
+ * ```typescript
+ * const uowFactory = new PrismaUnitOfWorkFactory(prisma, {
+ *   dialect: new PostgresDialect(),
+ * });
+ * ```
+ */
+export class PostgresDialect extends BaseSqlDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  public readonly provider: DatabaseProvider = 'postgresql';
+
+  /**
+   * Bounded advisory lock waits are emulated by the caller.
+   */
+  public readonly supportsAdvisoryLockTimeout: boolean = false;
+
+  /**
+   * Identifier quote characters.
+   * @protected
+   */
+  protected readonly identifierQuotes = ['"', '"'] as const;
+
+  /**
+   * SQLSTATE `55P03` (lock_not_available).
+   * @protected
+   */
+  protected readonly lockNotAvailableCodes: readonly string[] = ['55P03'];
+
+  /**
+   * SQLSTATE `57014` (query_canceled).
+   * @protected
+   */
+  protected readonly statementTimeoutCodes: readonly string[] = ['57014'];
+
+  /**
+   * SQLSTATE `55P03` (lock_not_available), also raised when `lock_timeout` expires.
+   * @protected
+   */
+  protected readonly lockTimeoutCodes: readonly string[] = ['55P03'];
+
+  /**
+   * Sets `statement_timeout` for the current transaction with `SET LOCAL`.
+   */
+  public setStatementTimeout(timeout: number): SqlStatement | null {
+    return { sql: `SET LOCAL statement_timeout = ${this.toMilliseconds(timeout)}`, params: [] };
+  }
+
+  /**
+   * Sets `lock_timeout` for the current transaction with `SET LOCAL`.
+   */
+  public setLockTimeout(timeout: number): SqlStatement | null {
+    return { sql: `SET LOCAL lock_timeout = ${this.toMilliseconds(timeout)}`, params: [] };
+  }
+
+  /**
+   * Sets a configuration parameter with `set_config(name, value, true)`,
+   * the parameterized equivalent of `SET LOCAL`.
+   */
+  public setSessionVariable(name: string, value: string): SqlStatement | null {
+    return { sql: 'SELECT set_config($1, $2, true)', params: [name, value] };
+  }
+
+  /**
+   * Prepares the transaction with `PREPARE TRANSACTION`. The id is inlined
+   * as a literal since the statement takes no parameters.
+   */
+  public prepareTransaction(transactionId: string): SqlStatement | null {
+    return { sql: `PREPARE TRANSACTION ${this.quoteLiteral(transactionId)}`, params: [] };
+  }
+
+  /**
+   * Commits a prepared transaction with `COMMIT PREPARED`.
+   */
+  public commitPrepared(transactionId: string): SqlStatement | null {
+    return { sql: `COMMIT PREPARED ${this.quoteLiteral(transactionId)}`, params: [] };
+  }
+
+  /**
+   * Rolls back a prepared transaction with `ROLLBACK PREPARED`.
+   */
+  public rollbackPrepared(transactionId: string): SqlStatement | null {
+    return { sql: `ROLLBACK PREPARED ${this.quoteLiteral(transactionId)}`, params: [] };
+  }
+
+  /**
+   * Locks rows with `FOR UPDATE` / `FOR SHARE`, optionally `NOWAIT` or `SKIP LOCKED`.
+   */
+  public lockRows(
+    table: string,
+    idColumn: string,
+    ids: readonly unknown[],
+    mode: RowLockMode,
+    wait: RowLockWait
+  ): SqlStatement | null {
+    const id = this.quoteIdentifier(idColumn);
+    const placeholders = ids.map((_, i) => `$${i + 1}`);
+    const clause = [
+      mode === RowLockMode.ForUpdate ? 'FOR UPDATE' : 'FOR SHARE',
+      ...(wait === RowLockWait.NoWait ? ['NOWAIT'] : []),
+      ...(wait === RowLockWait.SkipLocked ? ['SKIP LOCKED'] : []),
+    ].join(' ');
+
+    return {
+      sql:
+        `SELECT ${id} FROM ${this.quoteIdentifier(table)} ` +
+        `WHERE ${id} IN (${placeholders.join(', ')}) ORDER BY ${id} ${clause}`,
+      params: [...ids],
+    };
+  }
+
+  /**
+   * Acquires a transaction-scoped advisory lock. A timeout of 0 tries once;
+   * any other timeout waits indefinitely (see `supportsAdvisoryLockTimeout`).
+   */
+  public acquireAdvisoryLock(key: AdvisoryLockKey, timeout: number | null): SqlStatement | null {
+    const lockId = this.toLockId(key);
+    return timeout === 0
+      ? { sql: 'SELECT pg_try_advisory_xact_lock($1) AS acquired', params: [lockId] }
+      : { sql: 'SELECT true AS acquired FROM pg_advisory_xact_lock($1)', params: [lockId] };
+  }
+
+  /**
+   * Maps a key to a signed 64-bit advisory lock id.
+   *
+   * Strings use the first 8 bytes of their SHA-256 digest; numbers and
+   * bigints are used directly.
+   *
+   * @param key - Lock key
+   * @returns The lock id
+   */
+  public toLockId(key: AdvisoryLockKey): bigint {
+    if (typeof key !== 'string') {
+      return BigInt.asIntN(64, BigInt(key));
+    }
+    return createHash('sha256').update(key).digest().readBigInt64BE(0);
+  }
+}
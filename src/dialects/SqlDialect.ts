@@ -0,0 +1,205 @@
+/**
+ * @fileoverview SQL Dialect Contract
+ * @description
+ * Contract for the raw SQL PrismaUnitOfWork and the repositories issue
+ * outside Prisma's model API: savepoints, session settings, row locks and
+ * advisory locks. One implementation exists per database provider.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import type { AdvisoryLockKey, DatabaseProvider } from '../types/prisma.types';
+import type { RowLockMode, RowLockWait } from '../repository/row-locking';
+
+/**
+ * Raw SQL statement with positional parameters.
+ */
+export interface SqlStatement {
+  /** SQL text with provider-specific placeholders */
+  sql: string;
+
+  /** Parameter values, in placeholder order */
+  params: unknown[];
+}
+
+/**
+ * Generates provider-specific SQL.
+ *
+ * @remarks
+ * Methods return `null` when the database has no equivalent statement;
+ * callers either skip the step (e.g. releasing a savepoint on SQL Server)
+ * or raise `UnsupportedOperationError`.
+ *
+ * Statements returned by `lockRows()` select the id column of the locked
+ * rows; statements returned by `acquireAdvisoryLock()` select a single
+ * `acquired` column that is true (or 1) when the lock is held.
+ *
+ * @example
+ * ```typescript
+ * const dialect = createDialect('mysql');
+ * const { sql, params } = dialect.createSavepoint('before_order');
+ * await tx.$executeRawUnsafe(sql, ...params); // SAVEPOINT `before_order`
+ * ```
+ */
+export interface SqlDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  readonly provider: DatabaseProvider;
+
+  /**
+   * Whether `acquireAdvisoryLock()` supports a bounded timeout. When false,
+   * callers emulate timeouts by retrying with a timeout of 0.
+   */
+  readonly supportsAdvisoryLockTimeout: boolean;
+
+  /**
+   * Quotes a possibly schema-qualified identifier.
+   *
+   * @param identifier - Table, column or savepoint name
+   * @returns The quoted identifier
+   */
+  quoteIdentifier(identifier: string): string;
+
+  /**
+   * Creates a savepoint.
+   *
+   * @param name - Savepoint name
+   */
+  createSavepoint(name: string): SqlStatement;
+
+  /**
+   * Rolls back to a savepoint.
+   *
+   * @param name - Savepoint name
+   */
+  rollbackToSavepoint(name: string): SqlStatement;
+
+  /**
+   * Releases a savepoint, or null if savepoints cannot be released.
+   *
+   * @param name - Savepoint name
+   */
+  releaseSavepoint(name: string): SqlStatement | null;
+
+  /**
+   * Marks the current transaction read-only, or null if the database
+   * has no such setting.
+   */
+  setTransactionReadOnly(): SqlStatement | null;
+
+  /**
+   * Limits the run time of each statement in the current transaction, or
+   * null if the database has no server-side statement timeout.
+   *
+   * @param timeout - Timeout in milliseconds
+   */
+  setStatementTimeout(timeout: number): SqlStatement | null;
+
+  /**
+   * Limits how long each statement in the current transaction waits for a
+   * lock, or null if the database has no lock timeout.
+   *
+   * @param timeout - Timeout in milliseconds
+   */
+  setLockTimeout(timeout: number): SqlStatement | null;
+
+  /**
+   * Restores the session's statement timeout before the transaction ends,
+   * or null if `setStatementTimeout()` only affects the transaction.
+   */
+  resetStatementTimeout(): SqlStatement | null;
+
+  /**
+   * Restores the session's lock timeout before the transaction ends, or
+   * null if `setLockTimeout()` only affects the transaction.
+   */
+  resetLockTimeout(): SqlStatement | null;
+
+  /**
+   * Sets a configuration parameter for the current transaction only, or
+   * null if the database has no transaction-scoped session variables.
+   * The statement is run as a query and may return a row.
+   *
+   * @param name - Parameter name, e.g. `app.tenant_id` or `search_path`
+   * @param value - Parameter value
+   */
+  setSessionVariable(name: string, value: string): SqlStatement | null;
+
+  /**
+   * Prepares the current transaction for a two-phase commit, or null if the
+   * database has no prepared transactions. Afterwards the transaction is
+   * detached from the session and survives until committed or rolled back
+   * by its id.
+   *
+   * @param transactionId - Global transaction id, already validated
+   */
+  prepareTransaction(transactionId: string): SqlStatement | null;
+
+  /**
+   * Commits a prepared transaction, or null if the database has no
+   * prepared transactions. Runs outside a transaction.
+   *
+   * @param transactionId - Global transaction id, already validated
+   */
+  commitPrepared(transactionId: string): SqlStatement | null;
+
+  /**
+   * Rolls back a prepared transaction, or null if the database has no
+   * prepared transactions. Runs outside a transaction.
+   *
+   * @param transactionId - Global transaction id, already validated
+   */
+  rollbackPrepared(transactionId: string): SqlStatement | null;
+
+  /**
+   * Locks rows by id, in the order of `ids`.
+   *
+   * @param table - Table name, optionally schema-qualified
+   * @param idColumn - Primary key column
+   * @param ids - Ids to lock, already sorted
+   * @param mode - Lock strength
+   * @param wait - Behaviour on locked rows
+   * @returns The locking read, or null if the database has no row locks
+   */
+  lockRows(
+    table: string,
+    idColumn: string,
+    ids: readonly unknown[],
+    mode: RowLockMode,
+    wait: RowLockWait
+  ): SqlStatement | null;
+
+  /**
+   * Acquires an advisory lock held until the transaction ends.
+   *
+   * @param key - Lock key
+   * @param timeout - Maximum wait in milliseconds; 0 tries once, null waits indefinitely
+   * @returns The statement, or null if the database has no transaction-scoped
+   * advisory locks
+   */
+  acquireAdvisoryLock(key: AdvisoryLockKey, timeout: number | null): SqlStatement | null;
+
+  /**
+   * Checks whether an error reports a lock held by another transaction.
+   *
+   * @param error - Error thrown by a raw query
+   */
+  isLockNotAvailableError(error: unknown): boolean;
+
+  /**
+   * Checks whether an error reports a statement cancelled by the statement timeout.
+   *
+   * @param error - Error thrown by a query
+   */
+  isStatementTimeoutError(error: unknown): boolean;
+
+  /**
+   * Checks whether an error reports a lock wait cancelled by the lock timeout.
+   *
+   * @param error - Error thrown by a query
+   */
+  isLockTimeoutError(error: unknown): boolean;
+}
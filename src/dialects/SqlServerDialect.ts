@@ -0,0 +1,139 @@
+/**
+ * @fileoverview SQL Server Dialect
+ * @description
+ * SQL for Microsoft SQL Server: bracket-quoted identifiers, `@Pn`
+ * placeholders, `SAVE TRANSACTION`, table hints and application locks.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import type { AdvisoryLockKey, DatabaseProvider } from '../types/prisma.types';
+import { RowLockMode, RowLockWait } from '../repository/row-locking';
+import { BaseSqlDialect } from './BaseSqlDialect';
+import type { SqlStatement } from './SqlDialect';
+
+/**
+ * SqlServerDialect - SQL for Microsoft SQL Server.
+ *
+ * @remarks
+ * - Savepoints use `SAVE TRANSACTION` / `ROLLBACK TRANSACTION` and cannot
+ *   be released; releasing a savepoint only forgets it.
+ * - There is no read-only transaction setting; read-only transactions
+ *   rely on the client-side write guard.
+ * - Row locks use `UPDLOCK`/`HOLDLOCK` table hints with `NOWAIT` or
+ *   `READPAST`.
+ * - Advisory locks use `sp_getapplock` owned by the transaction.
+ * - Lock timeouts use the session's `SET LOCK_TIMEOUT`, restored before the
+ *   transaction ends. When Prisma expires or aborts the transaction first,
+ *   the connection returns to the pool with the timeout still set. There
+ *   is no server-side statement timeout.
+ */
+export class SqlServerDialect extends BaseSqlDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  public readonly provider: DatabaseProvider = 'sqlserver';
+
+  /**
+   * Identifier quote characters.
+   * @protected
+   */
+  protected readonly identifierQuotes = ['[', ']'] as const;
+
+  /**
+   * Error 1222 (lock request time out period exceeded).
+   * @protected
+   */
+  protected readonly lockNotAvailableCodes: readonly string[] = ['1222'];
+
+  /**
+   * Error 1222, also raised when `LOCK_TIMEOUT` expires.
+   * @protected
+   */
+  protected readonly lockTimeoutCodes: readonly string[] = ['1222'];
+
+  /**
+   * Creates a savepoint with `SAVE TRANSACTION`.
+   */
+  public createSavepoint(name: string): SqlStatement {
+    return { sql: `SAVE TRANSACTION ${this.quoteIdentifier(name)}`, params: [] };
+  }
+
+  /**
+   * Rolls back to a savepoint with `ROLLBACK TRANSACTION`.
+   */
+  public rollbackToSavepoint(name: string): SqlStatement {
+    return { sql: `ROLLBACK TRANSACTION ${this.quoteIdentifier(name)}`, params: [] };
+  }
+
+  /**
+   * SQL Server savepoints cannot be released.
+   */
+  public releaseSavepoint(_name: string): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * SQL Server has no read-only transaction setting.
+   */
+  public setTransactionReadOnly(): SqlStatement | null {
+    return null;
+  }
+
+  /**
+   * Sets the session's lock timeout with `SET LOCK_TIMEOUT`.
+   */
+  public setLockTimeout(timeout: number): SqlStatement | null {
+    return { sql: `SET LOCK_TIMEOUT ${this.toMilliseconds(timeout)}`, params: [] };
+  }
+
+  /**
+   * Restores the default of waiting indefinitely.
+   */
+  public resetLockTimeout(): SqlStatement | null {
+    return { sql: 'SET LOCK_TIMEOUT -1', params: [] };
+  }
+
+  /**
+   * Locks rows with table hints.
+   */
+  public lockRows(
+    table: string,
+    idColumn: string,
+    ids: readonly unknown[],
+    mode: RowLockMode,
+    wait: RowLockWait
+  ): SqlStatement | null {
+    const id = this.quoteIdentifier(idColumn);
+    const placeholders = ids.map((_, i) => `@P${i + 1}`);
+    const hints = [
+      mode === RowLockMode.ForUpdate ? 'UPDLOCK' : 'HOLDLOCK',
+      'ROWLOCK',
+      ...(wait === RowLockWait.NoWait ? ['NOWAIT'] : []),
+      ...(wait === RowLockWait.SkipLocked ? ['READPAST'] : []),
+    ];
+
+    return {
+      sql:
+        `SELECT ${id} FROM ${this.quoteIdentifier(table)} WITH (${hints.join(', ')}) ` +
+        `WHERE ${id} IN (${placeholders.join(', ')}) ORDER BY ${id}`,
+      params: [...ids],
+    };
+  }
+
+  /**
+   * Acquires an exclusive application lock owned by the transaction.
+   */
+  public acquireAdvisoryLock(key: AdvisoryLockKey, timeout: number | null): SqlStatement | null {
+    return {
+      sql:
+        'DECLARE @result int; ' +
+        "EXEC @result = sp_getapplock @Resource = @P1, @LockMode = 'Exclusive', " +
+        "@LockOwner = 'Transaction', @LockTimeout = @P2; " +
+        'SELECT CASE WHEN @result >= 0 THEN 1 ELSE 0 END AS acquired',
+      params: [this.toLockName(key), timeout ?? -1],
+    };
+  }
+}
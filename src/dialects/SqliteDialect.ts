@@ -0,0 +1,42 @@
+/**
+ * @fileoverview SQLite Dialect
+ * @description
+ * SQL for SQLite, which supports savepoints but no row or advisory locks.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import type { DatabaseProvider } from '../types/prisma.types';
+import { BaseSqlDialect } from './BaseSqlDialect';
+import type { SqlStatement } from './SqlDialect';
+
+/**
+ * SqliteDialect - SQL for SQLite.
+ *
+ * @remarks
+ * SQLite locks the whole database for writes, so locking reads,
+ * advisory locks and lock timeouts are unsupported, as are statement
+ * timeouts. There is no read-only transaction setting; read-only
+ * transactions rely on the client-side write guard.
+ */
+export class SqliteDialect extends BaseSqlDialect {
+  /**
+   * Database provider this dialect generates SQL for.
+   */
+  public readonly provider: DatabaseProvider = 'sqlite';
+
+  /**
+   * Identifier quote characters.
+   * @protected
+   */
+  protected readonly identifierQuotes = ['"', '"'] as const;
+
+  /**
+   * SQLite has no read-only transaction setting.
+   */
+  public setTransactionReadOnly(): SqlStatement | null {
+    return null;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * @fileoverview Dialect Exports
+ * @description
+ * Exports the SQL dialects and the helpers selecting one for a Prisma client.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+export type { SqlDialect, SqlStatement } from './SqlDialect';
+export { PostgresDialect } from './PostgresDialect';
+export { CockroachDbDialect } from './CockroachDbDialect';
+export { MySqlDialect } from './MySqlDialect';
+export { SqlServerDialect } from './SqlServerDialect';
+export { SqliteDialect } from './SqliteDialect';
+export { createDialect, resolveDialect } from './resolve-dialect';
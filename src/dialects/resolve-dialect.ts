@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Dialect Resolution
+ * @description
+ * Creates the SQL dialect for a datasource provider, either configured
+ * explicitly or reported by the Prisma client.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/dialects
+ * @version 1.0.0
+ */
+
+import type { DatabaseProvider } from '../types/prisma.types';
+import { UnsupportedOperationError } from '../errors/unit-of-work.errors';
+import type { SqlDialect } from './SqlDialect';
+import { PostgresDialect } from './PostgresDialect';
+import { CockroachDbDialect } from './CockroachDbDialect';
+import { MySqlDialect } from './MySqlDialect';
+import { SqlServerDialect } from './SqlServerDialect';
+import { SqliteDialect } from './SqliteDialect';
+
+/**
+ * Creates the dialect of a datasource provider.
+ *
+ * @param provider - Datasource provider from `schema.prisma`
+ * @returns The dialect
+ * @throws {UnsupportedOperationError} If the provider is unknown
+ *
+ * @example
+ * ```typescript
+ * const dialect = createDialect('sqlserver');
+ * dialect.createSavepoint('sp1').sql; // SAVE TRANSACTION [sp1]
+ * ```
+ */
+export function createDialect(provider: DatabaseProvider): SqlDialect {
+  switch (provider) {
+    case 'postgresql':
+      return new PostgresDialect();
+    case 'cockroachdb':
+      return new CockroachDbDialect();
+    case 'mysql':
+      return new MySqlDialect();
+    case 'sqlserver':
+      return new SqlServerDialect();
+    case 'sqlite':
+      return new SqliteDialect();
+    default:
+      throw new UnsupportedOperationError('SQL dialect', String(provider));
+  }
+}
+
+/**
+ * Resolves the dialect for a Prisma client.
+ *
+ * An explicit dialect or provider takes precedence; otherwise the provider
+ * reported by the client is used, falling back to PostgreSQL for clients
+ * that do not report one.
+ *
+ * @param client - Prisma client or transaction client
+ * @param dialect - Configured dialect or provider
+ * @returns The dialect
+ */
+export function resolveDialect(
+  client: unknown,
+  dialect?: SqlDialect | DatabaseProvider
+): SqlDialect {
+  if (typeof dialect === 'object') {
+    return dialect;
+  }
+
+  const provider =
+    dialect ?? (client as { _activeProvider?: DatabaseProvider } | undefined)?._activeProvider;
+  return createDialect(provider ?? 'postgresql');
+}
@@ -14,10 +14,24 @@ export {
   TransactionAlreadyActiveError,
   NoActiveTransactionError,
   RepositoryNotRegisteredError,
+  UnitOfWorkFactoryNotFoundError,
   SavepointError,
   SavepointNotFoundError,
   DatabaseConnectionError,
   TransactionTimeoutError,
+  TransactionCancelledError,
+  TransactionRetryExhaustedError,
+  ReadOnlyTransactionViolationError,
+  TransactionRequiredError,
   UnitOfWorkDisposedError,
+  OutboxModelNotFoundError,
+  ChangeTrackingError,
+  OptimisticConcurrencyError,
+  LockNotAvailableError,
+  LockTimeoutError,
+  StatementTimeoutError,
+  UnsupportedOperationError,
+  UnknownTenantError,
+  CompositeCommitError,
   ErrorCodes,
 } from './unit-of-work.errors';
\ No newline at end of file
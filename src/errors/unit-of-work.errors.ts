@@ -10,6 +10,8 @@
  * @version 1.0.0
  */
 
+import type { CompositeCommitReport } from '../types/prisma.types';
+
 /**
  * Base error class for Prisma Unit of Work errors.
  *
@@ -184,6 +186,43 @@ export class RepositoryNotRegisteredError extends PrismaUnitOfWorkError {
   }
 }
 
+/**
+ * Error thrown when a `@Transactional()` method cannot resolve its
+ * Unit of Work factory.
+ *
+ * @example
+ * ```typescript
+ * // No resolver registered, or the token is not bound
+ * await orderService.placeOrder(input); // Throws UnitOfWorkFactoryNotFoundError
+ *
+ * setTransactionalResolver({ resolve: (token) => container.get(token) });
+ * ```
+ */
+export class UnitOfWorkFactoryNotFoundError extends PrismaUnitOfWorkError {
+  /**
+   * The token the factory was resolved with.
+   */
+  public readonly factoryToken: string;
+
+  /**
+   * Creates a new UnitOfWorkFactoryNotFoundError.
+   *
+   * @param token - Token the factory was resolved with
+   * @param cause - Error thrown by the resolver, if any
+   */
+  constructor(token: string | symbol, cause?: Error) {
+    const tokenString = typeof token === 'symbol' ? token.toString() : token;
+    super(
+      `No PrismaUnitOfWorkFactory is registered for '${tokenString}'. ` +
+        `Register a resolver using setTransactionalResolver().`,
+      'UNIT_OF_WORK_FACTORY_NOT_FOUND',
+      { cause }
+    );
+    this.name = 'UnitOfWorkFactoryNotFoundError';
+    this.factoryToken = tokenString;
+  }
+}
+
 /**
  * Error thrown when accessing repositories without an active transaction.
  *
@@ -402,6 +441,196 @@ export class TransactionTimeoutError extends TransactionError {
   }
 }
 
+/**
+ * Error thrown when a transaction is cancelled.
+ *
+ * This error indicates that the request context was cancelled or the
+ * `AbortSignal` passed to `executeInTransaction` was aborted. The
+ * transaction has been rolled back and can no longer be used.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 5000);
+ *
+ * await uow.executeInTransaction(work, { signal: controller.signal });
+ * // Throws TransactionCancelledError if aborted before commit
+ * ```
+ */
+export class TransactionCancelledError extends TransactionError {
+  /**
+   * Creates a new TransactionCancelledError.
+   *
+   * @param unitOfWorkId - Unit of Work ID
+   * @param traceId - Optional trace ID
+   * @param cause - The abort reason, if any
+   */
+  constructor(unitOfWorkId?: string, traceId?: string, cause?: Error) {
+    super(
+      'Transaction was cancelled because the request was cancelled or aborted. ' +
+        'All changes have been rolled back.',
+      'TRANSACTION_CANCELLED',
+      { cause, unitOfWorkId, traceId }
+    );
+    this.name = 'TransactionCancelledError';
+  }
+}
+
+/**
+ * Error thrown when a transaction keeps failing with retryable errors.
+ *
+ * This error indicates that every attempt allowed by the retry policy
+ * was aborted by the database (serialization failure or deadlock).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await uow.executeInTransaction(transfer, { retry: { maxAttempts: 3 } });
+ * } catch (error) {
+ *   if (error instanceof TransactionRetryExhaustedError) {
+ *     console.error(`Gave up after ${error.attempts} attempts`, error.causes);
+ *   }
+ * }
+ * ```
+ */
+export class TransactionRetryExhaustedError extends TransactionError {
+  /**
+   * Number of attempts that were made.
+   */
+  public readonly attempts: number;
+
+  /**
+   * The error of every attempt, in order.
+   */
+  public readonly causes: readonly Error[];
+
+  /**
+   * Creates a new TransactionRetryExhaustedError.
+   *
+   * @param causes - The error of every failed attempt
+   * @param unitOfWorkId - Unit of Work ID
+   * @param traceId - Optional trace ID
+   */
+  constructor(causes: Error[], unitOfWorkId?: string, traceId?: string) {
+    super(
+      `Transaction failed after ${causes.length} attempts. ` +
+        `Last error: ${causes[causes.length - 1]?.message}`,
+      'TRANSACTION_RETRY_EXHAUSTED',
+      { cause: causes[causes.length - 1], unitOfWorkId, traceId }
+    );
+    this.name = 'TransactionRetryExhaustedError';
+    this.attempts = causes.length;
+    this.causes = causes;
+  }
+
+  /**
+   * Returns a JSON-serializable representation of the error.
+   *
+   * @returns Object containing error details
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      attempts: this.attempts,
+      causes: this.causes.map((cause) => cause.message),
+    };
+  }
+}
+
+/**
+ * Error thrown when a write is attempted in a read-only transaction.
+ *
+ * Repositories obtained from a Unit of Work started with
+ * `readOnly: true` reject write operations before they reach the database.
+ *
+ * @example
+ * ```typescript
+ * await uow.executeInTransaction(async (unitOfWork) => {
+ *   const repo = unitOfWork.getRepository<IUserRepository>('UserRepository');
+ *   await repo.create({ name: 'John' }); // Throws ReadOnlyTransactionViolationError
+ * }, { readOnly: true });
+ * ```
+ */
+export class ReadOnlyTransactionViolationError extends TransactionError {
+  /**
+   * The write operation that was attempted (e.g. `create`).
+   */
+  public readonly operation: string;
+
+  /**
+   * The Prisma model the operation targeted, if any.
+   */
+  public readonly model?: string;
+
+  /**
+   * Creates a new ReadOnlyTransactionViolationError.
+   *
+   * @param operation - The write operation that was attempted
+   * @param model - The Prisma model the operation targeted
+   * @param unitOfWorkId - Unit of Work ID
+   * @param traceId - Optional trace ID
+   */
+  constructor(operation: string, model?: string, unitOfWorkId?: string, traceId?: string) {
+    const target = model ? `${model}.${operation}` : operation;
+    super(
+      `Cannot perform '${target}' in a read-only transaction. ` +
+        `Start the transaction without 'readOnly' to write data.`,
+      'READ_ONLY_TRANSACTION_VIOLATION',
+      { unitOfWorkId, traceId }
+    );
+    this.name = 'ReadOnlyTransactionViolationError';
+    this.operation = operation;
+    this.model = model;
+  }
+}
+
+/**
+ * Error thrown when a strict repository writes outside a transaction.
+ *
+ * Repositories created from the root Prisma client with
+ * `strictTransactions` enabled reject writes unless they run inside an
+ * `executeInTransaction()` callback.
+ *
+ * @example
+ * ```typescript
+ * PrismaRepository.strictTransactions = true;
+ *
+ * const users = new PrismaUserRepository(prisma);
+ * await users.create({ name: 'John' }); // Throws TransactionRequiredError
+ *
+ * await uow.executeInTransaction(() => users.create({ name: 'John' })); // OK
+ * ```
+ */
+export class TransactionRequiredError extends TransactionError {
+  /**
+   * The write operation that was attempted (e.g. `create`).
+   */
+  public readonly operation: string;
+
+  /**
+   * The Prisma model the operation targeted, if any.
+   */
+  public readonly model?: string;
+
+  /**
+   * Creates a new TransactionRequiredError.
+   *
+   * @param operation - The write operation that was attempted
+   * @param model - The Prisma model the operation targeted
+   */
+  constructor(operation: string, model?: string) {
+    const target = model ? `${model}.${operation}` : operation;
+    super(
+      `Cannot perform '${target}' outside a transaction. ` +
+        `Run it inside executeInTransaction() or disable 'strictTransactions'.`,
+      'TRANSACTION_REQUIRED'
+    );
+    this.name = 'TransactionRequiredError';
+    this.operation = operation;
+    this.model = model;
+  }
+}
+
 /**
  * Error thrown when Unit of Work is disposed.
  *
@@ -433,6 +662,459 @@ export class UnitOfWorkDisposedError extends PrismaUnitOfWorkError {
   }
 }
 
+/**
+ * Error thrown when the outbox model is missing from the Prisma client.
+ *
+ * This error indicates that the Prisma schema has no model matching
+ * the configured outbox model name.
+ *
+ * @example
+ * ```typescript
+ * // Schema defines `model IntegrationEvent`, but the default is used
+ * unitOfWork.getOutbox(); // throws OutboxModelNotFoundError('outboxMessage')
+ * ```
+ */
+export class OutboxModelNotFoundError extends PrismaUnitOfWorkError {
+  /**
+   * The configured outbox model name.
+   */
+  public readonly model: string;
+
+  /**
+   * Creates a new OutboxModelNotFoundError.
+   *
+   * @param model - The configured outbox model name
+   * @param unitOfWorkId - Unit of Work ID
+   * @param traceId - Optional trace ID
+   */
+  constructor(model: string, unitOfWorkId?: string, traceId?: string) {
+    super(
+      `Outbox model '${model}' does not exist on the Prisma client. ` +
+        `Add it to your schema or configure the model name with 'outbox.model'.`,
+      'OUTBOX_MODEL_NOT_FOUND',
+      { unitOfWorkId, traceId }
+    );
+    this.name = 'OutboxModelNotFoundError';
+    this.model = model;
+  }
+}
+
+/**
+ * Error thrown when an entity is registered with the change tracker
+ * in a way that contradicts its tracked state.
+ *
+ * @example
+ * ```typescript
+ * unitOfWork.registerDeleted('user', user);
+ * unitOfWork.registerDirty('user', user); // throws ChangeTrackingError
+ * ```
+ */
+export class ChangeTrackingError extends PrismaUnitOfWorkError {
+  /**
+   * The model of the offending entity, if known.
+   */
+  public readonly model?: string;
+
+  /**
+   * Creates a new ChangeTrackingError.
+   *
+   * @param message - Human-readable error message
+   * @param model - The model of the offending entity
+   * @param unitOfWorkId - Unit of Work ID
+   * @param traceId - Optional trace ID
+   */
+  constructor(message: string, model?: string, unitOfWorkId?: string, traceId?: string) {
+    super(message, 'CHANGE_TRACKING_ERROR', { unitOfWorkId, traceId });
+    this.name = 'ChangeTrackingError';
+    this.model = model;
+  }
+}
+
+/**
+ * Error thrown when a versioned write matches no row because the
+ * entity was modified or deleted by a concurrent transaction.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await userRepo.update(user.id, { name: 'Jane', version: user.version });
+ * } catch (error) {
+ *   if (error instanceof OptimisticConcurrencyError) {
+ *     // Reload and let the user resolve the conflict
+ *   }
+ * }
+ * ```
+ */
+export class OptimisticConcurrencyError extends PrismaUnitOfWorkError {
+  /**
+   * Identifier of the conflicting entity.
+   */
+  public readonly entityId: unknown;
+
+  /**
+   * Version the write expected to find.
+   */
+  public readonly expectedVersion: unknown;
+
+  /**
+   * Version currently stored in the database.
+   */
+  public readonly actualVersion: unknown;
+
+  /**
+   * Creates a new OptimisticConcurrencyError.
+   *
+   * @param entityId - Identifier of the conflicting entity
+   * @param expectedVersion - Version the write expected to find
+   * @param actualVersion - Version currently stored in the database
+   * @param options - Additional error options
+   */
+  constructor(
+    entityId: unknown,
+    expectedVersion: unknown,
+    actualVersion: unknown,
+    options?: {
+      unitOfWorkId?: string;
+      traceId?: string;
+    }
+  ) {
+    super(
+      `Entity '${String(entityId)}' was modified concurrently: ` +
+        `expected version ${String(expectedVersion)}, found ${String(actualVersion)}.`,
+      'OPTIMISTIC_CONCURRENCY_CONFLICT',
+      options
+    );
+    this.name = 'OptimisticConcurrencyError';
+    this.entityId = entityId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+  }
+
+  /**
+   * Converts the error to a JSON-serializable object.
+   *
+   * @returns JSON representation including the versions
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      entityId: this.entityId,
+      expectedVersion: this.expectedVersion,
+      actualVersion: this.actualVersion,
+    };
+  }
+}
+
+/**
+ * Error thrown when a lock cannot be acquired without waiting.
+ *
+ * Raised for locking reads in `NOWAIT` mode when another transaction
+ * holds a conflicting lock.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await accountRepo.findByIdForUpdate(id, { wait: RowLockWait.NoWait });
+ * } catch (error) {
+ *   if (error instanceof LockNotAvailableError) {
+ *     // Ask the client to retry later
+ *   }
+ * }
+ * ```
+ */
+export class LockNotAvailableError extends TransactionError {
+  /**
+   * The locked resource (e.g. a table name).
+   */
+  public readonly resource: string;
+
+  /**
+   * Creates a new LockNotAvailableError.
+   *
+   * @param resource - The locked resource
+   * @param cause - The original database error
+   * @param options - Additional error options
+   */
+  constructor(
+    resource: string,
+    cause?: Error,
+    options?: {
+      unitOfWorkId?: string;
+      traceId?: string;
+    }
+  ) {
+    super(
+      `Lock on '${resource}' is held by another transaction and could not be acquired without waiting.`,
+      'LOCK_NOT_AVAILABLE',
+      { cause, ...options }
+    );
+    this.name = 'LockNotAvailableError';
+    this.resource = resource;
+  }
+}
+
+/**
+ * Error thrown when a lock is not acquired within its timeout.
+ *
+ * For advisory locks the transaction is still usable; the caller decides
+ * whether to retry, continue without the lock or roll back. When a
+ * statement exceeds the transaction's `lockTimeout`, the resource is
+ * `'database lock'` and the transaction is rolled back.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await uow.acquireLock(`customer:${customerId}`, { timeout: 2000 });
+ * } catch (error) {
+ *   if (error instanceof LockTimeoutError) {
+ *     console.warn(`Gave up on ${error.resource} after ${error.timeoutMs}ms`);
+ *   }
+ * }
+ * ```
+ */
+export class LockTimeoutError extends TransactionError {
+  /**
+   * The lock that was requested.
+   */
+  public readonly resource: string;
+
+  /**
+   * The timeout in milliseconds.
+   */
+  public readonly timeoutMs: number;
+
+  /**
+   * Creates a new LockTimeoutError.
+   *
+   * @param resource - The lock that was requested
+   * @param timeoutMs - The timeout in milliseconds
+   * @param options - Additional error options
+   */
+  constructor(
+    resource: string,
+    timeoutMs: number,
+    options?: {
+      cause?: Error;
+      unitOfWorkId?: string;
+      traceId?: string;
+    }
+  ) {
+    super(`Lock '${resource}' was not acquired within ${timeoutMs}ms.`, 'LOCK_TIMEOUT', options);
+    this.name = 'LockTimeoutError';
+    this.resource = resource;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown when a statement exceeds the transaction's statement timeout.
+ *
+ * Unlike `TransactionTimeoutError`, which bounds the whole transaction,
+ * this error reports a single slow query. The transaction is rolled back.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await uow.executeInTransaction(runReport, {
+ *     databaseOptions: { statementTimeout: 2000 },
+ *   });
+ * } catch (error) {
+ *   if (error instanceof StatementTimeoutError) {
+ *     console.warn(`Query cancelled after ${error.timeoutMs}ms`);
+ *   }
+ * }
+ * ```
+ */
+export class StatementTimeoutError extends TransactionError {
+  /**
+   * The statement timeout in milliseconds.
+   */
+  public readonly timeoutMs: number;
+
+  /**
+   * Creates a new StatementTimeoutError.
+   *
+   * @param timeoutMs - The statement timeout that was exceeded
+   * @param options - Additional error options
+   */
+  constructor(
+    timeoutMs: number,
+    options?: {
+      cause?: Error;
+      unitOfWorkId?: string;
+      traceId?: string;
+    }
+  ) {
+    super(
+      `Statement exceeded the statement timeout of ${timeoutMs}ms.`,
+      'STATEMENT_TIMEOUT',
+      options
+    );
+    this.name = 'StatementTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown when an operation is not supported by the database provider.
+ *
+ * @example
+ * ```typescript
+ * // SQLite has no row-level locks
+ * await repo.findByIdForUpdate(id); // throws UnsupportedOperationError
+ * ```
+ */
+export class UnsupportedOperationError extends PrismaUnitOfWorkError {
+  /**
+   * The unsupported operation.
+   */
+  public readonly operation: string;
+
+  /**
+   * The database provider.
+   */
+  public readonly provider: string;
+
+  /**
+   * Creates a new UnsupportedOperationError.
+   *
+   * @param operation - The unsupported operation
+   * @param provider - The database provider
+   * @param options - Additional error options
+   */
+  constructor(
+    operation: string,
+    provider: string,
+    options?: {
+      unitOfWorkId?: string;
+      traceId?: string;
+    }
+  ) {
+    super(
+      `'${operation}' is not supported by the '${provider}' database provider.`,
+      'UNSUPPORTED_OPERATION',
+      options
+    );
+    this.name = 'UnsupportedOperationError';
+    this.operation = operation;
+    this.provider = provider;
+  }
+}
+
+/**
+ * Error thrown when no database is configured for a tenant.
+ *
+ * Raised by `TenantRoutingUnitOfWorkFactory` when the context carries no
+ * tenant or the client resolver does not know the tenant.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const uow = tenantFactory.createWithContext(ctx);
+ * } catch (error) {
+ *   if (error instanceof UnknownTenantError) {
+ *     return res.status(404).send(`Unknown tenant '${error.tenantId}'`);
+ *   }
+ * }
+ * ```
+ */
+export class UnknownTenantError extends PrismaUnitOfWorkError {
+  /**
+   * The tenant, or undefined if none was resolved from the context.
+   */
+  public readonly tenantId?: string;
+
+  /**
+   * Creates a new UnknownTenantError.
+   *
+   * @param tenantId - The unknown tenant, or undefined if none was resolved
+   * @param options - Additional error options
+   */
+  constructor(
+    tenantId: string | undefined,
+    options?: {
+      cause?: Error;
+      traceId?: string;
+    }
+  ) {
+    super(
+      tenantId === undefined
+        ? 'No tenant could be resolved from the context.'
+        : `No database is configured for tenant '${tenantId}'.`,
+      'UNKNOWN_TENANT',
+      options
+    );
+    this.name = 'UnknownTenantError';
+    this.tenantId = tenantId;
+  }
+}
+
+/**
+ * Error thrown when a `CompositeUnitOfWork` could not commit every member.
+ *
+ * The report lists which members committed and which did not. When
+ * `report.partial` is true, the databases are inconsistent and need
+ * compensation; members `IN_DOUBT` hold prepared transactions.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await composite.commit();
+ * } catch (error) {
+ *   if (error instanceof CompositeCommitError && error.report.partial) {
+ *     logger.error('Inconsistent commit', { committed: error.report.committed });
+ *   }
+ * }
+ * ```
+ */
+export class CompositeCommitError extends TransactionError {
+  /**
+   * Outcome of every member.
+   */
+  public readonly report: CompositeCommitReport;
+
+  /**
+   * Creates a new CompositeCommitError.
+   *
+   * @param report - Commit report of the composite
+   * @param options - Additional error options
+   */
+  constructor(
+    report: CompositeCommitReport,
+    options?: {
+      unitOfWorkId?: string;
+      traceId?: string;
+    }
+  ) {
+    super(
+      `Composite commit failed. Committed: [${report.committed.join(', ')}], ` +
+        `not committed: [${report.notCommitted.join(', ')}]`,
+      'COMPOSITE_COMMIT_FAILED',
+      { ...options, cause: report.members.find((member) => member.error)?.error }
+    );
+    this.name = 'CompositeCommitError';
+    this.report = report;
+  }
+
+  /**
+   * Returns a JSON-serializable representation of the error.
+   *
+   * @returns Object containing error details
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      report: {
+        ...this.report,
+        members: this.report.members.map((member) => ({
+          ...member,
+          error: member.error?.message,
+        })),
+      },
+    };
+  }
+}
+
 /**
  * Error codes for programmatic error handling.
  *
@@ -453,14 +1135,26 @@ export const ErrorCodes = {
   TRANSACTION_COMMIT_FAILED: 'TRANSACTION_COMMIT_FAILED',
   /** Transaction rollback failed */
   TRANSACTION_ROLLBACK_FAILED: 'TRANSACTION_ROLLBACK_FAILED',
+  /** Prepared transaction id is not valid */
+  INVALID_TRANSACTION_ID: 'INVALID_TRANSACTION_ID',
   /** Transaction timed out */
   TRANSACTION_TIMEOUT: 'TRANSACTION_TIMEOUT',
+  /** Transaction cancelled */
+  TRANSACTION_CANCELLED: 'TRANSACTION_CANCELLED',
+  /** Transaction retries exhausted */
+  TRANSACTION_RETRY_EXHAUSTED: 'TRANSACTION_RETRY_EXHAUSTED',
+  /** Write attempted in a read-only transaction */
+  READ_ONLY_TRANSACTION_VIOLATION: 'READ_ONLY_TRANSACTION_VIOLATION',
+  /** Write attempted outside a transaction by a strict repository */
+  TRANSACTION_REQUIRED: 'TRANSACTION_REQUIRED',
   /** Transaction already active */
   TRANSACTION_ALREADY_ACTIVE: 'TRANSACTION_ALREADY_ACTIVE',
   /** No active transaction */
   NO_ACTIVE_TRANSACTION: 'NO_ACTIVE_TRANSACTION',
   /** Repository not registered */
   REPOSITORY_NOT_REGISTERED: 'REPOSITORY_NOT_REGISTERED',
+  /** No Unit of Work factory for a @Transactional() method */
+  UNIT_OF_WORK_FACTORY_NOT_FOUND: 'UNIT_OF_WORK_FACTORY_NOT_FOUND',
   /** Savepoint not found */
   SAVEPOINT_NOT_FOUND: 'SAVEPOINT_NOT_FOUND',
   /** Savepoint creation failed */
@@ -469,8 +1163,32 @@ export const ErrorCodes = {
   SAVEPOINT_ROLLBACK_FAILED: 'SAVEPOINT_ROLLBACK_FAILED',
   /** Savepoint release failed */
   SAVEPOINT_RELEASE_FAILED: 'SAVEPOINT_RELEASE_FAILED',
+  /** Savepoint name is not a valid identifier */
+  INVALID_SAVEPOINT_NAME: 'INVALID_SAVEPOINT_NAME',
   /** Database connection error */
   DATABASE_CONNECTION_ERROR: 'DATABASE_CONNECTION_ERROR',
   /** Unit of Work disposed */
   UNIT_OF_WORK_DISPOSED: 'UNIT_OF_WORK_DISPOSED',
+  /** Outbox model missing from the Prisma client */
+  OUTBOX_MODEL_NOT_FOUND: 'OUTBOX_MODEL_NOT_FOUND',
+  /** Invalid change tracking registration */
+  CHANGE_TRACKING_ERROR: 'CHANGE_TRACKING_ERROR',
+  /** Versioned write matched no row */
+  OPTIMISTIC_CONCURRENCY_CONFLICT: 'OPTIMISTIC_CONCURRENCY_CONFLICT',
+  /** Versioned write without an expected version */
+  VERSION_REQUIRED: 'VERSION_REQUIRED',
+  /** Lock held by another transaction */
+  LOCK_NOT_AVAILABLE: 'LOCK_NOT_AVAILABLE',
+  /** Lock not acquired within its timeout */
+  LOCK_TIMEOUT: 'LOCK_TIMEOUT',
+  /** Statement exceeded the statement timeout */
+  STATEMENT_TIMEOUT: 'STATEMENT_TIMEOUT',
+  /** Operation not supported by the database provider */
+  UNSUPPORTED_OPERATION: 'UNSUPPORTED_OPERATION',
+  /** Raw SQL operation without a table name */
+  TABLE_NAME_REQUIRED: 'TABLE_NAME_REQUIRED',
+  /** No database configured for the tenant */
+  UNKNOWN_TENANT: 'UNKNOWN_TENANT',
+  /** Not every member of a composite Unit of Work committed */
+  COMPOSITE_COMMIT_FAILED: 'COMPOSITE_COMMIT_FAILED',
 } as const;
\ No newline at end of file
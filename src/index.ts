@@ -9,9 +9,16 @@
  *
  * - **PrismaUnitOfWork**: Transaction management using Prisma's interactive transactions
  * - **PrismaUnitOfWorkFactory**: Factory for creating Unit of Work instances
+ * - **TenantRoutingUnitOfWorkFactory**: Factory routing to per-tenant Prisma clients
+ * - **ReadReplicaRouter**: Routing of reads to replicas with read-your-writes pinning
+ * - **CompositeUnitOfWork**: One transaction across several databases, optionally two-phase
  * - **Base Repository Classes**: Abstract classes for implementing Prisma repositories
  * - **Savepoint Support**: Partial rollback capability for PostgreSQL and MySQL
  * - **Context Integration**: Request context propagation for distributed tracing
+ * - **Ambient Transactions**: Repositories join the running transaction without a client
+ * - **@Transactional()**: Method decorator for transactional application services
+ * - **Instrumentation**: Tracing spans for transactions and repositories (OpenTelemetry adapter)
+ * - **Transactional Outbox**: Atomic message recording and relaying to brokers
  *
  * ## Installation
  *
@@ -67,7 +74,16 @@
  * Unit of Work classes for transaction management.
  * @see {@link module:@struktos/prisma/unit-of-work}
  */
-export { PrismaUnitOfWork, PrismaUnitOfWorkFactory } from './unit-of-work';
+export {
+  PrismaUnitOfWork,
+  PrismaUnitOfWorkFactory,
+  TenantRoutingUnitOfWorkFactory,
+  ReadReplicaRouter,
+  CompositeUnitOfWork,
+  isRetryableTransactionError,
+  getAmbientTransaction,
+  type ChangeSetSummary,
+} from './unit-of-work';
 
 // ============================================================================
 // Repository
@@ -82,8 +98,87 @@ export {
   PrismaRepository,
   PrismaCrudRepository,
   type PrismaModelDelegate,
+  type VersionStrategy,
+  type ConcurrencyConflict,
+  type ConflictResolution,
+  RowLockMode,
+  RowLockWait,
+  type RowLockOptions,
 } from './repository';
 
+// ============================================================================
+// Outbox
+// ============================================================================
+
+/**
+ * Transactional outbox writer and relay.
+ * @see {@link module:@struktos/prisma/outbox}
+ */
+export {
+  OutboxWriter,
+  OutboxRelay,
+  DEFAULT_OUTBOX_MODEL,
+  type OutboxWriterOptions,
+  type OutboxMessage,
+  type OutboxMessageInput,
+  type OutboxConfig,
+  type OutboxPublisher,
+  type OutboxRelayOptions,
+  type OutboxBatchResult,
+} from './outbox';
+
+// ============================================================================
+// Dialects
+// ============================================================================
+
+/**
+ * SQL dialects for savepoints, locks and session statements.
+ * @see {@link module:@struktos/prisma/dialects}
+ */
+export {
+  PostgresDialect,
+  CockroachDbDialect,
+  MySqlDialect,
+  SqlServerDialect,
+  SqliteDialect,
+  createDialect,
+  resolveDialect,
+  type SqlDialect,
+  type SqlStatement,
+} from './dialects';
+
+// ============================================================================
+// Instrumentation
+// ============================================================================
+
+/**
+ * OpenTelemetry adapter for transaction instrumentation.
+ * @see {@link module:@struktos/prisma/instrumentation}
+ */
+export {
+  OpenTelemetryInstrumentation,
+  OPENTELEMETRY_ATTRIBUTE_NAMES,
+  type OpenTelemetryAttributes,
+  type OpenTelemetrySpanOptions,
+  type OpenTelemetrySpan,
+  type OpenTelemetryTracer,
+} from './instrumentation';
+
+// ============================================================================
+// Decorators
+// ============================================================================
+
+/**
+ * Method decorator running application service methods in a transaction.
+ * @see {@link module:@struktos/prisma/decorators}
+ */
+export {
+  Transactional,
+  setTransactionalResolver,
+  type TransactionalDecorator,
+  type TransactionalMethod,
+} from './decorators';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -96,15 +191,53 @@ export type {
   PrismaTransactionClient,
   PrismaClientType,
   PrismaTransactionOptions,
+  PrismaDatabaseOptions,
+  SessionVariableValue,
+  SessionVariableMapper,
   PrismaIsolationLevel,
+  DatabaseProvider,
   RepositoryToken,
   RepositoryFactory,
   SavepointInfo,
+  SavepointOptions,
+  WithSavepointOptions,
+  AdvisoryLockKey,
+  AdvisoryLockOptions,
   PrismaUnitOfWorkConfig,
   PrismaUnitOfWorkLogger,
+  TransactionInstrumentation,
+  TransactionSpan,
+  TransactionSpanAttributes,
+  TransactionSpanResult,
+  TenantRoutingOptions,
+  ReadReplicaOptions,
+  CompositeUnitOfWorkOptions,
+  CompositeCommitReport,
+  CompositeMemberReport,
+  CompositeMemberOutcome,
+  AmbientTransaction,
+  TransactionalOptions,
+  TransactionalResolver,
+  TransactionScopeOptions,
+  TransactionRetryPolicy,
+  BeforeCommitHook,
+  AfterCommitHook,
+  AfterRollbackHook,
+  TransactionCompletionHook,
+  TransactionCompletionStatus,
+  AggregateWithDomainEvents,
+  AggregateTracker,
+  UnitOfWorkScope,
+  ChangeTrackingOptions,
+  DomainEventDispatcher,
 } from './types';
 
-export { ISOLATION_LEVEL_MAP } from './types';
+export {
+  ISOLATION_LEVEL_MAP,
+  TransactionPropagation,
+  ReplicaSelectionStrategy,
+  TransactionSpanName,
+} from './types';
 
 // ============================================================================
 // Errors
@@ -120,11 +253,25 @@ export {
   TransactionAlreadyActiveError,
   NoActiveTransactionError,
   RepositoryNotRegisteredError,
+  UnitOfWorkFactoryNotFoundError,
   SavepointError,
   SavepointNotFoundError,
   DatabaseConnectionError,
   TransactionTimeoutError,
+  TransactionCancelledError,
+  TransactionRetryExhaustedError,
+  ReadOnlyTransactionViolationError,
+  TransactionRequiredError,
   UnitOfWorkDisposedError,
+  OutboxModelNotFoundError,
+  ChangeTrackingError,
+  OptimisticConcurrencyError,
+  LockNotAvailableError,
+  LockTimeoutError,
+  StatementTimeoutError,
+  UnsupportedOperationError,
+  UnknownTenantError,
+  CompositeCommitError,
   ErrorCodes,
 } from './errors';
 
@@ -133,29 +280,6 @@ export {
 // ============================================================================
 
 /**
- * Dependency injection token for PrismaUnitOfWorkFactory.
- *
- * @remarks
- * Use this token when registering the factory with your DI container:
- *
- * ```typescript
- * container.bind(PRISMA_UNIT_OF_WORK_FACTORY_TOKEN).toConstantValue(
- *   new PrismaUnitOfWorkFactory(prisma, config)
- * );
- * ```
- */
-export const PRISMA_UNIT_OF_WORK_FACTORY_TOKEN = Symbol('PrismaUnitOfWorkFactory');
-
-/**
- * Dependency injection token for PrismaClient.
- *
- * @remarks
- * Use this token when registering the Prisma client with your DI container:
- *
- * ```typescript
- * container.bind(PRISMA_CLIENT_TOKEN).toConstantValue(
- *   new PrismaClient()
- * );
- * ```
+ * Dependency injection tokens.
  */
-export const PRISMA_CLIENT_TOKEN = Symbol('PrismaClient');
\ No newline at end of file
+export { PRISMA_UNIT_OF_WORK_FACTORY_TOKEN, PRISMA_CLIENT_TOKEN } from './tokens';
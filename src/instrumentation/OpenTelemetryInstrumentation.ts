@@ -0,0 +1,126 @@
+/**
+ * @fileoverview OpenTelemetryInstrumentation Implementation
+ * @description
+ * Records Unit of Work operations and repository calls as spans of a
+ * user-supplied OpenTelemetry tracer.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/instrumentation
+ * @version 1.0.0
+ */
+
+import {
+  TransactionSpanName,
+  type TransactionInstrumentation,
+  type TransactionSpan,
+  type TransactionSpanAttributes,
+} from '../types/prisma.types';
+import {
+  OPENTELEMETRY_ATTRIBUTE_NAMES,
+  type OpenTelemetryAttributes,
+  type OpenTelemetryTracer,
+} from './opentelemetry.types';
+
+/**
+ * `SpanKind.INTERNAL` of `@opentelemetry/api`.
+ * @internal
+ */
+const SPAN_KIND_INTERNAL = 0;
+
+/**
+ * `SpanKind.CLIENT` of `@opentelemetry/api`.
+ * @internal
+ */
+const SPAN_KIND_CLIENT = 2;
+
+/**
+ * `SpanStatusCode.ERROR` of `@opentelemetry/api`.
+ * @internal
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * OpenTelemetryInstrumentation - Maps transaction spans onto an
+ * OpenTelemetry tracer.
+ *
+ * @remarks
+ * Transaction and savepoint spans are client spans named after the
+ * operation (`transaction.commit`); repository calls are internal spans
+ * named `<token>.<method>`. Spans are started with `tracer.startSpan()`,
+ * so they become children of the span active when the operation starts.
+ * Failed operations record the exception and set the `ERROR` status.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const factory = new PrismaUnitOfWorkFactory(prisma, {
+ *   instrumentation: new OpenTelemetryInstrumentation(trace.getTracer('orders-service')),
+ * });
+ * ```
+ */
+export class OpenTelemetryInstrumentation implements TransactionInstrumentation {
+  /**
+   * Tracer the spans are recorded with.
+   * @private
+   */
+  private readonly tracer: OpenTelemetryTracer;
+
+  /**
+   * Creates a new OpenTelemetryInstrumentation instance.
+   *
+   * @param tracer - OpenTelemetry tracer
+   */
+  constructor(tracer: OpenTelemetryTracer) {
+    this.tracer = tracer;
+  }
+
+  /**
+   * Starts an OpenTelemetry span for an operation.
+   *
+   * @param name - Operation name
+   * @param attributes - Attributes known when the operation starts
+   * @returns A span ending the OpenTelemetry span
+   */
+  public startSpan(
+    name: TransactionSpanName,
+    attributes: TransactionSpanAttributes
+  ): TransactionSpan {
+    const isRepositoryCall = name === TransactionSpanName.RepositoryCall;
+    const span = this.tracer.startSpan(
+      isRepositoryCall ? `${attributes.repositoryToken}.${attributes.repositoryMethod}` : name,
+      {
+        kind: isRepositoryCall ? SPAN_KIND_INTERNAL : SPAN_KIND_CLIENT,
+        attributes: this.toAttributes(attributes),
+      }
+    );
+
+    return {
+      end: ({ durationMs, error, errorCode }) => {
+        const { durationMs: durationName, errorType } = OPENTELEMETRY_ATTRIBUTE_NAMES;
+        span.setAttributes({ [durationName]: durationMs });
+        if (error) {
+          span.setAttributes({ [errorType]: errorCode ?? error.name });
+          span.recordException(error);
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+        }
+        span.end();
+      },
+    };
+  }
+
+  /**
+   * Maps span attributes to OpenTelemetry attribute names, dropping unset ones.
+   * @private
+   */
+  private toAttributes(attributes: TransactionSpanAttributes): OpenTelemetryAttributes {
+    const mapped: OpenTelemetryAttributes = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      const name = OPENTELEMETRY_ATTRIBUTE_NAMES[key as keyof TransactionSpanAttributes];
+      if (name && value !== undefined) {
+        mapped[name] = value;
+      }
+    }
+    return mapped;
+  }
+}
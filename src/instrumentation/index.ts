@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Instrumentation Exports
+ * @description
+ * Exports the OpenTelemetry adapter for transaction instrumentation.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/instrumentation
+ * @version 1.0.0
+ */
+
+export { OpenTelemetryInstrumentation } from './OpenTelemetryInstrumentation';
+export {
+  OPENTELEMETRY_ATTRIBUTE_NAMES,
+  type OpenTelemetryAttributes,
+  type OpenTelemetrySpanOptions,
+  type OpenTelemetrySpan,
+  type OpenTelemetryTracer,
+} from './opentelemetry.types';
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview OpenTelemetry Type Definitions
+ * @description
+ * Structural subset of the `@opentelemetry/api` tracer and span used by
+ * OpenTelemetryInstrumentation, so that the package does not depend on it.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/instrumentation
+ * @version 1.0.0
+ */
+
+/**
+ * Attribute values accepted by OpenTelemetry spans.
+ */
+export type OpenTelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Span options passed to `Tracer.startSpan()`.
+ */
+export interface OpenTelemetrySpanOptions {
+  /** `SpanKind`: 0 for internal, 2 for client */
+  kind?: number;
+
+  /** Attributes set when the span starts */
+  attributes?: OpenTelemetryAttributes;
+}
+
+/**
+ * The methods of an OpenTelemetry `Span` used by the instrumentation.
+ */
+export interface OpenTelemetrySpan {
+  setAttributes(attributes: OpenTelemetryAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/**
+ * The methods of an OpenTelemetry `Tracer` used by the instrumentation,
+ * e.g. `trace.getTracer('orders-service')`.
+ */
+export interface OpenTelemetryTracer {
+  startSpan(name: string, options?: OpenTelemetrySpanOptions): OpenTelemetrySpan;
+}
+
+/**
+ * Names of the span attributes recorded by OpenTelemetryInstrumentation.
+ *
+ * @remarks
+ * - `errorType` follows the OpenTelemetry `error.type` convention and holds
+ *   the error code, or the error name for errors without a code
+ * - All other attributes are namespaced under `struktos.`
+ */
+export const OPENTELEMETRY_ATTRIBUTE_NAMES = {
+  unitOfWorkId: 'struktos.unit_of_work.id',
+  traceId: 'struktos.trace_id',
+  isolationLevel: 'struktos.transaction.isolation_level',
+  readOnly: 'struktos.transaction.read_only',
+  savepointName: 'struktos.transaction.savepoint',
+  repositoryToken: 'struktos.repository.token',
+  repositoryMethod: 'struktos.repository.method',
+  durationMs: 'struktos.duration_ms',
+  errorType: 'error.type',
+} as const;
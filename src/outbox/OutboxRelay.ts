@@ -0,0 +1,360 @@
+/**
+ * @fileoverview OutboxRelay Implementation
+ * @description
+ * Polls the outbox table, claims batches of pending messages and hands them
+ * to publishers, marking them processed once every publisher succeeded.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/outbox
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+
+import type { PrismaUnitOfWorkLogger } from '../types/prisma.types';
+import { OutboxModelNotFoundError } from '../errors/unit-of-work.errors';
+import {
+  DEFAULT_OUTBOX_MODEL,
+  type OutboxBatchResult,
+  type OutboxMessage,
+  type OutboxModelDelegate,
+  type OutboxPublisher,
+  type OutboxRelayOptions,
+} from './outbox.types';
+
+/**
+ * OutboxRelay - Relays outbox messages to publishers.
+ *
+ * The relay provides **at-least-once** delivery: a message is marked
+ * processed only after it has been published, so a crash between publishing
+ * and marking causes the message to be published again once its claim
+ * expires. Consumers must be idempotent (e.g. deduplicate on `message.id`).
+ *
+ * @remarks
+ * **Claiming:**
+ * Pending messages are claimed by setting `lockedBy`/`lockedUntil` with a
+ * conditional `updateMany`, so several relay instances can poll the same
+ * table without publishing a message twice while its claim is held.
+ *
+ * **Failures:**
+ * A failed publish increments `attempts`, records `lastError` and releases
+ * the claim. Messages reaching `maxAttempts` are no longer claimed and
+ * should be inspected manually.
+ *
+ * **Ordering:**
+ * Messages are claimed and published in `createdAt` order within a batch.
+ * A failed message does not block the messages after it.
+ *
+ * @example
+ * ```typescript
+ * const relay = new OutboxRelay(prisma, {
+ *   publishers: [kafkaPublisher],
+ *   batchSize: 50,
+ *   pollInterval: 500,
+ *   logger,
+ * });
+ *
+ * relay.start();
+ *
+ * process.on('SIGTERM', async () => {
+ *   await relay.stop();
+ *   await prisma.$disconnect();
+ * });
+ * ```
+ */
+export class OutboxRelay {
+  /**
+   * Identifier written to `lockedBy` when claiming messages.
+   */
+  public readonly relayId: string;
+
+  /**
+   * Prisma client used to access the outbox table.
+   * @private
+   */
+  private readonly prisma: PrismaClient;
+
+  /**
+   * Publishers receiving claimed messages.
+   * @private
+   */
+  private readonly publishers: OutboxPublisher[];
+
+  /**
+   * Relay settings with defaults applied.
+   * @private
+   */
+  private readonly config: Required<Omit<OutboxRelayOptions, 'publishers' | 'relayId' | 'logger'>> & {
+    logger?: PrismaUnitOfWorkLogger;
+  };
+
+  /**
+   * Whether the polling loop is running.
+   * @private
+   */
+  private running = false;
+
+  /**
+   * Timer of the next scheduled poll.
+   * @private
+   */
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Batch currently being processed by the polling loop.
+   * @private
+   */
+  private inFlight: Promise<unknown> | null = null;
+
+  /**
+   * Creates a new OutboxRelay.
+   *
+   * @param prisma - Prisma client instance
+   * @param options - Relay options
+   */
+  constructor(prisma: PrismaClient, options: OutboxRelayOptions) {
+    this.prisma = prisma;
+    this.publishers = [...options.publishers];
+    this.relayId = options.relayId ?? randomUUID();
+    this.config = {
+      model: options.model ?? DEFAULT_OUTBOX_MODEL,
+      batchSize: options.batchSize ?? 100,
+      pollInterval: options.pollInterval ?? 1000,
+      lockDuration: options.lockDuration ?? 30000,
+      maxAttempts: options.maxAttempts ?? 10,
+      logger: options.logger,
+    };
+  }
+
+  /**
+   * Whether the polling loop is running.
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Starts polling the outbox.
+   *
+   * Batches are processed back to back while they come back full, and
+   * `pollInterval` apart otherwise. Calling `start()` on a running relay
+   * has no effect.
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.log('info', 'Outbox relay started', { relayId: this.relayId });
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stops polling and waits for the batch in progress to finish.
+   *
+   * @returns Promise that resolves once the relay is idle
+   */
+  public async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    await this.inFlight;
+    this.log('info', 'Outbox relay stopped', { relayId: this.relayId });
+  }
+
+  /**
+   * Claims and publishes a single batch of pending messages.
+   *
+   * @returns Counts of claimed, published and failed messages
+   * @throws {OutboxModelNotFoundError} If the client has no outbox model
+   *
+   * @example
+   * ```typescript
+   * // Drain the outbox in a scheduled job instead of polling
+   * let result;
+   * do {
+   *   result = await relay.processBatch();
+   * } while (result.claimed > 0);
+   * ```
+   */
+  public async processBatch(): Promise<OutboxBatchResult> {
+    const messages = await this.claimBatch();
+    const result: OutboxBatchResult = { claimed: messages.length, published: 0, failed: 0 };
+
+    for (const message of messages) {
+      if (await this.relayMessage(message)) {
+        result.published++;
+      } else {
+        result.failed++;
+      }
+    }
+
+    if (result.claimed > 0) {
+      this.log('debug', 'Outbox batch processed', { relayId: this.relayId, ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Claims up to `batchSize` pending messages for this relay.
+   * @private
+   */
+  private async claimBatch(): Promise<OutboxMessage[]> {
+    const delegate = this.getDelegate();
+    const now = new Date();
+    const claimable = {
+      processedAt: null,
+      attempts: { lt: this.config.maxAttempts },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    };
+
+    const candidates = await delegate.findMany({
+      where: claimable,
+      orderBy: { createdAt: 'asc' },
+      take: this.config.batchSize,
+      select: { id: true },
+    });
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const ids = candidates.map((candidate) => candidate.id);
+    const lockedUntil = new Date(now.getTime() + this.config.lockDuration);
+
+    // Re-checking the claimable condition makes the claim atomic per row,
+    // so competing relays never hold the same message
+    await delegate.updateMany({
+      where: { ...claimable, id: { in: ids } },
+      data: { lockedBy: this.relayId, lockedUntil },
+    });
+
+    return delegate.findMany({
+      where: { id: { in: ids }, lockedBy: this.relayId, lockedUntil },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Publishes a claimed message and records the outcome.
+   * @private
+   */
+  private async relayMessage(message: OutboxMessage): Promise<boolean> {
+    const delegate = this.getDelegate();
+
+    try {
+      const publishers = this.publishers.filter(
+        (publisher) => !publisher.canPublish || publisher.canPublish(message)
+      );
+      if (publishers.length === 0) {
+        throw new Error(`No publisher accepts outbox message type '${message.type}'`);
+      }
+
+      for (const publisher of publishers) {
+        await publisher.publish(message);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      this.log('warn', 'Outbox message publish failed', {
+        relayId: this.relayId,
+        messageId: message.id,
+        type: message.type,
+        attempt: message.attempts + 1,
+        error: errorMessage,
+        traceId: message.headers?.traceId,
+      });
+
+      await delegate.update({
+        where: { id: message.id },
+        data: {
+          attempts: { increment: 1 },
+          lastError: errorMessage,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      });
+      return false;
+    }
+
+    await delegate.update({
+      where: { id: message.id },
+      data: { processedAt: new Date(), lockedBy: null, lockedUntil: null },
+    });
+    return true;
+  }
+
+  /**
+   * Schedules the next poll of the outbox.
+   * @private
+   */
+  private schedulePoll(delay: number): void {
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      void this.poll();
+    }, delay);
+  }
+
+  /**
+   * Processes one batch and schedules the next poll.
+   * @private
+   */
+  private async poll(): Promise<void> {
+    let batchWasFull = false;
+
+    const batch = this.processBatch().then(
+      (result) => {
+        batchWasFull = result.claimed >= this.config.batchSize;
+      },
+      (error: unknown) => {
+        this.log('error', 'Outbox relay batch failed', {
+          relayId: this.relayId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    );
+
+    this.inFlight = batch;
+    await batch;
+    this.inFlight = null;
+
+    if (this.running) {
+      this.schedulePoll(batchWasFull ? 0 : this.config.pollInterval);
+    }
+  }
+
+  /**
+   * Gets the outbox model delegate from the Prisma client.
+   * @private
+   */
+  private getDelegate(): OutboxModelDelegate {
+    const delegate = (this.prisma as unknown as Record<string, OutboxModelDelegate | undefined>)[
+      this.config.model
+    ];
+
+    if (!delegate) {
+      throw new OutboxModelNotFoundError(this.config.model);
+    }
+
+    return delegate;
+  }
+
+  /**
+   * Logs a message if a logger is configured.
+   * @private
+   */
+  private log(
+    level: 'debug' | 'info' | 'warn' | 'error',
+    message: string,
+    meta?: Record<string, unknown>
+  ): void {
+    this.config.logger?.[level](message, meta);
+  }
+}
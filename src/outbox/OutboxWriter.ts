@@ -0,0 +1,153 @@
+/**
+ * @fileoverview OutboxWriter Implementation
+ * @description
+ * Writes integration messages to the outbox table through the transaction
+ * client of a Unit of Work, so they are committed atomically with the
+ * business data.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/outbox
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+
+import type { PrismaTransactionClient } from '../types/prisma.types';
+import { OutboxModelNotFoundError } from '../errors/unit-of-work.errors';
+import {
+  DEFAULT_OUTBOX_MODEL,
+  type OutboxMessage,
+  type OutboxMessageInput,
+  type OutboxModelDelegate,
+} from './outbox.types';
+
+/**
+ * Options for OutboxWriter.
+ */
+export interface OutboxWriterOptions {
+  /**
+   * Name of the model delegate on the transaction client.
+   *
+   * @defaultValue 'outboxMessage'
+   */
+  model?: string;
+
+  /**
+   * Headers added to every message (e.g. the `traceId` of the request context).
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Unit of Work ID, used in errors.
+   */
+  unitOfWorkId?: string;
+}
+
+/**
+ * OutboxWriter - Writes messages to the transactional outbox.
+ *
+ * Messages are inserted with the transaction client, so they become visible
+ * to the OutboxRelay only if the surrounding transaction commits.
+ *
+ * @remarks
+ * Obtain a writer from an active Unit of Work with `getOutbox()`, which
+ * fills in the `traceId` header from the request context.
+ *
+ * @example
+ * ```typescript
+ * await uow.executeInTransaction(async (unitOfWork) => {
+ *   const order = await unitOfWork.getRepository<IOrderRepository>('OrderRepository').create(data);
+ *
+ *   await unitOfWork.getOutbox().add({
+ *     aggregateType: 'Order',
+ *     aggregateId: order.id,
+ *     type: 'OrderPlaced',
+ *     payload: { orderId: order.id, total: order.total },
+ *   });
+ * });
+ * ```
+ */
+export class OutboxWriter {
+  /**
+   * Outbox model delegate on the transaction client.
+   * @private
+   */
+  private readonly delegate: OutboxModelDelegate;
+
+  /**
+   * Headers added to every message.
+   * @private
+   */
+  private readonly headers: Record<string, string>;
+
+  /**
+   * Creates a new OutboxWriter.
+   *
+   * @param client - Transaction client of the active Unit of Work
+   * @param options - Writer options
+   * @throws {OutboxModelNotFoundError} If the client has no outbox model
+   */
+  constructor(client: PrismaTransactionClient, options?: OutboxWriterOptions) {
+    const model = options?.model ?? DEFAULT_OUTBOX_MODEL;
+    const delegate = (client as unknown as Record<string, OutboxModelDelegate | undefined>)[model];
+
+    if (!delegate) {
+      throw new OutboxModelNotFoundError(model, options?.unitOfWorkId, options?.headers?.traceId);
+    }
+
+    this.delegate = delegate;
+    this.headers = options?.headers ?? {};
+  }
+
+  /**
+   * Writes a message to the outbox.
+   *
+   * @template TPayload - Payload type
+   * @param message - The message to write
+   * @returns The stored outbox record
+   */
+  public async add<TPayload>(
+    message: OutboxMessageInput<TPayload>
+  ): Promise<OutboxMessage<TPayload>> {
+    const record = await this.delegate.create({ data: this.toRecord(message) });
+    return record as OutboxMessage<TPayload>;
+  }
+
+  /**
+   * Writes several messages to the outbox in a single statement.
+   *
+   * @param messages - The messages to write
+   * @returns Number of messages written
+   */
+  public async addMany(messages: OutboxMessageInput[]): Promise<number> {
+    if (messages.length === 0) {
+      return 0;
+    }
+
+    const result = await this.delegate.createMany({
+      data: messages.map((message) => this.toRecord(message)),
+    });
+    return result.count;
+  }
+
+  /**
+   * Maps a message input to the outbox record data.
+   * @private
+   */
+  private toRecord(message: OutboxMessageInput): Record<string, unknown> {
+    return {
+      id: message.id ?? randomUUID(),
+      aggregateType: message.aggregateType,
+      aggregateId: message.aggregateId,
+      type: message.type,
+      payload: message.payload,
+      headers: { ...this.headers, ...message.headers },
+      createdAt: new Date(),
+      processedAt: null,
+      lockedBy: null,
+      lockedUntil: null,
+      attempts: 0,
+      lastError: null,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * @fileoverview Outbox Exports
+ * @description
+ * Exports the transactional outbox writer, relay and related types.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/outbox
+ * @version 1.0.0
+ */
+
+export { OutboxWriter, type OutboxWriterOptions } from './OutboxWriter';
+export { OutboxRelay } from './OutboxRelay';
+export {
+  DEFAULT_OUTBOX_MODEL,
+  type OutboxMessage,
+  type OutboxMessageInput,
+  type OutboxConfig,
+  type OutboxPublisher,
+  type OutboxRelayOptions,
+  type OutboxBatchResult,
+} from './outbox.types';
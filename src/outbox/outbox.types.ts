@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Transactional Outbox Type Definitions
+ * @description
+ * Contracts for the transactional outbox: the outbox table record,
+ * message input, publishers and relay options.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/outbox
+ * @version 1.0.0
+ */
+
+import type { PrismaUnitOfWorkLogger } from '../types/prisma.types';
+
+/**
+ * Default name of the Prisma model backing the outbox table.
+ */
+export const DEFAULT_OUTBOX_MODEL = 'outboxMessage';
+
+/**
+ * Outbox record as stored in the outbox table.
+ *
+ * @remarks
+ * The Prisma model must expose these fields. A matching PostgreSQL schema:
+ *
+ * ```prisma
+ * model OutboxMessage {
+ *   id            String    @id
+ *   aggregateType String
+ *   aggregateId   String
+ *   type          String
+ *   payload       Json
+ *   headers       Json
+ *   createdAt     DateTime  @default(now())
+ *   processedAt   DateTime?
+ *   lockedBy      String?
+ *   lockedUntil   DateTime?
+ *   attempts      Int       @default(0)
+ *   lastError     String?
+ *
+ *   @@index([processedAt, createdAt])
+ * }
+ * ```
+ */
+export interface OutboxMessage<TPayload = unknown> {
+  /** Unique message identifier */
+  id: string;
+
+  /** Type of the aggregate that produced the message (e.g. `Order`) */
+  aggregateType: string;
+
+  /** Identifier of the aggregate that produced the message */
+  aggregateId: string;
+
+  /** Message type (e.g. `OrderPlaced`) */
+  type: string;
+
+  /** JSON payload */
+  payload: TPayload;
+
+  /** Message headers, including `traceId` when a context is set */
+  headers: Record<string, string>;
+
+  /** When the message was written */
+  createdAt: Date;
+
+  /** When the message was published, or null while pending */
+  processedAt: Date | null;
+
+  /** Identifier of the relay holding the claim */
+  lockedBy: string | null;
+
+  /** When the current claim expires */
+  lockedUntil: Date | null;
+
+  /** Number of failed publish attempts */
+  attempts: number;
+
+  /** Error message of the last failed publish attempt */
+  lastError: string | null;
+}
+
+/**
+ * Message to write to the outbox.
+ */
+export interface OutboxMessageInput<TPayload = unknown> {
+  /** Optional message identifier; a UUID is generated when omitted */
+  id?: string;
+
+  /** Type of the aggregate that produced the message */
+  aggregateType: string;
+
+  /** Identifier of the aggregate that produced the message */
+  aggregateId: string;
+
+  /** Message type */
+  type: string;
+
+  /** JSON-serializable payload */
+  payload: TPayload;
+
+  /** Additional headers, merged over the context headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Outbox settings for PrismaUnitOfWork.
+ */
+export interface OutboxConfig {
+  /**
+   * Name of the model delegate on the Prisma client.
+   *
+   * @defaultValue 'outboxMessage'
+   */
+  model?: string;
+}
+
+/**
+ * Publishes relayed outbox messages to a broker.
+ *
+ * @example
+ * ```typescript
+ * const kafkaPublisher: OutboxPublisher = {
+ *   name: 'kafka',
+ *   canPublish: (message) => message.aggregateType === 'Order',
+ *   publish: async (message) => {
+ *     await producer.send({
+ *       topic: 'orders',
+ *       messages: [{ key: message.aggregateId, value: JSON.stringify(message.payload) }],
+ *     });
+ *   },
+ * };
+ * ```
+ */
+export interface OutboxPublisher {
+  /** Publisher name used in logs */
+  readonly name?: string;
+
+  /**
+   * Whether this publisher handles the message.
+   * Publishers without this method receive every message.
+   */
+  canPublish?(message: OutboxMessage): boolean;
+
+  /**
+   * Publishes a message. Throwing marks the attempt as failed
+   * and the message is retried on a later batch.
+   */
+  publish(message: OutboxMessage): Promise<void>;
+}
+
+/**
+ * Options for OutboxRelay.
+ */
+export interface OutboxRelayOptions {
+  /** Publishers that receive claimed messages */
+  publishers: OutboxPublisher[];
+
+  /**
+   * Name of the model delegate on the Prisma client.
+   *
+   * @defaultValue 'outboxMessage'
+   */
+  model?: string;
+
+  /**
+   * Identifier written to `lockedBy` when claiming messages.
+   *
+   * @defaultValue A random UUID
+   */
+  relayId?: string;
+
+  /**
+   * Maximum number of messages claimed per batch.
+   *
+   * @defaultValue 100
+   */
+  batchSize?: number;
+
+  /**
+   * Delay between polls when the previous batch was not full, in milliseconds.
+   *
+   * @defaultValue 1000
+   */
+  pollInterval?: number;
+
+  /**
+   * How long a claim is held before other relays may take over, in milliseconds.
+   *
+   * @defaultValue 30000
+   */
+  lockDuration?: number;
+
+  /**
+   * Failed attempts after which a message is no longer claimed.
+   *
+   * @defaultValue 10
+   */
+  maxAttempts?: number;
+
+  /** Logger for relay events */
+  logger?: PrismaUnitOfWorkLogger;
+}
+
+/**
+ * Outcome of a single relay batch.
+ */
+export interface OutboxBatchResult {
+  /** Number of messages claimed */
+  claimed: number;
+
+  /** Number of messages published and marked processed */
+  published: number;
+
+  /** Number of messages whose publish attempt failed */
+  failed: number;
+}
+
+/**
+ * Subset of a Prisma model delegate used by the outbox.
+ * @internal
+ */
+export interface OutboxModelDelegate {
+  create(args: { data: Record<string, unknown> }): Promise<OutboxMessage>;
+  createMany(args: { data: Record<string, unknown>[] }): Promise<{ count: number }>;
+  findMany(args: Record<string, unknown>): Promise<OutboxMessage[]>;
+  update(args: { where: { id: string }; data: Record<string, unknown> }): Promise<OutboxMessage>;
+  updateMany(args: {
+    where: Record<string, unknown>;
+    data: Record<string, unknown>;
+  }): Promise<{ count: number }>;
+}
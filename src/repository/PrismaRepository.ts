@@ -9,7 +9,27 @@
  * @version 1.0.0
  */
 
-import type { PrismaTransactionClient } from '../types/prisma.types';
+import type {
+  PrismaTransactionClient,
+  UnitOfWorkScope,
+  AggregateWithDomainEvents,
+} from '../types/prisma.types';
+import {
+  PrismaUnitOfWorkError,
+  ChangeTrackingError,
+  OptimisticConcurrencyError,
+  NoActiveTransactionError,
+  LockNotAvailableError,
+  UnsupportedOperationError,
+  TransactionRequiredError,
+  ErrorCodes,
+} from '../errors/unit-of-work.errors';
+import type { SqlDialect } from '../dialects/SqlDialect';
+import { resolveDialect } from '../dialects/resolve-dialect';
+import { RowLockMode, RowLockWait, type RowLockOptions, sortLockIds } from './row-locking';
+import { getAmbientTransaction } from '../unit-of-work/ambient-transaction';
+import { createReadOnlyClient } from '../unit-of-work/read-only-client';
+import { queryStatement } from '../unit-of-work/raw-statements';
 
 /**
  * Generic repository interface for basic CRUD operations.
@@ -70,6 +90,60 @@ export interface IRepository<TEntity, TId = string> {
   count(): Promise<number>;
 }
 
+/**
+ * How the version field of an optimistically locked entity advances.
+ *
+ * - `increment`: integer column incremented by one on every write
+ * - `timestamp`: date column set to the current time on every write
+ */
+export type VersionStrategy = 'increment' | 'timestamp';
+
+/**
+ * A versioned write that matched no row because the stored version differs.
+ *
+ * @template TEntity - The entity type
+ * @template TId - The entity ID type
+ */
+export interface ConcurrencyConflict<TEntity, TId = string> {
+  /** The conflicting operation */
+  operation: 'update' | 'delete';
+
+  /** Identifier of the conflicting entity */
+  id: TId;
+
+  /** Version the write expected to find */
+  expectedVersion: unknown;
+
+  /** Version currently stored in the database */
+  actualVersion: unknown;
+
+  /** Entity as currently stored in the database */
+  current: TEntity;
+
+  /** Data of the rejected update */
+  data?: Partial<TEntity>;
+
+  /** Number of conflicts for this call so far, starting at 1 */
+  attempt: number;
+
+  /** Error thrown if the conflict is not resolved */
+  error: OptimisticConcurrencyError;
+}
+
+/**
+ * Outcome of a conflict-resolution hook.
+ *
+ * - `fail`: throw the OptimisticConcurrencyError
+ * - `retry`: repeat the write against the current version, optionally with merged data
+ * - `skip`: keep the stored entity and return without writing
+ *
+ * @template TEntity - The entity type
+ */
+export type ConflictResolution<TEntity> =
+  | { action: 'fail' }
+  | { action: 'retry'; data?: Partial<TEntity> }
+  | { action: 'skip' };
+
 /**
  * PrismaRepository - Abstract base class for Prisma-based repositories.
  *
@@ -84,6 +158,8 @@ export interface IRepository<TEntity, TId = string> {
  * @remarks
  * **Key Features:**
  * - Works with both standalone Prisma client and transaction client
+ * - Joins the ambient transaction of `executeInTransaction()` when created
+ *   from the root client
  * - Type-safe access to the Prisma model delegate
  * - Ready for Unit of Work integration
  *
@@ -154,15 +230,53 @@ export interface IRepository<TEntity, TId = string> {
  *
  * const user = await userRepo.findById('user-123');
  * ```
+ *
+ * @example Ambient Transaction
+ * ```typescript
+ * // Created once, e.g. by a DI container
+ * const userRepo = new PrismaUserRepository(prisma);
+ *
+ * await uow.executeInTransaction(async () => {
+ *   // Runs in the transaction of uow
+ *   await userRepo.create({ name: 'John', email: 'john@example.com' });
+ * });
+ * ```
  */
 export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
   implements IRepository<TEntity, TId>
 {
   /**
-   * The Prisma client or transaction client.
-   * @protected
+   * Rejects writes of repositories created from the root client when no
+   * ambient transaction is running. Set on `PrismaRepository` for every
+   * repository, or on a subclass for its repositories only.
+   *
+   * @defaultValue false
+   */
+  public static strictTransactions = false;
+
+  /**
+   * The client passed to the constructor.
+   * @private
+   */
+  private readonly baseClient: PrismaTransactionClient;
+
+  /**
+   * The Unit of Work passed to the constructor, if any.
+   * @private
    */
-  protected readonly client: PrismaTransactionClient;
+  private readonly baseUnitOfWork?: UnitOfWorkScope;
+
+  /**
+   * Whether the base client is the root client and joins ambient transactions.
+   * @private
+   */
+  private readonly joinsAmbientTransaction: boolean;
+
+  /**
+   * Base client rejecting writes, used in strict mode outside transactions.
+   * @private
+   */
+  private strictClient: PrismaTransactionClient | null = null;
 
   /**
    * Cached model delegate for performance.
@@ -170,10 +284,18 @@ export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
    */
   private _model: TModel | null = null;
 
+  /**
+   * Client the cached model delegate was obtained from.
+   * @private
+   */
+  private _modelClient: PrismaTransactionClient | null = null;
+
   /**
    * Creates a new PrismaRepository instance.
    *
    * @param client - Prisma client or transaction client
+   * @param unitOfWork - Unit of Work that created the repository, used to
+   * track aggregates and register changes
    *
    * @example
    * ```typescript
@@ -181,17 +303,63 @@ export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
    * const repo = new PrismaUserRepository(prismaClient);
    *
    * // With transaction client (from Unit of Work)
-   * const repo = new PrismaUserRepository(txClient);
+   * uow.registerRepository('UserRepository', (tx, unitOfWork) => new PrismaUserRepository(tx, unitOfWork));
    * ```
    */
-  constructor(client: PrismaTransactionClient) {
-    this.client = client;
+  constructor(client: PrismaTransactionClient, unitOfWork?: UnitOfWorkScope) {
+    this.baseClient = client;
+    this.baseUnitOfWork = unitOfWork;
+    this.joinsAmbientTransaction =
+      typeof (client as unknown as { $transaction?: unknown }).$transaction === 'function';
+  }
+
+  /**
+   * The client to run queries with.
+   *
+   * @remarks
+   * Repositories created from the root client use the ambient transaction
+   * of a running `executeInTransaction()` callback and fall back to the
+   * root client outside of it. Repositories created from a transaction
+   * client always use that client.
+   *
+   * @protected
+   */
+  protected get client(): PrismaTransactionClient {
+    if (!this.joinsAmbientTransaction) {
+      return this.baseClient;
+    }
+
+    const ambient = getAmbientTransaction(this.baseClient);
+    if (ambient) {
+      return ambient.client;
+    }
+
+    if (!(this.constructor as typeof PrismaRepository).strictTransactions) {
+      return this.baseClient;
+    }
+
+    this.strictClient ??= createReadOnlyClient(this.baseClient, (operation, model) => {
+      throw new TransactionRequiredError(operation, model);
+    });
+    return this.strictClient;
+  }
+
+  /**
+   * The Unit of Work that created this repository, or the one running the
+   * ambient transaction the repository joined.
+   * @protected
+   */
+  protected get unitOfWork(): UnitOfWorkScope | undefined {
+    if (this.baseUnitOfWork || !this.joinsAmbientTransaction) {
+      return this.baseUnitOfWork;
+    }
+    return getAmbientTransaction(this.baseClient)?.unitOfWork;
   }
 
   /**
    * Gets the Prisma model delegate for this repository.
    *
-   * @returns The model delegate (cached for performance)
+   * @returns The model delegate (cached per client for performance)
    *
    * @example
    * ```typescript
@@ -200,8 +368,10 @@ export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
    * ```
    */
   protected get model(): TModel {
-    if (!this._model) {
+    const client = this.client;
+    if (!this._model || this._modelClient !== client) {
       this._model = this.getModelDelegate();
+      this._modelClient = client;
     }
     return this._model;
   }
@@ -223,6 +393,248 @@ export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
    */
   protected abstract getModelDelegate(): TModel;
 
+  /**
+   * Registers an aggregate touched by this repository with the Unit of Work,
+   * so its domain events are dispatched once the transaction commits.
+   *
+   * Does nothing for repositories used outside a Unit of Work.
+   *
+   * @param aggregate - The aggregate that was loaded or persisted
+   *
+   * @example
+   * ```typescript
+   * async save(order: Order): Promise<void> {
+   *   await this.model.update({ where: { id: order.id }, data: toRow(order) });
+   *   this.trackAggregate(order);
+   * }
+   * ```
+   */
+  protected trackAggregate(aggregate: AggregateWithDomainEvents): void {
+    this.unitOfWork?.trackAggregate(aggregate);
+  }
+
+  /**
+   * Returns the model delegate name used for change tracking.
+   *
+   * Override to enable the identity map and the `register*` helpers.
+   * The name must match the delegate property on the client (e.g. `user`).
+   *
+   * @returns The model delegate name, or undefined to opt out
+   *
+   * @example
+   * ```typescript
+   * protected getModelName() {
+   *   return 'user';
+   * }
+   * ```
+   */
+  protected getModelName(): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Whether this repository participates in change tracking.
+   *
+   * @returns True if the Unit of Work tracks changes and a model name is set
+   */
+  protected get isChangeTracked(): boolean {
+    return !!this.unitOfWork?.isChangeTrackingEnabled && this.getModelName() !== undefined;
+  }
+
+  /**
+   * Passes a loaded entity through the identity map.
+   *
+   * @param entity - Entity loaded from the database
+   * @returns The tracked instance for the same id, or `entity` when not change tracked
+   */
+  protected trackEntity<T extends object>(entity: T): T {
+    if (!this.isChangeTracked) {
+      return entity;
+    }
+    return this.unitOfWork!.registerClean(this.getModelName()!, entity);
+  }
+
+  /**
+   * Looks up an entity in the identity map.
+   *
+   * @param id - Entity identifier
+   * @returns The tracked instance, or undefined
+   */
+  protected findTrackedEntity(id: TId): TEntity | undefined {
+    if (!this.isChangeTracked) {
+      return undefined;
+    }
+    return this.unitOfWork!.getTrackedEntity(this.getModelName()!, id) as TEntity | undefined;
+  }
+
+  /**
+   * Registers a new entity, inserted when the Unit of Work flushes.
+   *
+   * @param entity - New entity, including its identifier
+   * @throws {ChangeTrackingError} If the repository is not change tracked
+   */
+  protected registerNew(entity: TEntity): void {
+    this.ensureChangeTracked('registerNew');
+    this.unitOfWork!.registerNew(this.getModelName()!, entity as object);
+  }
+
+  /**
+   * Registers a modified entity, updated when the Unit of Work flushes.
+   *
+   * @param entity - The tracked entity that was modified
+   * @throws {ChangeTrackingError} If the repository is not change tracked
+   */
+  protected registerDirty(entity: TEntity): void {
+    this.ensureChangeTracked('registerDirty');
+    this.unitOfWork!.registerDirty(this.getModelName()!, entity as object);
+  }
+
+  /**
+   * Registers an entity deleted when the Unit of Work flushes.
+   *
+   * @param entity - Entity to delete
+   * @throws {ChangeTrackingError} If the repository is not change tracked
+   */
+  protected registerDeleted(entity: TEntity): void {
+    this.ensureChangeTracked('registerDeleted');
+    this.unitOfWork!.registerDeleted(this.getModelName()!, entity as object);
+  }
+
+  /**
+   * Returns the database table of this repository, used by raw SQL such as locking reads.
+   *
+   * Defaults to the model name with its first letter upper-cased, which is
+   * Prisma's table name for models without `@@map`. Override for mapped or
+   * schema-qualified tables.
+   *
+   * @returns The table name
+   * @throws {PrismaUnitOfWorkError} If neither a table nor a model name is set
+   *
+   * @example
+   * ```typescript
+   * protected getTableName() {
+   *   return 'billing.accounts';
+   * }
+   * ```
+   */
+  protected getTableName(): string {
+    const modelName = this.getModelName();
+    if (!modelName) {
+      throw new PrismaUnitOfWorkError(
+        `${this.constructor.name} must override getTableName() or getModelName() to run raw SQL`,
+        ErrorCodes.TABLE_NAME_REQUIRED
+      );
+    }
+    return modelName.charAt(0).toUpperCase() + modelName.slice(1);
+  }
+
+  /**
+   * Returns the primary key column of the table.
+   *
+   * @returns The column name
+   * @defaultValue 'id'
+   */
+  protected getIdColumn(): string {
+    return 'id';
+  }
+
+  /**
+   * Returns the SQL dialect used to generate raw SQL.
+   *
+   * Uses the dialect of the Unit of Work that created the repository, or
+   * the one matching the provider reported by the client.
+   *
+   * @returns The SQL dialect
+   */
+  protected getDialect(): SqlDialect {
+    return this.unitOfWork?.dialect ?? resolveDialect(this.client);
+  }
+
+  /**
+   * Locks rows by id with a locking read on the transaction client.
+   *
+   * Ids are de-duplicated and locked in ascending order, so transactions
+   * locking overlapping sets of rows cannot deadlock on each other.
+   *
+   * @param ids - Ids of the rows to lock
+   * @param mode - Lock strength
+   * @param options - Locking options
+   * @returns Ids of the locked rows, in ascending order; rows that do not
+   * exist (or were skipped with `SKIP_LOCKED`) are omitted
+   * @throws {NoActiveTransactionError} If called outside an active transaction
+   * @throws {LockNotAvailableError} If a row is locked and `wait` is `NOWAIT`
+   * @throws {UnsupportedOperationError} If the provider has no row-level locks
+   */
+  protected async lockRows(
+    ids: readonly TId[],
+    mode: RowLockMode,
+    options?: RowLockOptions
+  ): Promise<TId[]> {
+    const operation =
+      mode === RowLockMode.ForUpdate ? 'lock rows for update' : 'lock rows for share';
+    this.ensureActiveTransaction(operation);
+
+    const sorted = sortLockIds(ids);
+    if (sorted.length === 0) {
+      return [];
+    }
+
+    const dialect = this.getDialect();
+    const table = this.getTableName();
+    const idColumn = this.getIdColumn();
+    const statement = dialect.lockRows(
+      table,
+      idColumn,
+      sorted,
+      mode,
+      options?.wait ?? RowLockWait.Wait
+    );
+    if (!statement) {
+      throw new UnsupportedOperationError(operation, dialect.provider);
+    }
+
+    try {
+      const rows = await queryStatement<Record<string, TId>>(this.client, statement);
+      return rows.map((row) => row[idColumn]);
+    } catch (error) {
+      if (dialect.isLockNotAvailableError(error)) {
+        throw new LockNotAvailableError(table, error as Error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ensures the repository runs inside an active transaction.
+   *
+   * Repositories created by a Unit of Work check its state; standalone
+   * repositories are rejected when given the root client, which is the only
+   * client exposing `$transaction`.
+   * @private
+   */
+  private ensureActiveTransaction(operation: string): void {
+    const isRootClient =
+      typeof (this.client as unknown as { $transaction?: unknown }).$transaction === 'function';
+
+    if (this.unitOfWork ? (this.unitOfWork.state as string) !== 'ACTIVE' : isRootClient) {
+      throw new NoActiveTransactionError(operation);
+    }
+  }
+
+  /**
+   * Ensures the repository participates in change tracking.
+   * @private
+   */
+  private ensureChangeTracked(operation: string): void {
+    if (!this.isChangeTracked) {
+      throw new ChangeTrackingError(
+        `Cannot call '${operation}': the repository needs a change-tracking Unit of Work ` +
+          `and a model name from getModelName()`,
+        this.getModelName()
+      );
+    }
+  }
+
   /**
    * Finds an entity by its ID.
    *
@@ -290,6 +702,12 @@ export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
  * This class assumes the Prisma model has standard methods:
  * - findUnique, findMany, create, update, delete, count
  *
+ * **Optimistic Locking:**
+ * Override `getVersionField()` to include the entity version in the
+ * `where` clause of updates and deletes. The version advances on every
+ * write; a write against a stale version raises `OptimisticConcurrencyError`
+ * unless `resolveConflict()` decides otherwise.
+ *
  * @example
  * ```typescript
  * interface User {
@@ -314,6 +732,30 @@ export abstract class PrismaRepository<TEntity, TId = string, TModel = unknown>
  *   }
  * }
  * ```
+ *
+ * @example Optimistic Locking
+ * ```typescript
+ * class PrismaDocumentRepository extends PrismaCrudRepository<Document, string> {
+ *   protected getModelDelegate() {
+ *     return this.client.document;
+ *   }
+ *
+ *   protected getVersionField() {
+ *     return 'version' as const;
+ *   }
+ *
+ *   // Merge non-overlapping edits instead of failing
+ *   protected async resolveConflict(conflict: ConcurrencyConflict<Document>) {
+ *     if (conflict.operation === 'update' && !touchesBody(conflict.data)) {
+ *       return { action: 'retry' as const };
+ *     }
+ *     return { action: 'fail' as const };
+ *   }
+ * }
+ *
+ * // The expected version is read from the data (or passed explicitly)
+ * await documentRepo.update(doc.id, { title: 'New title', version: doc.version });
+ * ```
  */
 export abstract class PrismaCrudRepository<
   TEntity extends { id: TId },
@@ -326,7 +768,13 @@ export abstract class PrismaCrudRepository<
    * @returns The entity or null if not found
    */
   public async findById(id: TId): Promise<TEntity | null> {
-    return this.model.findUnique({ where: { id } as any });
+    const tracked = this.findTrackedEntity(id);
+    if (tracked) {
+      return tracked;
+    }
+
+    const entity = await this.model.findUnique({ where: { id } as any });
+    return entity && this.trackEntity(entity);
   }
 
   /**
@@ -335,7 +783,8 @@ export abstract class PrismaCrudRepository<
    * @returns Array of all entities
    */
   public async findAll(): Promise<TEntity[]> {
-    return this.model.findMany();
+    const entities = await this.model.findMany();
+    return entities.map((entity) => this.trackEntity(entity));
   }
 
   /**
@@ -353,9 +802,22 @@ export abstract class PrismaCrudRepository<
    *
    * @param id - The entity ID
    * @param data - Partial entity data to update
+   * @param expectedVersion - Expected version when optimistic locking is enabled;
+   * defaults to the version field of `data`
    * @returns The updated entity or null
+   * @throws {OptimisticConcurrencyError} If the stored version differs and the conflict is not resolved
    */
-  public async update(id: TId, data: Partial<TEntity>): Promise<TEntity | null> {
+  public async update(
+    id: TId,
+    data: Partial<TEntity>,
+    expectedVersion?: unknown
+  ): Promise<TEntity | null> {
+    const versionField = this.getVersionField();
+    if (versionField) {
+      const expected = expectedVersion ?? data[versionField];
+      return this.updateVersioned(id, data, this.requireVersion(id, expected), versionField, 1);
+    }
+
     try {
       return await this.model.update({
         where: { id } as any,
@@ -374,9 +836,16 @@ export abstract class PrismaCrudRepository<
    * Deletes an entity by ID.
    *
    * @param id - The entity ID
+   * @param expectedVersion - Expected version when optimistic locking is enabled
    * @returns True if deleted
+   * @throws {OptimisticConcurrencyError} If the stored version differs and the conflict is not resolved
    */
-  public async delete(id: TId): Promise<boolean> {
+  public async delete(id: TId, expectedVersion?: unknown): Promise<boolean> {
+    const versionField = this.getVersionField();
+    if (versionField) {
+      return this.deleteVersioned(id, this.requireVersion(id, expectedVersion), versionField, 1);
+    }
+
     try {
       await this.model.delete({ where: { id } as any });
       return true;
@@ -397,6 +866,299 @@ export abstract class PrismaCrudRepository<
   public async count(): Promise<number> {
     return this.model.count();
   }
+
+  /**
+   * Finds an entity by its ID and locks its row for update.
+   *
+   * Other transactions cannot update, delete or lock the row until this
+   * transaction ends.
+   *
+   * @param id - The entity ID
+   * @param options - Locking options
+   * @returns The entity, or null if not found (or skipped with `SKIP_LOCKED`)
+   * @throws {NoActiveTransactionError} If called outside an active transaction
+   * @throws {LockNotAvailableError} If the row is locked and `wait` is `NOWAIT`
+   *
+   * @example
+   * ```typescript
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   const accounts = unitOfWork.getRepository<AccountRepository>('AccountRepository');
+   *   const account = await accounts.findByIdForUpdate(accountId);
+   *   await accounts.update(accountId, { balance: account!.balance - amount });
+   * });
+   * ```
+   */
+  public async findByIdForUpdate(id: TId, options?: RowLockOptions): Promise<TEntity | null> {
+    const [entity] = await this.findLocked([id], RowLockMode.ForUpdate, options);
+    return entity ?? null;
+  }
+
+  /**
+   * Finds entities by ID and locks their rows for update.
+   *
+   * Rows are locked in ascending id order regardless of the order of `ids`.
+   *
+   * @param ids - The entity IDs
+   * @param options - Locking options
+   * @returns The locked entities in ascending id order
+   * @throws {NoActiveTransactionError} If called outside an active transaction
+   * @throws {LockNotAvailableError} If a row is locked and `wait` is `NOWAIT`
+   *
+   * @example
+   * ```typescript
+   * // Job queue: take up to 10 jobs no other worker is holding
+   * const jobs = await jobRepo.findManyForUpdate(candidateIds, { wait: RowLockWait.SkipLocked });
+   * ```
+   */
+  public async findManyForUpdate(
+    ids: readonly TId[],
+    options?: RowLockOptions
+  ): Promise<TEntity[]> {
+    return this.findLocked(ids, RowLockMode.ForUpdate, options);
+  }
+
+  /**
+   * Finds an entity by its ID and locks its row in share mode.
+   *
+   * Other transactions can still read and share-lock the row, but cannot
+   * update or delete it until this transaction ends.
+   *
+   * @param id - The entity ID
+   * @param options - Locking options
+   * @returns The entity, or null if not found (or skipped with `SKIP_LOCKED`)
+   * @throws {NoActiveTransactionError} If called outside an active transaction
+   * @throws {LockNotAvailableError} If the row is locked and `wait` is `NOWAIT`
+   */
+  public async findByIdForShare(id: TId, options?: RowLockOptions): Promise<TEntity | null> {
+    const [entity] = await this.findLocked([id], RowLockMode.ForShare, options);
+    return entity ?? null;
+  }
+
+  /**
+   * Finds entities by ID and locks their rows in share mode.
+   *
+   * @param ids - The entity IDs
+   * @param options - Locking options
+   * @returns The locked entities in ascending id order
+   * @throws {NoActiveTransactionError} If called outside an active transaction
+   * @throws {LockNotAvailableError} If a row is locked and `wait` is `NOWAIT`
+   */
+  public async findManyForShare(
+    ids: readonly TId[],
+    options?: RowLockOptions
+  ): Promise<TEntity[]> {
+    return this.findLocked(ids, RowLockMode.ForShare, options);
+  }
+
+  /**
+   * Returns the version field used for optimistic locking.
+   *
+   * Override to enable optimistic locking for this repository.
+   *
+   * @returns The version field, or undefined to disable optimistic locking
+   *
+   * @example
+   * ```typescript
+   * protected getVersionField() {
+   *   return 'version' as const;
+   * }
+   * ```
+   */
+  protected getVersionField(): (keyof TEntity & string) | undefined {
+    return undefined;
+  }
+
+  /**
+   * Returns how the version field advances on every write.
+   *
+   * @returns The version strategy
+   * @defaultValue 'increment'
+   */
+  protected getVersionStrategy(): VersionStrategy {
+    return 'increment';
+  }
+
+  /**
+   * Returns how many times a single call may retry after conflicts.
+   *
+   * @returns Maximum number of retries requested by `resolveConflict()`
+   * @defaultValue 3
+   */
+  protected getMaxConflictRetries(): number {
+    return 3;
+  }
+
+  /**
+   * Decides how to handle a versioned write against a stale version.
+   *
+   * The default implementation fails. Override to merge, retry or skip.
+   *
+   * @param conflict - Details of the conflicting write
+   * @returns The resolution to apply
+   */
+  protected async resolveConflict(
+    _conflict: ConcurrencyConflict<TEntity, TId>
+  ): Promise<ConflictResolution<TEntity>> {
+    return { action: 'fail' };
+  }
+
+  /**
+   * Locks rows and loads the locked entities.
+   *
+   * Entities already in the identity map are returned as tracked.
+   * @private
+   */
+  private async findLocked(
+    ids: readonly TId[],
+    mode: RowLockMode,
+    options?: RowLockOptions
+  ): Promise<TEntity[]> {
+    const locked = await this.lockRows(ids, mode, options);
+    if (locked.length === 0) {
+      return [];
+    }
+
+    const entities = await this.model.findMany({
+      where: { id: { in: locked } },
+      orderBy: { id: 'asc' },
+    });
+    return entities.map((entity) => this.trackEntity(entity));
+  }
+
+  /**
+   * Updates an entity if its stored version matches.
+   * @private
+   */
+  private async updateVersioned(
+    id: TId,
+    data: Partial<TEntity>,
+    expectedVersion: unknown,
+    versionField: keyof TEntity & string,
+    attempt: number
+  ): Promise<TEntity | null> {
+    const { [versionField]: _version, ...changes } = data as Record<string, unknown>;
+
+    try {
+      return await this.model.update({
+        where: { id, [versionField]: expectedVersion } as any,
+        data: { ...changes, [versionField]: this.nextVersion() } as any,
+      });
+    } catch (error) {
+      if ((error as any)?.code !== 'P2025') {
+        throw error;
+      }
+    }
+
+    // No row matched: either the entity is gone or its version moved on
+    const current = await this.model.findUnique({ where: { id } as any });
+    if (!current) {
+      return null;
+    }
+
+    const resolution = await this.handleConflict({
+      operation: 'update',
+      id,
+      expectedVersion,
+      actualVersion: current[versionField],
+      current,
+      data,
+      attempt,
+      error: new OptimisticConcurrencyError(id, expectedVersion, current[versionField]),
+    });
+
+    if (resolution.action === 'skip') {
+      return current;
+    }
+    return this.updateVersioned(
+      id,
+      resolution.data ?? data,
+      current[versionField],
+      versionField,
+      attempt + 1
+    );
+  }
+
+  /**
+   * Deletes an entity if its stored version matches.
+   * @private
+   */
+  private async deleteVersioned(
+    id: TId,
+    expectedVersion: unknown,
+    versionField: keyof TEntity & string,
+    attempt: number
+  ): Promise<boolean> {
+    try {
+      await this.model.delete({ where: { id, [versionField]: expectedVersion } as any });
+      return true;
+    } catch (error) {
+      if ((error as any)?.code !== 'P2025') {
+        throw error;
+      }
+    }
+
+    const current = await this.model.findUnique({ where: { id } as any });
+    if (!current) {
+      return false;
+    }
+
+    const resolution = await this.handleConflict({
+      operation: 'delete',
+      id,
+      expectedVersion,
+      actualVersion: current[versionField],
+      current,
+      attempt,
+      error: new OptimisticConcurrencyError(id, expectedVersion, current[versionField]),
+    });
+
+    if (resolution.action === 'skip') {
+      return false;
+    }
+    return this.deleteVersioned(id, current[versionField], versionField, attempt + 1);
+  }
+
+  /**
+   * Asks `resolveConflict()` for a resolution, throwing on `fail`
+   * and when the retry budget is exhausted.
+   * @private
+   */
+  private async handleConflict(
+    conflict: ConcurrencyConflict<TEntity, TId>
+  ): Promise<Exclude<ConflictResolution<TEntity>, { action: 'fail' }>> {
+    const resolution = await this.resolveConflict(conflict);
+
+    if (
+      resolution.action === 'fail' ||
+      (resolution.action === 'retry' && conflict.attempt > this.getMaxConflictRetries())
+    ) {
+      throw conflict.error;
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Computes the next value of the version field.
+   * @private
+   */
+  private nextVersion(): unknown {
+    return this.getVersionStrategy() === 'timestamp' ? new Date() : { increment: 1 };
+  }
+
+  /**
+   * Ensures an expected version was supplied for a versioned write.
+   * @private
+   */
+  private requireVersion(id: TId, version: unknown): unknown {
+    if (version === undefined || version === null) {
+      throw new PrismaUnitOfWorkError(
+        `Expected version is required to write entity '${String(id)}' with optimistic locking`,
+        ErrorCodes.VERSION_REQUIRED
+      );
+    }
+    return version;
+  }
 }
 
 /**
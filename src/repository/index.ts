@@ -13,4 +13,9 @@ export {
   PrismaRepository,
   PrismaCrudRepository,
   type PrismaModelDelegate,
-} from './PrismaRepository';
\ No newline at end of file
+  type VersionStrategy,
+  type ConcurrencyConflict,
+  type ConflictResolution,
+} from './PrismaRepository';
+
+export { RowLockMode, RowLockWait, type RowLockOptions } from './row-locking';
\ No newline at end of file
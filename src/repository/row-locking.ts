@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Row Locking
+ * @description
+ * Lock modes and options of the locking reads (`SELECT ... FOR UPDATE`)
+ * provided by the repository base classes.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/repository
+ * @version 1.0.0
+ */
+
+/**
+ * Row lock strength.
+ */
+export const RowLockMode = {
+  /** Exclusive lock: blocks other locking reads and writes */
+  ForUpdate: 'FOR_UPDATE',
+  /** Shared lock: blocks writes but not other share locks */
+  ForShare: 'FOR_SHARE',
+} as const;
+
+export type RowLockMode = (typeof RowLockMode)[keyof typeof RowLockMode];
+
+/**
+ * Behaviour when a requested row is locked by another transaction.
+ */
+export const RowLockWait = {
+  /** Wait until the lock is released */
+  Wait: 'WAIT',
+  /** Fail immediately with `LockNotAvailableError` */
+  NoWait: 'NOWAIT',
+  /** Skip locked rows and return the others */
+  SkipLocked: 'SKIP_LOCKED',
+} as const;
+
+export type RowLockWait = (typeof RowLockWait)[keyof typeof RowLockWait];
+
+/**
+ * Options for locking reads.
+ */
+export interface RowLockOptions {
+  /**
+   * Behaviour when a row is locked by another transaction.
+   *
+   * @defaultValue RowLockWait.Wait
+   */
+  wait?: RowLockWait;
+}
+
+/**
+ * Sorts and de-duplicates ids so concurrent lockers acquire rows in the same order.
+ * @internal
+ */
+export function sortLockIds<TId>(ids: readonly TId[]): TId[] {
+  return [...new Set(ids)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Dependency Injection Tokens
+ * @description
+ * Tokens for registering @struktos/prisma services with a DI container.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma
+ * @version 1.0.0
+ */
+
+/**
+ * Dependency injection token for PrismaUnitOfWorkFactory.
+ *
+ * @remarks
+ * Use this token when registering the factory with your DI container:
+ *
+ * ```typescript
+ * container.bind(PRISMA_UNIT_OF_WORK_FACTORY_TOKEN).toConstantValue(
+ *   new PrismaUnitOfWorkFactory(prisma, config)
+ * );
+ * ```
+ *
+ * `@Transactional()` resolves the factory with this token by default.
+ */
+export const PRISMA_UNIT_OF_WORK_FACTORY_TOKEN = Symbol('PrismaUnitOfWorkFactory');
+
+/**
+ * Dependency injection token for PrismaClient.
+ *
+ * @remarks
+ * Use this token when registering the Prisma client with your DI container:
+ *
+ * ```typescript
+ * container.bind(PRISMA_CLIENT_TOKEN).toConstantValue(
+ *   new PrismaClient()
+ * );
+ * ```
+ */
+export const PRISMA_CLIENT_TOKEN = Symbol('PrismaClient');
@@ -12,12 +12,50 @@ export type {
   PrismaTransactionClient,
   PrismaClientType,
   PrismaTransactionOptions,
+  PrismaDatabaseOptions,
+  SessionVariableValue,
+  SessionVariableMapper,
   PrismaIsolationLevel,
+  DatabaseProvider,
   RepositoryToken,
   RepositoryFactory,
   SavepointInfo,
+  SavepointOptions,
+  WithSavepointOptions,
+  AdvisoryLockKey,
+  AdvisoryLockOptions,
   PrismaUnitOfWorkConfig,
   PrismaUnitOfWorkLogger,
+  TransactionInstrumentation,
+  TransactionSpan,
+  TransactionSpanAttributes,
+  TransactionSpanResult,
+  TenantRoutingOptions,
+  ReadReplicaOptions,
+  CompositeUnitOfWorkOptions,
+  CompositeCommitReport,
+  CompositeMemberReport,
+  CompositeMemberOutcome,
+  AmbientTransaction,
+  TransactionalOptions,
+  TransactionalResolver,
+  TransactionScopeOptions,
+  TransactionRetryPolicy,
+  BeforeCommitHook,
+  AfterCommitHook,
+  AfterRollbackHook,
+  TransactionCompletionHook,
+  TransactionCompletionStatus,
+  AggregateWithDomainEvents,
+  AggregateTracker,
+  UnitOfWorkScope,
+  ChangeTrackingOptions,
+  DomainEventDispatcher,
 } from './prisma.types';
 
-export { ISOLATION_LEVEL_MAP } from './prisma.types';
\ No newline at end of file
+export {
+  ISOLATION_LEVEL_MAP,
+  TransactionPropagation,
+  ReplicaSelectionStrategy,
+  TransactionSpanName,
+} from './prisma.types';
\ No newline at end of file
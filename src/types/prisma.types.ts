@@ -11,7 +11,17 @@
  */
 
 import type { PrismaClient } from '@prisma/client';
-import type { IsolationLevel } from '@struktos/core';
+import type {
+  IContext,
+  IsolationLevel,
+  StruktosContextData,
+  TransactionOptions,
+  TransactionResult,
+  TransactionState,
+} from '@struktos/core';
+import type { OutboxConfig } from '../outbox/outbox.types';
+import type { SqlDialect } from '../dialects/SqlDialect';
+import type { ReadReplicaRouter } from '../unit-of-work/ReadReplicaRouter';
 
 /**
  * Prisma transaction client type.
@@ -112,6 +122,66 @@ export interface PrismaTransactionOptions {
   isolationLevel?: PrismaIsolationLevel;
 }
 
+/**
+ * Database-side limits, passed as `TransactionOptions.databaseOptions`.
+ *
+ * @remarks
+ * `PrismaTransactionOptions.timeout` bounds the whole interactive
+ * transaction on the client. These limits are enforced by the database
+ * per statement, so a single slow query or lock wait fails fast with
+ * `StatementTimeoutError` or `LockTimeoutError` instead of using up the
+ * transaction's budget. They are applied right after the transaction
+ * opens, with `SET LOCAL` or the dialect's equivalent.
+ *
+ * @example
+ * ```typescript
+ * await uow.executeInTransaction(transfer, {
+ *   timeout: 30000,
+ *   databaseOptions: { statementTimeout: 5000, lockTimeout: 1000 },
+ * });
+ * ```
+ */
+export interface PrismaDatabaseOptions {
+  /**
+   * Maximum run time of each statement in milliseconds.
+   */
+  statementTimeout?: number;
+
+  /**
+   * Maximum time each statement waits for a lock in milliseconds.
+   */
+  lockTimeout?: number;
+}
+
+/**
+ * Value of a session variable; `null` and `undefined` leave it unset.
+ */
+export type SessionVariableValue = string | number | boolean | null | undefined;
+
+/**
+ * Maps the data of the Unit of Work's context to session variables.
+ *
+ * @remarks
+ * Called when each transaction starts, with the context's data (an empty
+ * object without a context). The variables are set for that transaction
+ * only, so policies and defaults reading them — such as PostgreSQL
+ * row-level security with `current_setting('app.tenant_id')` — see the
+ * identity of the request on every repository call.
+ *
+ * @example
+ * ```typescript
+ * const sessionVariables: SessionVariableMapper = (data) => ({
+ *   'app.tenant_id': data.tenantId as string,
+ *   'app.user_id': data.userId,
+ *   search_path: `tenant_${data.tenantId}, public`,
+ *   TimeZone: data.timezone as string,
+ * });
+ * ```
+ */
+export type SessionVariableMapper = (
+  data: Readonly<Partial<StruktosContextData> & Record<string, unknown>>
+) => Record<string, SessionVariableValue>;
+
 /**
  * Prisma isolation level type.
  *
@@ -132,6 +202,15 @@ export type PrismaIsolationLevel =
   | 'Serializable'
   | 'Snapshot';
 
+/**
+ * Prisma datasource provider.
+ *
+ * @remarks
+ * Matches the `provider` of the `datasource` block in `schema.prisma`
+ * and selects the SQL generated for raw statements such as locking reads.
+ */
+export type DatabaseProvider = 'postgresql' | 'cockroachdb' | 'mysql' | 'sqlserver' | 'sqlite';
+
 /**
  * Mapping from Struktos IsolationLevel to Prisma isolation level.
  *
@@ -156,6 +235,154 @@ export const ISOLATION_LEVEL_MAP: Record<IsolationLevel, PrismaIsolationLevel> =
   SNAPSHOT: 'Snapshot',
 } as const;
 
+/**
+ * Transaction propagation modes for `executeInTransaction`.
+ *
+ * Determines how a transactional boundary behaves when the Unit of Work
+ * already has (or does not have) an active transaction.
+ *
+ * @remarks
+ * Modeled after Spring's `Propagation` enum:
+ * - `REQUIRED`: Join the active transaction, or start a new one (default)
+ * - `REQUIRES_NEW`: Always run in a separate `$transaction`
+ * - `NESTED`: Wrap the callback in a savepoint when a transaction is active
+ * - `MANDATORY`: Join the active transaction, fail if there is none
+ * - `NEVER`: Run without a transaction, fail if one is active
+ * - `SUPPORTS`: Join the active transaction, or run without one
+ *
+ * @example
+ * ```typescript
+ * await uow.executeInTransaction(async (unitOfWork) => {
+ *   await placeOrder(unitOfWork);
+ *
+ *   // Audit failures must not roll back the order
+ *   await unitOfWork.executeInTransaction(writeAuditLog, {
+ *     propagation: TransactionPropagation.RequiresNew,
+ *   });
+ * });
+ * ```
+ */
+export const TransactionPropagation = {
+  Required: 'REQUIRED',
+  RequiresNew: 'REQUIRES_NEW',
+  Nested: 'NESTED',
+  Mandatory: 'MANDATORY',
+  Never: 'NEVER',
+  Supports: 'SUPPORTS',
+} as const;
+
+/**
+ * Transaction propagation mode value.
+ */
+export type TransactionPropagation =
+  (typeof TransactionPropagation)[keyof typeof TransactionPropagation];
+
+/**
+ * Options accepted by `PrismaUnitOfWork.executeInTransaction`.
+ *
+ * Extends the @struktos/core `TransactionOptions` with settings
+ * that only apply to a transactional boundary.
+ *
+ * @example
+ * ```typescript
+ * const options: TransactionScopeOptions = {
+ *   isolationLevel: IsolationLevel.Serializable,
+ *   propagation: TransactionPropagation.Nested
+ * };
+ * ```
+ */
+export interface TransactionScopeOptions extends TransactionOptions {
+  /**
+   * How the boundary relates to an already active transaction.
+   *
+   * @defaultValue TransactionPropagation.Required
+   */
+  propagation?: TransactionPropagation;
+
+  /**
+   * Retry policy for this call, overriding `PrismaUnitOfWorkConfig.retry`.
+   *
+   * @remarks
+   * Pass `false` to disable retries for this call. Retries only apply
+   * when the call starts its own transaction, not when it joins one.
+   */
+  retry?: TransactionRetryPolicy | false;
+
+  /**
+   * Signal that cancels the transaction when aborted.
+   *
+   * @remarks
+   * Aborting rolls back the transaction this call started; later
+   * operations throw `TransactionCancelledError`. When the call joins an
+   * existing transaction, the signal is only checked on entry.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Retry policy for transactions aborted by the database.
+ *
+ * Under `Serializable` or `RepeatableRead` isolation, PostgreSQL and MySQL
+ * abort conflicting transactions with serialization or deadlock errors.
+ * These transactions are safe to re-run from the beginning.
+ *
+ * @remarks
+ * Each retry starts a fresh transaction and clears the repository cache.
+ * Delays grow exponentially from `initialDelay` up to `maxDelay`; with
+ * `jitter` enabled, each delay is randomized between zero and that value.
+ *
+ * @example
+ * ```typescript
+ * const factory = new PrismaUnitOfWorkFactory(prisma, {
+ *   defaultIsolationLevel: IsolationLevel.Serializable,
+ *   retry: { maxAttempts: 5, initialDelay: 20, maxDelay: 500 }
+ * });
+ * ```
+ */
+export interface TransactionRetryPolicy {
+  /**
+   * Total number of attempts, including the first one.
+   *
+   * @defaultValue 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * @defaultValue 50
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds.
+   *
+   * @defaultValue 2000
+   */
+  maxDelay?: number;
+
+  /**
+   * Factor applied to the delay after each attempt.
+   *
+   * @defaultValue 2
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Whether to randomize delays to spread out competing retries.
+   *
+   * @defaultValue true
+   */
+  jitter?: boolean;
+
+  /**
+   * Decides whether a failed attempt may be retried.
+   *
+   * @defaultValue isRetryableTransactionError
+   */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
 /**
  * Repository type token for dependency injection.
  *
@@ -188,6 +415,8 @@ export type RepositoryToken<T> = string | symbol | (new (...args: unknown[]) =>
  * @template TRepository - The repository interface type
  *
  * @param tx - The Prisma transaction client
+ * @param unitOfWork - The Unit of Work creating the repository, used to
+ * track aggregates and, in change-tracking mode, register changes
  * @returns A repository instance bound to the transaction
  *
  * @remarks
@@ -199,8 +428,8 @@ export type RepositoryToken<T> = string | symbol | (new (...args: unknown[]) =>
  * @example
  * ```typescript
  * // Define a repository factory
- * const userRepoFactory: RepositoryFactory<IUserRepository> = (tx) => {
- *   return new PrismaUserRepository(tx);
+ * const userRepoFactory: RepositoryFactory<IUserRepository> = (tx, unitOfWork) => {
+ *   return new PrismaUserRepository(tx, unitOfWork);
  * };
  *
  * // Register with Unit of Work
@@ -208,140 +437,945 @@ export type RepositoryToken<T> = string | symbol | (new (...args: unknown[]) =>
  * ```
  */
 export type RepositoryFactory<TRepository> = (
-  tx: PrismaTransactionClient
+  tx: PrismaTransactionClient,
+  unitOfWork: UnitOfWorkScope
 ) => TRepository;
 
 /**
- * Savepoint information structure.
+ * Aggregate root that records domain events until they are pulled.
  *
- * Stores metadata about a savepoint created within a transaction.
+ * @template TEvent - Domain event type
  *
- * @remarks
- * Savepoints allow partial rollback within a transaction.
- * This structure tracks when each savepoint was created
- * for debugging and logging purposes.
+ * @example
+ * ```typescript
+ * class Order implements AggregateWithDomainEvents<OrderEvent> {
+ *   private events: OrderEvent[] = [];
+ *
+ *   place(): void {
+ *     this.status = 'PLACED';
+ *     this.events.push(new OrderPlaced(this.id));
+ *   }
+ *
+ *   pullDomainEvents(): OrderEvent[] {
+ *     const events = this.events;
+ *     this.events = [];
+ *     return events;
+ *   }
+ * }
+ * ```
  */
-export interface SavepointInfo {
+export interface AggregateWithDomainEvents<TEvent = unknown> {
   /**
-   * Unique name of the savepoint.
+   * Returns the pending domain events and clears them from the aggregate.
    */
-  name: string;
+  pullDomainEvents(): TEvent[];
+}
 
+/**
+ * Receives aggregates touched during a transaction.
+ *
+ * @remarks
+ * Implemented by PrismaUnitOfWork and passed to repository factories.
+ */
+export interface AggregateTracker {
   /**
-   * Timestamp when the savepoint was created.
+   * Registers an aggregate whose domain events are collected on commit.
+   *
+   * @param aggregate - The aggregate touched in the current transaction
    */
-  createdAt: Date;
+  trackAggregate(aggregate: AggregateWithDomainEvents): void;
 }
 
 /**
- * Unit of Work configuration options.
- *
- * Configuration for PrismaUnitOfWork instances.
- *
- * @template TContext - Context data type
- *
- * @example
- * ```typescript
- * const config: PrismaUnitOfWorkConfig = {
- *   defaultTimeout: 30000,
- *   defaultMaxWait: 5000,
- *   defaultIsolationLevel: IsolationLevel.ReadCommitted,
- *   enableSavepoints: true,
- *   logger: console
- * };
+ * Unit of Work operations available to repositories.
  *
- * const unitOfWorkFactory = new PrismaUnitOfWorkFactory(prisma, config);
- * ```
+ * @remarks
+ * Implemented by PrismaUnitOfWork and passed to repository factories.
+ * The `register*` methods require change tracking to be enabled with
+ * the `changeTracking` configuration option.
  */
-export interface PrismaUnitOfWorkConfig {
+export interface UnitOfWorkScope extends AggregateTracker {
   /**
-   * Default transaction timeout in milliseconds.
+   * Current transaction state.
+   */
+  readonly state: TransactionState;
+
+  /**
+   * SQL dialect of the database, used for raw SQL such as locking reads.
+   */
+  readonly dialect: SqlDialect;
+
+  /**
+   * Whether change tracking is enabled for this Unit of Work.
+   */
+  readonly isChangeTrackingEnabled: boolean;
+
+  /**
+   * Registers a new entity, inserted on flush.
    *
-   * @defaultValue 30000
+   * @param model - Model delegate name (e.g. `user`)
+   * @param entity - New entity, including its identifier
    */
-  defaultTimeout?: number;
+  registerNew(model: string, entity: object): void;
 
   /**
-   * Default maximum wait time for transaction slot.
+   * Registers a modified entity, updated on flush.
    *
-   * @defaultValue 5000
+   * @param model - Model delegate name
+   * @param entity - Modified entity
    */
-  defaultMaxWait?: number;
+  registerDirty(model: string, entity: object): void;
 
   /**
-   * Default transaction isolation level.
+   * Registers an entity for deletion on flush.
    *
-   * @defaultValue IsolationLevel.ReadCommitted
+   * @param model - Model delegate name
+   * @param entity - Entity to delete
    */
-  defaultIsolationLevel?: IsolationLevel;
+  registerDeleted(model: string, entity: object): void;
 
   /**
-   * Whether to enable savepoint support.
+   * Adds a loaded entity to the identity map.
    *
-   * @remarks
-   * Savepoints require raw SQL execution which may not be
-   * supported in all Prisma configurations.
+   * @param model - Model delegate name
+   * @param entity - Entity loaded from the database
+   * @returns The instance already tracked for the same id, or `entity`
+   */
+  registerClean<T extends object>(model: string, entity: T): T;
+
+  /**
+   * Gets the tracked instance of an entity from the identity map.
    *
-   * @defaultValue true
+   * @param model - Model delegate name
+   * @param id - Entity identifier
+   * @returns The tracked instance, or undefined
    */
-  enableSavepoints?: boolean;
+  getTrackedEntity<T extends object>(model: string, id: unknown): T | undefined;
+}
 
+/**
+ * Change tracking settings for PrismaUnitOfWork.
+ *
+ * @example
+ * ```typescript
+ * const uowFactory = new PrismaUnitOfWorkFactory(prisma, {
+ *   changeTracking: { modelOrder: ['customer', 'order', 'orderLine'] },
+ * });
+ * ```
+ */
+export interface ChangeTrackingOptions {
   /**
-   * Logger instance for transaction lifecycle events.
+   * Model delegate names in dependency order, parents first.
    *
    * @remarks
-   * If provided, the Unit of Work will log transaction start,
-   * commit, rollback, and error events.
+   * Inserts and updates follow this order, deletes run in reverse.
+   * Unlisted models follow in the order of their first registration.
    */
-  logger?: PrismaUnitOfWorkLogger;
+  modelOrder?: string[];
+
+  /**
+   * Name of the identifier field.
+   *
+   * @defaultValue 'id'
+   */
+  idField?: string;
 }
 
 /**
- * Logger interface for PrismaUnitOfWork.
+ * Dispatches domain events collected by PrismaUnitOfWork.
  *
- * Minimal logging interface that can be implemented by
- * any logging library (winston, pino, console, etc.).
+ * @template TEvent - Domain event type
+ *
+ * @remarks
+ * `dispatchInTransaction` runs before the commit against the live
+ * transaction client; throwing from it rolls the transaction back.
+ * `dispatch` runs once the transaction has committed. Events of a
+ * rolled-back transaction are discarded.
  *
  * @example
  * ```typescript
- * const logger: PrismaUnitOfWorkLogger = {
- *   debug: (msg, meta) => console.debug(msg, meta),
- *   info: (msg, meta) => console.info(msg, meta),
- *   warn: (msg, meta) => console.warn(msg, meta),
- *   error: (msg, meta) => console.error(msg, meta)
+ * const dispatcher: DomainEventDispatcher<DomainEvent> = {
+ *   async dispatchInTransaction(events, tx) {
+ *     for (const event of events) {
+ *       await projections.apply(event, tx);
+ *     }
+ *   },
+ *   async dispatch(events) {
+ *     for (const event of events) {
+ *       await eventBus.publish(event);
+ *     }
+ *   },
  * };
  * ```
  */
-export interface PrismaUnitOfWorkLogger {
+export interface DomainEventDispatcher<TEvent = unknown> {
   /**
-   * Log debug message.
+   * Dispatches the events of a committed transaction, in the order they were raised.
    *
-   * @param message - Log message
-   * @param meta - Additional metadata
+   * @param events - Events collected from tracked aggregates
    */
-  debug(message: string, meta?: Record<string, unknown>): void;
+  dispatch(events: TEvent[]): Promise<void>;
 
   /**
-   * Log info message.
+   * Runs synchronous handlers inside the transaction, before the commit.
    *
-   * @param message - Log message
-   * @param meta - Additional metadata
+   * @param events - Events collected from tracked aggregates
+   * @param tx - The live transaction client
    */
-  info(message: string, meta?: Record<string, unknown>): void;
+  dispatchInTransaction?(events: TEvent[], tx: PrismaTransactionClient): Promise<void>;
+}
 
+/**
+ * Savepoint information structure.
+ *
+ * Stores metadata about a savepoint created within a transaction.
+ *
+ * @remarks
+ * Savepoints allow partial rollback within a transaction.
+ * Active savepoints form a stack: rolling back to or releasing a
+ * savepoint discards every savepoint above it.
+ */
+export interface SavepointInfo {
   /**
-   * Log warning message.
-   *
-   * @param message - Log message
-   * @param meta - Additional metadata
+   * Unique name of the savepoint.
    */
-  warn(message: string, meta?: Record<string, unknown>): void;
+  name: string;
 
   /**
-   * Log error message.
+   * SQL identifier of the savepoint. Equal to `name` unless the savepoint
+   * was created with a label.
+   */
+  identifier: string;
+
+  /**
+   * Creation order within the Unit of Work, increasing monotonically.
+   */
+  sequence: number;
+
+  /**
+   * Position in the savepoint stack; 1 for the outermost savepoint.
+   */
+  depth: number;
+
+  /**
+   * Name of the savepoint below this one, if any.
+   */
+  parent?: string;
+
+  /**
+   * Timestamp when the savepoint was created.
+   */
+  createdAt: Date;
+}
+
+/**
+ * Options for creating a savepoint.
+ */
+export interface SavepointOptions {
+  /**
+   * Treat the name as a free-form label. The savepoint is created under a
+   * generated identifier and is still addressed by the label.
    *
-   * @param message - Log message
-   * @param meta - Additional metadata
+   * @defaultValue false
    */
-  error(message: string, meta?: Record<string, unknown>): void;
-}
\ No newline at end of file
+  label?: boolean;
+}
+
+/**
+ * Options for `withSavepoint()`.
+ */
+export interface WithSavepointOptions extends SavepointOptions {
+  /**
+   * Savepoint name. A unique name is generated when omitted.
+   */
+  name?: string;
+
+  /**
+   * Resolve with `undefined` instead of rethrowing once the callback's
+   * error has been rolled back to the savepoint.
+   *
+   * @defaultValue false
+   */
+  swallowErrors?: boolean;
+}
+
+/**
+ * Key of an advisory lock.
+ *
+ * @remarks
+ * Strings are hashed into the provider's lock space; numbers and bigints
+ * are used directly as PostgreSQL lock ids (signed 64-bit).
+ */
+export type AdvisoryLockKey = string | number | bigint;
+
+/**
+ * Options for acquiring an advisory lock.
+ */
+export interface AdvisoryLockOptions {
+  /**
+   * Whether to wait while another transaction holds the lock.
+   * When false, `LockNotAvailableError` is thrown immediately.
+   *
+   * @defaultValue true
+   */
+  wait?: boolean;
+
+  /**
+   * Maximum time to wait, in milliseconds. `LockTimeoutError` is thrown
+   * when it elapses. Waits indefinitely when omitted.
+   */
+  timeout?: number;
+}
+
+/**
+ * Hook run inside the transaction right before it commits.
+ *
+ * @param tx - The live transaction client
+ *
+ * @remarks
+ * Throwing from this hook vetoes the commit: the transaction is rolled
+ * back and the error is rethrown from `commit()`.
+ *
+ * @example
+ * ```typescript
+ * unitOfWork.onBeforeCommit(async (tx) => {
+ *   const total = await tx.ledgerEntry.aggregate({ _sum: { amount: true } });
+ *   if (total._sum.amount !== 0) {
+ *     throw new LedgerImbalanceError();
+ *   }
+ * });
+ * ```
+ */
+export type BeforeCommitHook = (tx: PrismaTransactionClient) => void | Promise<void>;
+
+/**
+ * Hook run after the transaction has been durably committed.
+ *
+ * @param result - Result of the committed transaction
+ */
+export type AfterCommitHook = (result: TransactionResult) => void | Promise<void>;
+
+/**
+ * Hook run after the transaction has been rolled back.
+ *
+ * @param result - Result of the rollback; `error` is set when the
+ * transaction failed rather than being rolled back on request
+ */
+export type AfterRollbackHook = (result: TransactionResult) => void | Promise<void>;
+
+/**
+ * Final outcome of a transaction, passed to completion hooks.
+ */
+export type TransactionCompletionStatus = 'COMMITTED' | 'ROLLED_BACK';
+
+/**
+ * Hook run after the transaction has finished, whatever the outcome.
+ *
+ * @param status - Whether the transaction committed or rolled back
+ * @param result - Result of the transaction
+ */
+export type TransactionCompletionHook = (
+  status: TransactionCompletionStatus,
+  result: TransactionResult
+) => void | Promise<void>;
+
+/**
+ * Unit of Work configuration options.
+ *
+ * Configuration for PrismaUnitOfWork instances.
+ *
+ * @template TContext - Context data type
+ *
+ * @example
+ * ```typescript
+ * const config: PrismaUnitOfWorkConfig = {
+ *   defaultTimeout: 30000,
+ *   defaultMaxWait: 5000,
+ *   defaultIsolationLevel: IsolationLevel.ReadCommitted,
+ *   enableSavepoints: true,
+ *   logger: console
+ * };
+ *
+ * const unitOfWorkFactory = new PrismaUnitOfWorkFactory(prisma, config);
+ * ```
+ */
+export interface PrismaUnitOfWorkConfig {
+  /**
+   * Default transaction timeout in milliseconds.
+   *
+   * @defaultValue 30000
+   */
+  defaultTimeout?: number;
+
+  /**
+   * Default maximum wait time for transaction slot.
+   *
+   * @defaultValue 5000
+   */
+  defaultMaxWait?: number;
+
+  /**
+   * Default transaction isolation level.
+   *
+   * @defaultValue IsolationLevel.ReadCommitted
+   */
+  defaultIsolationLevel?: IsolationLevel;
+
+  /**
+   * Whether to enable savepoint support.
+   *
+   * @remarks
+   * Savepoints require raw SQL execution which may not be
+   * supported in all Prisma configurations.
+   *
+   * @defaultValue true
+   */
+  enableSavepoints?: boolean;
+
+  /**
+   * Default statement timeout in milliseconds, overridden by
+   * `databaseOptions.statementTimeout`.
+   *
+   * @see PrismaDatabaseOptions
+   */
+  defaultStatementTimeout?: number;
+
+  /**
+   * Default lock timeout in milliseconds, overridden by
+   * `databaseOptions.lockTimeout`.
+   *
+   * @see PrismaDatabaseOptions
+   */
+  defaultLockTimeout?: number;
+
+  /**
+   * Default retry policy for `executeInTransaction`.
+   *
+   * @remarks
+   * When omitted, failed transactions are not retried.
+   */
+  retry?: TransactionRetryPolicy;
+
+  /**
+   * Transactional outbox settings used by `getOutbox()`.
+   */
+  outbox?: OutboxConfig;
+
+  /**
+   * SQL dialect for savepoints, locks and session statements.
+   *
+   * @remarks
+   * Accepts a datasource provider name or a custom SqlDialect. When
+   * omitted, the dialect matches the provider reported by the Prisma client.
+   *
+   * @example
+   * ```typescript
+   * { dialect: 'mysql' }
+   * { dialect: new SqlServerDialect() }
+   * ```
+   */
+  dialect?: DatabaseProvider | SqlDialect;
+
+  /**
+   * Session variables to set when each transaction starts, derived from
+   * the request context.
+   *
+   * @see SessionVariableMapper
+   */
+  sessionVariables?: SessionVariableMapper;
+
+  /**
+   * Read replicas for read-only transactions.
+   *
+   * @remarks
+   * Read-only transactions run on a replica, all other transactions on the
+   * primary client. Pass a ReadReplicaRouter to share replica selection and
+   * read-your-writes pins between Unit of Work instances;
+   * `PrismaUnitOfWorkFactory` does this for its instances.
+   *
+   * @see ReadReplicaOptions
+   */
+  readReplicas?: ReadReplicaOptions | ReadReplicaRouter;
+
+  /**
+   * Dispatcher for domain events raised by tracked aggregates.
+   *
+   * @remarks
+   * When omitted, tracked aggregates are ignored.
+   */
+  domainEvents?: DomainEventDispatcher;
+
+  /**
+   * Enables change tracking: repositories register new, dirty and deleted
+   * entities, which are written in dependency order on `flush()` or commit.
+   *
+   * @remarks
+   * When omitted, repository calls hit the database immediately.
+   */
+  changeTracking?: ChangeTrackingOptions;
+
+  /**
+   * Logger instance for transaction lifecycle events.
+   *
+   * @remarks
+   * If provided, the Unit of Work will log transaction start,
+   * commit, rollback, and error events.
+   */
+  logger?: PrismaUnitOfWorkLogger;
+
+  /**
+   * Tracing instrumentation receiving a span for every transaction start,
+   * commit, rollback, savepoint operation and repository method call.
+   *
+   * @remarks
+   * Use `OpenTelemetryInstrumentation` to record the spans with an
+   * OpenTelemetry tracer.
+   */
+  instrumentation?: TransactionInstrumentation;
+}
+
+/**
+ * Logger interface for PrismaUnitOfWork.
+ *
+ * Minimal logging interface that can be implemented by
+ * any logging library (winston, pino, console, etc.).
+ *
+ * @example
+ * ```typescript
+ * const logger: PrismaUnitOfWorkLogger = {
+ *   debug: (msg, meta) => console.debug(msg, meta),
+ *   info: (msg, meta) => console.info(msg, meta),
+ *   warn: (msg, meta) => console.warn(msg, meta),
+ *   error: (msg, meta) => console.error(msg, meta)
+ * };
+ * ```
+ */
+export interface PrismaUnitOfWorkLogger {
+  /**
+   * Log debug message.
+   *
+   * @param message - Log message
+   * @param meta - Additional metadata
+   */
+  debug(message: string, meta?: Record<string, unknown>): void;
+
+  /**
+   * Log info message.
+   *
+   * @param message - Log message
+   * @param meta - Additional metadata
+   */
+  info(message: string, meta?: Record<string, unknown>): void;
+
+  /**
+   * Log warning message.
+   *
+   * @param message - Log message
+   * @param meta - Additional metadata
+   */
+  warn(message: string, meta?: Record<string, unknown>): void;
+
+  /**
+   * Log error message.
+   *
+   * @param message - Log message
+   * @param meta - Additional metadata
+   */
+  error(message: string, meta?: Record<string, unknown>): void;
+}
+
+/**
+ * Names of the spans reported to a `TransactionInstrumentation`.
+ *
+ * @remarks
+ * - `Start`, `Commit`, `Rollback`: transaction lifecycle of a Unit of Work
+ * - `SavepointCreate`, `SavepointRollback`, `SavepointRelease`: savepoint operations
+ * - `RepositoryCall`: a method call on a repository obtained from `getRepository()`
+ */
+export const TransactionSpanName = {
+  Start: 'transaction.start',
+  Commit: 'transaction.commit',
+  Rollback: 'transaction.rollback',
+  SavepointCreate: 'transaction.savepoint.create',
+  SavepointRollback: 'transaction.savepoint.rollback',
+  SavepointRelease: 'transaction.savepoint.release',
+  RepositoryCall: 'repository.call',
+} as const;
+
+export type TransactionSpanName = (typeof TransactionSpanName)[keyof typeof TransactionSpanName];
+
+/**
+ * Attributes of a span, known when the span starts.
+ */
+export interface TransactionSpanAttributes {
+  /**
+   * ID of the Unit of Work.
+   */
+  unitOfWorkId: string;
+
+  /**
+   * Trace ID of the request context, if any.
+   */
+  traceId?: string;
+
+  /**
+   * Isolation level of the transaction.
+   */
+  isolationLevel?: string;
+
+  /**
+   * Whether the transaction is read-only.
+   */
+  readOnly?: boolean;
+
+  /**
+   * Name of the savepoint, for savepoint spans.
+   */
+  savepointName?: string;
+
+  /**
+   * Token of the repository, for repository spans.
+   */
+  repositoryToken?: string;
+
+  /**
+   * Name of the called method, for repository spans.
+   */
+  repositoryMethod?: string;
+}
+
+/**
+ * Outcome of a span, reported when the span ends.
+ */
+export interface TransactionSpanResult {
+  /**
+   * Duration of the operation in milliseconds.
+   */
+  durationMs: number;
+
+  /**
+   * Error the operation failed with, if any.
+   */
+  error?: Error;
+
+  /**
+   * `code` of the error, e.g. `TRANSACTION_COMMIT_FAILED` or a Prisma
+   * error code such as `P2002`.
+   */
+  errorCode?: string;
+}
+
+/**
+ * A started span.
+ */
+export interface TransactionSpan {
+  /**
+   * Ends the span. Called exactly once.
+   *
+   * @param result - Duration and error of the operation
+   */
+  end(result: TransactionSpanResult): void;
+}
+
+/**
+ * Tracing instrumentation for Unit of Work operations, modeled on
+ * OpenTelemetry spans without depending on it.
+ *
+ * @remarks
+ * Spans of nested operations start and end within their parent, e.g. the
+ * spans of repository calls within a `transaction.commit` span when
+ * change tracking flushes on commit. Errors thrown by the instrumentation
+ * propagate to the caller.
+ *
+ * @example
+ * ```typescript
+ * const instrumentation: TransactionInstrumentation = {
+ *   startSpan: (name, attributes) => ({
+ *     end: ({ durationMs, errorCode }) =>
+ *       metrics.histogram(name, durationMs, { ...attributes, errorCode }),
+ *   }),
+ * };
+ *
+ * const factory = new PrismaUnitOfWorkFactory(prisma, { instrumentation });
+ * ```
+ */
+export interface TransactionInstrumentation {
+  /**
+   * Starts a span for an operation.
+   *
+   * @param name - Operation name
+   * @param attributes - Attributes known when the operation starts
+   * @returns The span, ended when the operation completes
+   */
+  startSpan(name: TransactionSpanName, attributes: TransactionSpanAttributes): TransactionSpan;
+}
+
+/**
+ * Options of `TenantRoutingUnitOfWorkFactory`.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @example
+ * ```typescript
+ * const options: TenantRoutingOptions = {
+ *   createClient: (tenantId) => {
+ *     const url = tenantDatabaseUrls[tenantId];
+ *     return url ? new PrismaClient({ datasources: { db: { url } } }) : undefined;
+ *   },
+ *   maxClients: 20,
+ *   idleTimeout: 10 * 60_000,
+ * };
+ * ```
+ */
+export interface TenantRoutingOptions<TContext extends StruktosContextData = StruktosContextData> {
+  /**
+   * Creates the Prisma client of a tenant, or returns undefined for
+   * unknown tenants. Called once per tenant until its client is evicted.
+   */
+  createClient: (tenantId: string) => PrismaClient | undefined;
+
+  /**
+   * Resolves the tenant of a context.
+   *
+   * @defaultValue Reads `tenantId` from the context
+   */
+  resolveTenant?: (context: IContext<TContext>) => string | undefined;
+
+  /**
+   * Maximum number of cached clients. When exceeded, the least recently
+   * used client that no Unit of Work is using is disconnected.
+   *
+   * @defaultValue 10
+   */
+  maxClients?: number;
+
+  /**
+   * Time in milliseconds after which an unused client is disconnected;
+   * 0 keeps clients until they are evicted by `maxClients`.
+   *
+   * @defaultValue 300000
+   */
+  idleTimeout?: number;
+
+  /**
+   * Configuration of the created Unit of Work instances.
+   */
+  config?: PrismaUnitOfWorkConfig;
+}
+
+/**
+ * Replica selection strategies for read routing.
+ *
+ * @remarks
+ * - `ROUND_ROBIN`: Use the replicas in turn (default)
+ * - `LEAST_IN_FLIGHT`: Use the replica with the fewest running reads
+ */
+export const ReplicaSelectionStrategy = {
+  RoundRobin: 'ROUND_ROBIN',
+  LeastInFlight: 'LEAST_IN_FLIGHT',
+} as const;
+
+/**
+ * Replica selection strategy value.
+ */
+export type ReplicaSelectionStrategy =
+  (typeof ReplicaSelectionStrategy)[keyof typeof ReplicaSelectionStrategy];
+
+/**
+ * Read replica settings of `PrismaUnitOfWorkConfig.readReplicas`.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @example
+ * ```typescript
+ * const options: ReadReplicaOptions = {
+ *   replicas: [replicaA, replicaB],
+ *   strategy: ReplicaSelectionStrategy.LeastInFlight,
+ *   readYourWritesWindow: 2000,
+ * };
+ * ```
+ */
+export interface ReadReplicaOptions<TContext extends StruktosContextData = StruktosContextData> {
+  /**
+   * Prisma clients connected to the read replicas. Without replicas, all
+   * reads go to the primary.
+   */
+  replicas: PrismaClient[];
+
+  /**
+   * How a replica is chosen for each read.
+   *
+   * @defaultValue ReplicaSelectionStrategy.RoundRobin
+   */
+  strategy?: ReplicaSelectionStrategy;
+
+  /**
+   * Time in milliseconds during which reads of a context stay on the
+   * primary after it committed a write, covering replication lag;
+   * 0 disables pinning.
+   *
+   * @defaultValue 0
+   */
+  readYourWritesWindow?: number;
+
+  /**
+   * Resolves the key that pins reads to the primary after a write.
+   * Contexts without a key are never pinned.
+   *
+   * @defaultValue Reads `userId` from the context
+   */
+  resolvePinKey?: (context: IContext<TContext>) => string | undefined;
+}
+
+/**
+ * Outcome of one member of a `CompositeUnitOfWork` commit.
+ *
+ * @remarks
+ * - `COMMITTED`: The member's changes are durable
+ * - `ROLLED_BACK`: The member's changes were discarded
+ * - `IN_DOUBT`: The member is prepared but neither committed nor rolled
+ *   back; resolve it with `commitPrepared()` or `rollbackPrepared()`
+ */
+export type CompositeMemberOutcome = 'COMMITTED' | 'ROLLED_BACK' | 'IN_DOUBT';
+
+/**
+ * Commit outcome of one member of a `CompositeUnitOfWork`.
+ */
+export interface CompositeMemberReport {
+  /**
+   * Member name.
+   */
+  name: string;
+
+  /**
+   * Id of the member's Unit of Work.
+   */
+  unitOfWorkId: string;
+
+  /**
+   * What happened to the member's changes.
+   */
+  outcome: CompositeMemberOutcome;
+
+  /**
+   * Global id of the member's prepared transaction in two-phase mode.
+   */
+  transactionId?: string;
+
+  /**
+   * Error that prevented the member from committing, if any.
+   */
+  error?: Error;
+}
+
+/**
+ * Report of a `CompositeUnitOfWork` commit.
+ *
+ * @example
+ * ```typescript
+ * catch (error) {
+ *   if (error instanceof CompositeCommitError && error.report.partial) {
+ *     await compensate(error.report.committed);
+ *   }
+ * }
+ * ```
+ */
+export interface CompositeCommitReport {
+  /**
+   * True if every member committed.
+   */
+  success: boolean;
+
+  /**
+   * True if some members committed and others did not.
+   */
+  partial: boolean;
+
+  /**
+   * Names of the members that committed, in commit order.
+   */
+  committed: string[];
+
+  /**
+   * Names of the members that rolled back or are in doubt.
+   */
+  notCommitted: string[];
+
+  /**
+   * Outcome of every member, in commit order.
+   */
+  members: CompositeMemberReport[];
+}
+
+/**
+ * Options of `CompositeUnitOfWork`.
+ */
+export interface CompositeUnitOfWorkOptions {
+  /**
+   * Commits with two-phase commit: every member is prepared with
+   * `PREPARE TRANSACTION` before any is committed. Requires databases
+   * with prepared transactions (PostgreSQL).
+   *
+   * @defaultValue false
+   */
+  twoPhaseCommit?: boolean;
+
+  /**
+   * Logger for commit and rollback events of the composite.
+   */
+  logger?: PrismaUnitOfWorkLogger;
+}
+
+/**
+ * Transaction that repositories created from the root Prisma client join
+ * while a callback of `executeInTransaction()` runs.
+ */
+export interface AmbientTransaction {
+  /**
+   * Client of the transaction, as handed to repository factories.
+   */
+  client: PrismaTransactionClient;
+
+  /**
+   * Unit of Work running the transaction.
+   */
+  unitOfWork: UnitOfWorkScope;
+}
+
+/**
+ * Options of the `@Transactional()` decorator.
+ *
+ * @remarks
+ * Takes the options of `executeInTransaction()`, except for the per-call
+ * abort signal.
+ */
+export interface TransactionalOptions extends Omit<TransactionScopeOptions, 'signal'> {
+  /**
+   * Token the `PrismaUnitOfWorkFactory` is resolved with.
+   *
+   * @defaultValue PRISMA_UNIT_OF_WORK_FACTORY_TOKEN
+   */
+  factory?: string | symbol;
+}
+
+/**
+ * Resolves the dependencies of `@Transactional()` methods, typically by
+ * delegating to a DI container.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ */
+export interface TransactionalResolver<TContext extends StruktosContextData = StruktosContextData> {
+  /**
+   * Resolves a DI token to its instance. Called with the `factory` token of
+   * the decorator options.
+   */
+  resolve(token: string | symbol): unknown;
+
+  /**
+   * Returns the context of the current request, set on created Unit of
+   * Work instances.
+   *
+   * @defaultValue `() => RequestContext.current()`
+   */
+  getContext?(): IContext<TContext> | undefined;
+}
@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Change Tracker
+ * @description
+ * Identity map and change registrations for the change-tracking mode of
+ * PrismaUnitOfWork. Collected inserts, updates and deletes are written to
+ * the database in dependency order when the Unit of Work flushes.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import type { ChangeTrackingOptions, PrismaTransactionClient } from '../types/prisma.types';
+import { ChangeTrackingError } from '../errors/unit-of-work.errors';
+
+/**
+ * Model delegate methods used when flushing.
+ * @internal
+ */
+interface FlushDelegate {
+  createMany(args: { data: Record<string, unknown>[] }): Promise<unknown>;
+  update(args: { where: Record<string, unknown>; data: Record<string, unknown> }): Promise<unknown>;
+  deleteMany(args: { where: Record<string, unknown> }): Promise<unknown>;
+}
+
+/**
+ * Counts of rows written by a flush.
+ */
+export interface ChangeSetSummary {
+  /** Number of inserted entities */
+  inserted: number;
+
+  /** Number of updated entities */
+  updated: number;
+
+  /** Number of deleted entities */
+  deleted: number;
+}
+
+/**
+ * ChangeTracker - Identity map and pending changes of a transaction.
+ *
+ * @remarks
+ * **Identity map:**
+ * Entities are keyed by model and id; registering a loaded entity returns
+ * the instance already tracked for that id, so the same row is represented
+ * by a single object within a transaction.
+ *
+ * **Flush order:**
+ * Inserts and updates run model by model following `modelOrder` (parents
+ * first); deletes run in the reverse order. Models missing from
+ * `modelOrder` follow, in the order they were first registered.
+ *
+ * **Batching:**
+ * Inserts use one `createMany` and deletes one `deleteMany` per model.
+ * Updates carry per-entity data and are issued one `update` per entity.
+ *
+ * @internal
+ */
+export class ChangeTracker {
+  /**
+   * Tracked entities per model, keyed by id.
+   * @private
+   */
+  private readonly identityMap = new Map<string, Map<unknown, object>>();
+
+  /**
+   * Entities to insert per model, in registration order.
+   * @private
+   */
+  private readonly newEntities = new Map<string, Set<object>>();
+
+  /**
+   * Entities to update per model, in registration order.
+   * @private
+   */
+  private readonly dirtyEntities = new Map<string, Set<object>>();
+
+  /**
+   * Entities to delete per model, in registration order.
+   * @private
+   */
+  private readonly deletedEntities = new Map<string, Set<object>>();
+
+  /**
+   * Models in the order their first change was registered.
+   * @private
+   */
+  private readonly registeredModels = new Set<string>();
+
+  /**
+   * Name of the identifier field.
+   * @private
+   */
+  private readonly idField: string;
+
+  /**
+   * Models in dependency order (parents first).
+   * @private
+   */
+  private readonly modelOrder: string[];
+
+  /**
+   * Unit of Work ID, used in errors.
+   * @private
+   */
+  private readonly unitOfWorkId?: string;
+
+  /**
+   * Creates a new ChangeTracker.
+   *
+   * @param options - Change tracking options
+   * @param unitOfWorkId - Unit of Work ID, used in errors
+   */
+  constructor(options: ChangeTrackingOptions, unitOfWorkId?: string) {
+    this.idField = options.idField ?? 'id';
+    this.modelOrder = options.modelOrder ?? [];
+    this.unitOfWorkId = unitOfWorkId;
+  }
+
+  /**
+   * Whether any change is waiting to be flushed.
+   */
+  get hasChanges(): boolean {
+    return [this.newEntities, this.dirtyEntities, this.deletedEntities].some((changes) =>
+      [...changes.values()].some((entities) => entities.size > 0)
+    );
+  }
+
+  /**
+   * Gets the tracked instance of an entity.
+   *
+   * @param model - Model delegate name
+   * @param id - Entity identifier
+   * @returns The tracked instance, or undefined
+   */
+  public find<T extends object>(model: string, id: unknown): T | undefined {
+    return this.identityMap.get(model)?.get(id) as T | undefined;
+  }
+
+  /**
+   * Adds a loaded entity to the identity map.
+   *
+   * @param model - Model delegate name
+   * @param entity - Entity loaded from the database
+   * @returns The instance already tracked for the id, or `entity`
+   */
+  public registerClean<T extends object>(model: string, entity: T): T {
+    const id = this.getId(model, entity);
+    const existing = this.find<T>(model, id);
+    if (existing) {
+      return existing;
+    }
+
+    if (this.isDeleted(model, id)) {
+      return entity;
+    }
+
+    this.getIdentities(model).set(id, entity);
+    return entity;
+  }
+
+  /**
+   * Registers an entity to insert.
+   *
+   * @param model - Model delegate name
+   * @param entity - New entity, including its identifier
+   * @throws {ChangeTrackingError} If the entity is tracked, deleted or has no id
+   */
+  public registerNew(model: string, entity: object): void {
+    const id = this.getId(model, entity);
+
+    if (this.isDeleted(model, id)) {
+      throw this.error(model, `Cannot register deleted ${model} '${String(id)}' as new`);
+    }
+    if (this.find(model, id)) {
+      throw this.error(model, `${model} '${String(id)}' is already tracked`);
+    }
+
+    this.getIdentities(model).set(id, entity);
+    this.getChanges(this.newEntities, model).add(entity);
+  }
+
+  /**
+   * Registers a tracked entity to update.
+   *
+   * @param model - Model delegate name
+   * @param entity - Modified entity
+   * @throws {ChangeTrackingError} If the entity is deleted or another instance is tracked
+   */
+  public registerDirty(model: string, entity: object): void {
+    const id = this.getId(model, entity);
+
+    if (this.isDeleted(model, id)) {
+      throw this.error(model, `Cannot register deleted ${model} '${String(id)}' as dirty`);
+    }
+
+    const tracked = this.registerClean(model, entity);
+    if (tracked !== entity) {
+      throw this.error(
+        model,
+        `Another instance of ${model} '${String(id)}' is already tracked; modify that instance instead`
+      );
+    }
+
+    if (!this.newEntities.get(model)?.has(entity)) {
+      this.getChanges(this.dirtyEntities, model).add(entity);
+    }
+  }
+
+  /**
+   * Registers an entity to delete.
+   *
+   * Deleting an entity registered as new cancels its insert.
+   *
+   * @param model - Model delegate name
+   * @param entity - Entity to delete
+   */
+  public registerDeleted(model: string, entity: object): void {
+    const id = this.getId(model, entity);
+    const tracked = this.find<object>(model, id) ?? entity;
+
+    this.identityMap.get(model)?.delete(id);
+    this.dirtyEntities.get(model)?.delete(tracked);
+
+    if (this.newEntities.get(model)?.delete(tracked)) {
+      return;
+    }
+
+    this.getChanges(this.deletedEntities, model).add(tracked);
+  }
+
+  /**
+   * Writes pending changes through the transaction client.
+   *
+   * @param client - The transaction client
+   * @returns Counts of written entities
+   */
+  public async flush(client: PrismaTransactionClient): Promise<ChangeSetSummary> {
+    const summary: ChangeSetSummary = { inserted: 0, updated: 0, deleted: 0 };
+    const models = this.getFlushOrder();
+
+    for (const model of models) {
+      const entities = [...(this.newEntities.get(model) ?? [])];
+      if (entities.length > 0) {
+        await this.getDelegate(client, model).createMany({
+          data: entities.map((entity) => ({ ...entity }) as Record<string, unknown>),
+        });
+        summary.inserted += entities.length;
+      }
+    }
+
+    for (const model of models) {
+      for (const entity of this.dirtyEntities.get(model) ?? []) {
+        const { [this.idField]: id, ...data } = entity as Record<string, unknown>;
+        await this.getDelegate(client, model).update({ where: { [this.idField]: id }, data });
+        summary.updated++;
+      }
+    }
+
+    for (const model of [...models].reverse()) {
+      const entities = [...(this.deletedEntities.get(model) ?? [])];
+      if (entities.length > 0) {
+        await this.getDelegate(client, model).deleteMany({
+          where: { [this.idField]: { in: entities.map((entity) => this.getId(model, entity)) } },
+        });
+        summary.deleted += entities.length;
+      }
+    }
+
+    this.clearChanges();
+    return summary;
+  }
+
+  /**
+   * Drops pending changes, keeping the identity map.
+   */
+  public clearChanges(): void {
+    this.newEntities.clear();
+    this.dirtyEntities.clear();
+    this.deletedEntities.clear();
+  }
+
+  /**
+   * Drops pending changes and the identity map.
+   */
+  public clear(): void {
+    this.clearChanges();
+    this.identityMap.clear();
+    this.registeredModels.clear();
+  }
+
+  /**
+   * Gets the models with changes in flush order.
+   * @private
+   */
+  private getFlushOrder(): string[] {
+    const ordered = this.modelOrder.filter((model) => this.registeredModels.has(model));
+    const rest = [...this.registeredModels].filter((model) => !this.modelOrder.includes(model));
+    return [...ordered, ...rest];
+  }
+
+  /**
+   * Checks whether an id is registered for deletion.
+   * @private
+   */
+  private isDeleted(model: string, id: unknown): boolean {
+    for (const entity of this.deletedEntities.get(model) ?? []) {
+      if ((entity as Record<string, unknown>)[this.idField] === id) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Reads the identifier of an entity.
+   * @private
+   */
+  private getId(model: string, entity: object): unknown {
+    const id = (entity as Record<string, unknown>)[this.idField];
+    if (id === undefined || id === null) {
+      throw this.error(
+        model,
+        `${model} entity has no '${this.idField}'; change tracking requires client-generated identifiers`
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Gets the identity map of a model.
+   * @private
+   */
+  private getIdentities(model: string): Map<unknown, object> {
+    let identities = this.identityMap.get(model);
+    if (!identities) {
+      identities = new Map();
+      this.identityMap.set(model, identities);
+    }
+    return identities;
+  }
+
+  /**
+   * Gets the pending changes of a model, recording the model's first registration.
+   * @private
+   */
+  private getChanges(changes: Map<string, Set<object>>, model: string): Set<object> {
+    this.registeredModels.add(model);
+
+    let entities = changes.get(model);
+    if (!entities) {
+      entities = new Set();
+      changes.set(model, entities);
+    }
+    return entities;
+  }
+
+  /**
+   * Gets a model delegate from the transaction client.
+   * @private
+   */
+  private getDelegate(client: PrismaTransactionClient, model: string): FlushDelegate {
+    const delegate = (client as unknown as Record<string, FlushDelegate | undefined>)[model];
+    if (!delegate) {
+      throw this.error(model, `Model '${model}' does not exist on the Prisma client`);
+    }
+    return delegate;
+  }
+
+  /**
+   * Creates a ChangeTrackingError for a model.
+   * @private
+   */
+  private error(model: string, message: string): ChangeTrackingError {
+    return new ChangeTrackingError(message, model, this.unitOfWorkId);
+  }
+}
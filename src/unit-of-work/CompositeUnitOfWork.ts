@@ -0,0 +1,615 @@
+/**
+ * @fileoverview CompositeUnitOfWork Implementation
+ * @description
+ * Unit of Work spanning several PrismaUnitOfWork instances, one per
+ * database. Repositories are routed to the member that registered them;
+ * commit is ordered best-effort or, optionally, two-phase.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  IUnitOfWork,
+  IContext,
+  StruktosContextData,
+  TransactionOptions,
+  TransactionResult,
+  TransactionState,
+} from '@struktos/core';
+
+import type { PrismaUnitOfWork } from './PrismaUnitOfWork';
+import type {
+  CompositeCommitReport,
+  CompositeMemberReport,
+  CompositeUnitOfWorkOptions,
+  RepositoryToken,
+} from '../types/prisma.types';
+import {
+  CompositeCommitError,
+  NoActiveTransactionError,
+  RepositoryNotRegisteredError,
+  UnitOfWorkDisposedError,
+} from '../errors/unit-of-work.errors';
+
+/**
+ * Internal transaction state enum (mirrors @struktos/core TransactionState)
+ * @internal
+ */
+const TransactionStateEnum = {
+  Inactive: 'INACTIVE',
+  Active: 'ACTIVE',
+  Committing: 'COMMITTING',
+  Committed: 'COMMITTED',
+  RolledBack: 'ROLLED_BACK',
+  Failed: 'FAILED',
+} as const;
+
+/**
+ * CompositeUnitOfWork - Coordinates a transaction on several databases.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @remarks
+ * Members are started, committed and rolled back in the order they are
+ * given. `getRepository()` returns the repository of the first member
+ * that registered the token.
+ *
+ * By default, members are committed one after another. When a member
+ * fails to commit, the remaining members are rolled back, while members
+ * committed before stay committed: the commit is best-effort, and the
+ * {@link CompositeCommitError} report tells which members need
+ * compensation.
+ *
+ * With `twoPhaseCommit`, every member is first prepared with
+ * `PREPARE TRANSACTION`; only when all are prepared are they committed
+ * with `COMMIT PREPARED`. A failure while preparing rolls every member
+ * back. A failure while committing a prepared member leaves it
+ * `IN_DOUBT`, to be resolved by `commitPrepared()` with the reported id.
+ *
+ * @example
+ * ```typescript
+ * const composite = new CompositeUnitOfWork({
+ *   orders: ordersFactory.createWithContext(ctx) as PrismaUnitOfWork,
+ *   billing: billingFactory.createWithContext(ctx) as PrismaUnitOfWork,
+ * });
+ *
+ * await composite.executeInTransaction(async (unitOfWork) => {
+ *   const order = await unitOfWork.getRepository<IOrderRepository>('OrderRepository').create(data);
+ *   await unitOfWork.getRepository<IInvoiceRepository>('InvoiceRepository').createFor(order);
+ * });
+ * ```
+ */
+export class CompositeUnitOfWork<TContext extends StruktosContextData = StruktosContextData>
+  implements IUnitOfWork<TContext>
+{
+  /**
+   * Unique identifier for this composite.
+   */
+  public readonly id: string;
+
+  /**
+   * Current transaction state.
+   * @private
+   */
+  private _state: TransactionState;
+
+  /**
+   * Associated request context.
+   * @private
+   */
+  private _context?: IContext<TContext>;
+
+  /**
+   * Members by name, in commit order.
+   * @private
+   */
+  private readonly members: Map<string, PrismaUnitOfWork<TContext>>;
+
+  /**
+   * Composite options.
+   * @private
+   */
+  private readonly options: CompositeUnitOfWorkOptions;
+
+  /**
+   * Start time of the current transaction.
+   * @private
+   */
+  private transactionStartTime = 0;
+
+  /**
+   * Whether the composite has been disposed.
+   * @private
+   */
+  private disposed = false;
+
+  /**
+   * Creates a new CompositeUnitOfWork instance.
+   *
+   * @param members - Unit of Work instances by name, in commit order
+   * @param options - Commit mode and logging
+   *
+   * @example
+   * ```typescript
+   * const composite = new CompositeUnitOfWork(
+   *   { orders: ordersUow, billing: billingUow },
+   *   { twoPhaseCommit: true }
+   * );
+   * ```
+   */
+  constructor(
+    members: Record<string, PrismaUnitOfWork<TContext>>,
+    options?: CompositeUnitOfWorkOptions
+  ) {
+    this.id = randomUUID();
+    this.members = new Map(Object.entries(members));
+    this.options = options ?? {};
+    this._state = TransactionStateEnum.Inactive as TransactionState;
+  }
+
+  /**
+   * Gets the current transaction state.
+   */
+  public get state(): TransactionState {
+    return this._state;
+  }
+
+  /**
+   * Gets the associated request context.
+   */
+  public get context(): IContext<TContext> | undefined {
+    return this._context;
+  }
+
+  /**
+   * Gets a member by name, e.g. to register hooks on one database.
+   *
+   * @param name - Member name
+   * @returns The member, or undefined if there is none with that name
+   */
+  public getMember(name: string): PrismaUnitOfWork<TContext> | undefined {
+    return this.members.get(name);
+  }
+
+  /**
+   * Starts a transaction on every member.
+   *
+   * @param options - Transaction options passed to every member
+   * @throws {UnitOfWorkDisposedError} If the composite is disposed
+   * @throws The error of the first member that fails to start; members
+   * started before are rolled back
+   */
+  public async start(options?: TransactionOptions): Promise<void> {
+    this.ensureNotDisposed('start');
+
+    const started: PrismaUnitOfWork<TContext>[] = [];
+    try {
+      for (const member of this.members.values()) {
+        await member.start(options);
+        started.push(member);
+      }
+    } catch (error) {
+      for (const member of started) {
+        await member.rollback().catch(() => undefined);
+      }
+      throw error;
+    }
+
+    this.transactionStartTime = Date.now();
+    this._state = TransactionStateEnum.Active as TransactionState;
+    this.log('info', 'Composite transaction started', {
+      unitOfWorkId: this.id,
+      members: [...this.members.keys()],
+      twoPhaseCommit: this.options.twoPhaseCommit ?? false,
+      traceId: this.getTraceId(),
+    });
+  }
+
+  /**
+   * Commits every member, in order or with two-phase commit.
+   *
+   * @returns Promise resolving to the transaction result
+   * @throws {NoActiveTransactionError} If no transaction is active
+   * @throws {CompositeCommitError} If any member did not commit
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await composite.commit();
+   * } catch (error) {
+   *   if (error instanceof CompositeCommitError) {
+   *     for (const member of error.report.members) {
+   *       console.log(member.name, member.outcome, member.error?.message);
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  public async commit(): Promise<TransactionResult> {
+    this.ensureNotDisposed('commit');
+    this.ensureActiveTransaction('commit');
+    this._state = TransactionStateEnum.Committing as TransactionState;
+
+    const members = this.options.twoPhaseCommit
+      ? await this.commitTwoPhase()
+      : await this.commitInOrder();
+    const report = CompositeUnitOfWork.createReport(members);
+    const duration = Date.now() - this.transactionStartTime;
+
+    if (!report.success) {
+      this._state = TransactionStateEnum.Failed as TransactionState;
+      this.log('error', 'Composite commit failed', {
+        unitOfWorkId: this.id,
+        committed: report.committed,
+        notCommitted: report.notCommitted,
+        partial: report.partial,
+        traceId: this.getTraceId(),
+      });
+      throw new CompositeCommitError(report, {
+        unitOfWorkId: this.id,
+        traceId: this.getTraceId(),
+      });
+    }
+
+    this._state = TransactionStateEnum.Committed as TransactionState;
+    this.log('info', 'Composite transaction committed', {
+      unitOfWorkId: this.id,
+      duration,
+      traceId: this.getTraceId(),
+    });
+
+    return { success: true, duration, traceId: this.getTraceId() };
+  }
+
+  /**
+   * Rolls back every member.
+   *
+   * @returns Promise resolving to the transaction result; `error` is set
+   * if a member failed to roll back
+   */
+  public async rollback(): Promise<TransactionResult> {
+    this.ensureNotDisposed('rollback');
+
+    if (this._state !== TransactionStateEnum.Active) {
+      return { success: true, duration: 0, traceId: this.getTraceId() };
+    }
+
+    const reports: CompositeMemberReport[] = [];
+    for (const [name, member] of this.members) {
+      reports.push(await this.rollbackMember(name, member));
+    }
+    this._state = TransactionStateEnum.RolledBack as TransactionState;
+
+    const error = reports.find((report) => report.error)?.error;
+    this.log(error ? 'warn' : 'info', 'Composite transaction rolled back', {
+      unitOfWorkId: this.id,
+      error: error?.message,
+      traceId: this.getTraceId(),
+    });
+
+    return {
+      success: !error,
+      duration: Date.now() - this.transactionStartTime,
+      error,
+      traceId: this.getTraceId(),
+    };
+  }
+
+  /**
+   * Gets a repository from the first member that registered the token.
+   *
+   * @template TRepository - The repository interface type
+   * @param token - Repository identifier
+   * @returns Repository bound to the member's transaction
+   * @throws {RepositoryNotRegisteredError} If no member registered the token
+   */
+  public getRepository<TRepository>(token: RepositoryToken<TRepository>): TRepository {
+    this.ensureNotDisposed('getRepository');
+
+    for (const member of this.members.values()) {
+      if (member.hasRepository(token)) {
+        return member.getRepository(token);
+      }
+    }
+
+    const key = typeof token === 'function' ? token.name || token.toString() : token;
+    throw new RepositoryNotRegisteredError(key, this.id, this.getTraceId());
+  }
+
+  /**
+   * Checks if any member registered a repository.
+   *
+   * @param token - Repository identifier
+   * @returns True if a member registered the repository
+   */
+  public hasRepository(token: RepositoryToken<unknown>): boolean {
+    return [...this.members.values()].some((member) => member.hasRepository(token));
+  }
+
+  /**
+   * Executes a callback in a transaction on every member.
+   *
+   * @template TResult - The callback result type
+   * @param callback - Function to execute within the transaction
+   * @param options - Transaction options passed to every member
+   * @returns Promise resolving to the callback result
+   * @throws {CompositeCommitError} If any member did not commit
+   */
+  public async executeInTransaction<TResult>(
+    callback: (unitOfWork: CompositeUnitOfWork<TContext>) => Promise<TResult>,
+    options?: TransactionOptions
+  ): Promise<TResult> {
+    await this.start(options);
+
+    try {
+      const result = await callback(this);
+      await this.commit();
+      return result;
+    } catch (error) {
+      if (this._state === TransactionStateEnum.Active) {
+        await this.rollback();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a savepoint on every member.
+   *
+   * @param name - Savepoint name
+   * @throws The error of the first member that fails; the savepoint is
+   * released again on the members before it
+   */
+  public async createSavepoint(name: string): Promise<void> {
+    this.ensureNotDisposed('createSavepoint');
+    this.ensureActiveTransaction('createSavepoint');
+
+    const created: PrismaUnitOfWork<TContext>[] = [];
+    try {
+      for (const member of this.members.values()) {
+        await member.createSavepoint(name);
+        created.push(member);
+      }
+    } catch (error) {
+      for (const member of created) {
+        await member.releaseSavepoint(name).catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rolls back to a savepoint on every member.
+   *
+   * @param name - Savepoint name
+   */
+  public async rollbackToSavepoint(name: string): Promise<void> {
+    this.ensureNotDisposed('rollbackToSavepoint');
+    this.ensureActiveTransaction('rollbackToSavepoint');
+
+    for (const member of this.members.values()) {
+      await member.rollbackToSavepoint(name);
+    }
+  }
+
+  /**
+   * Releases a savepoint on every member.
+   *
+   * @param name - Savepoint name
+   */
+  public async releaseSavepoint(name: string): Promise<void> {
+    this.ensureNotDisposed('releaseSavepoint');
+    this.ensureActiveTransaction('releaseSavepoint');
+
+    for (const member of this.members.values()) {
+      await member.releaseSavepoint(name);
+    }
+  }
+
+  /**
+   * Sets the request context on the composite and every member.
+   *
+   * @param context - Request context to associate
+   */
+  public setContext(context: IContext<TContext>): void {
+    this.ensureNotDisposed('setContext');
+    this._context = context;
+
+    for (const member of this.members.values()) {
+      member.setContext(context);
+    }
+  }
+
+  /**
+   * Rolls back an active transaction and disposes every member.
+   */
+  public async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+
+    if (this._state === TransactionStateEnum.Active) {
+      await this.rollback();
+    }
+    for (const member of this.members.values()) {
+      await member.dispose();
+    }
+    this.disposed = true;
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Commits the members one after another; after the first failure, the
+   * remaining members are rolled back.
+   * @private
+   */
+  private async commitInOrder(): Promise<CompositeMemberReport[]> {
+    const reports: CompositeMemberReport[] = [];
+    let failed = false;
+
+    for (const [name, member] of this.members) {
+      if (failed) {
+        reports.push(await this.rollbackMember(name, member));
+        continue;
+      }
+
+      try {
+        await member.commit();
+        reports.push({ name, unitOfWorkId: member.id, outcome: 'COMMITTED' });
+      } catch (error) {
+        failed = true;
+        reports.push(await this.rollbackMember(name, member, error));
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Prepares every member, then commits the prepared transactions, or
+   * rolls them back if any member could not be prepared.
+   * @private
+   */
+  private async commitTwoPhase(): Promise<CompositeMemberReport[]> {
+    const reports: CompositeMemberReport[] = [];
+    const prepared: Array<{ member: PrismaUnitOfWork<TContext>; report: CompositeMemberReport }> =
+      [];
+    let failed = false;
+    let index = 0;
+
+    for (const [name, member] of this.members) {
+      const transactionId = `${this.id}-${index++}`;
+      if (failed) {
+        reports.push(await this.rollbackMember(name, member));
+        continue;
+      }
+
+      try {
+        await member.prepare(transactionId);
+        const report: CompositeMemberReport = {
+          name,
+          unitOfWorkId: member.id,
+          outcome: 'IN_DOUBT',
+          transactionId,
+        };
+        reports.push(report);
+        prepared.push({ member, report });
+      } catch (error) {
+        failed = true;
+        reports.push(await this.rollbackMember(name, member, error));
+      }
+    }
+
+    for (const { member, report } of prepared) {
+      try {
+        if (failed) {
+          await member.rollbackPrepared(report.transactionId!);
+          report.outcome = 'ROLLED_BACK';
+        } else {
+          await member.commitPrepared(report.transactionId!);
+          report.outcome = 'COMMITTED';
+        }
+      } catch (error) {
+        report.error = toError(error);
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Rolls back a member, reporting `cause` or the rollback failure.
+   * @private
+   */
+  private async rollbackMember(
+    name: string,
+    member: PrismaUnitOfWork<TContext>,
+    cause?: unknown
+  ): Promise<CompositeMemberReport> {
+    const report: CompositeMemberReport = {
+      name,
+      unitOfWorkId: member.id,
+      outcome: 'ROLLED_BACK',
+      error: cause === undefined ? undefined : toError(cause),
+    };
+
+    try {
+      const result = await member.rollback();
+      report.error ??= result.error;
+    } catch (error) {
+      report.error ??= toError(error);
+    }
+    return report;
+  }
+
+  /**
+   * Summarizes the member outcomes.
+   * @private
+   */
+  private static createReport(members: CompositeMemberReport[]): CompositeCommitReport {
+    const committed = members.filter((member) => member.outcome === 'COMMITTED');
+    const notCommitted = members.filter((member) => member.outcome !== 'COMMITTED');
+
+    return {
+      success: notCommitted.length === 0,
+      partial: committed.length > 0 && notCommitted.length > 0,
+      committed: committed.map((member) => member.name),
+      notCommitted: notCommitted.map((member) => member.name),
+      members,
+    };
+  }
+
+  /**
+   * Ensures the composite is not disposed.
+   * @private
+   */
+  private ensureNotDisposed(operation: string): void {
+    if (this.disposed) {
+      throw new UnitOfWorkDisposedError(operation, this.id, this.getTraceId());
+    }
+  }
+
+  /**
+   * Ensures a transaction is active.
+   * @private
+   */
+  private ensureActiveTransaction(operation: string): void {
+    if (this._state !== TransactionStateEnum.Active) {
+      throw new NoActiveTransactionError(operation, this.id, this.getTraceId());
+    }
+  }
+
+  /**
+   * Gets the trace ID from the associated context.
+   * @private
+   */
+  private getTraceId(): string | undefined {
+    return this._context?.get('traceId' as keyof TContext) as string | undefined;
+  }
+
+  /**
+   * Logs a message if a logger is configured.
+   * @private
+   */
+  private log(
+    level: 'debug' | 'info' | 'warn' | 'error',
+    message: string,
+    meta?: Record<string, unknown>
+  ): void {
+    this.options.logger?.[level](message, meta);
+  }
+}
+
+/**
+ * Normalizes a thrown value to an Error.
+ * @internal
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
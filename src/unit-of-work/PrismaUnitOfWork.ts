@@ -30,14 +30,33 @@ import type {
 import type {
   PrismaTransactionClient,
   PrismaTransactionOptions,
+  PrismaDatabaseOptions,
+  SessionVariableMapper,
   PrismaIsolationLevel,
   RepositoryFactory,
   SavepointInfo,
+  SavepointOptions,
+  WithSavepointOptions,
   PrismaUnitOfWorkConfig,
   PrismaUnitOfWorkLogger,
+  TransactionInstrumentation,
+  TransactionScopeOptions,
+  TransactionRetryPolicy,
+  BeforeCommitHook,
+  AfterCommitHook,
+  AfterRollbackHook,
+  TransactionCompletionHook,
+  UnitOfWorkScope,
+  AggregateWithDomainEvents,
+  DomainEventDispatcher,
+  ChangeTrackingOptions,
+  AdvisoryLockKey,
+  AdvisoryLockOptions,
 } from '../types/prisma.types';
+import { TransactionPropagation, TransactionSpanName } from '../types/prisma.types';
 
 import {
+  PrismaUnitOfWorkError,
   TransactionError,
   TransactionAlreadyActiveError,
   NoActiveTransactionError,
@@ -45,9 +64,29 @@ import {
   SavepointError,
   SavepointNotFoundError,
   TransactionTimeoutError,
+  TransactionCancelledError,
+  TransactionRetryExhaustedError,
+  ReadOnlyTransactionViolationError,
   UnitOfWorkDisposedError,
+  ChangeTrackingError,
+  LockNotAvailableError,
+  LockTimeoutError,
+  StatementTimeoutError,
+  UnsupportedOperationError,
   ErrorCodes,
 } from '../errors/unit-of-work.errors';
+import { OutboxWriter } from '../outbox/OutboxWriter';
+import type { OutboxConfig } from '../outbox/outbox.types';
+import { ChangeTracker, type ChangeSetSummary } from './ChangeTracker';
+import { createReadOnlyClient } from './read-only-client';
+import { resolveRetryPolicy, computeRetryDelay } from './transaction-retry';
+import { acquireAdvisoryLock, executeStatement, queryStatement } from './raw-statements';
+import { isValidSavepointName } from './savepoint-names';
+import { ReadReplicaRouter } from './ReadReplicaRouter';
+import { isRunningWithoutTransaction, runWithAmbientTransaction } from './ambient-transaction';
+import { traceSpan, instrumentRepository } from './instrumentation';
+import type { SqlDialect, SqlStatement } from '../dialects/SqlDialect';
+import { resolveDialect } from '../dialects/resolve-dialect';
 
 /**
  * Internal transaction state enum (mirrors @struktos/core TransactionState)
@@ -75,6 +114,47 @@ const ISOLATION_LEVEL_MAP: Record<string, PrismaIsolationLevel> = {
   SNAPSHOT: 'Snapshot',
 };
 
+/**
+ * Global ids of prepared transactions: at most 200 characters (the
+ * PostgreSQL limit) without quotes or whitespace.
+ * @internal
+ */
+const PREPARED_TRANSACTION_ID_PATTERN = /^[A-Za-z0-9_.:-]{1,200}$/;
+
+/**
+ * Lifecycle hooks registered for the current transaction.
+ * @internal
+ */
+interface TransactionHooks {
+  beforeCommit: BeforeCommitHook[];
+  afterCommit: AfterCommitHook[];
+  afterRollback: AfterRollbackHook[];
+  completion: TransactionCompletionHook[];
+}
+
+/**
+ * Keeps the Prisma client of a Unit of Work in use, e.g. protects it from
+ * eviction by a client cache. Held from `useClientLease()` or the start of
+ * a transaction until the transaction ends or the Unit of Work is disposed.
+ * @internal
+ */
+export interface ClientLease {
+  acquire(): void;
+  release(): void;
+}
+
+/**
+ * Post-commit work of a prepared transaction, deferred until its outcome
+ * is known.
+ * @internal
+ */
+interface PreparedCompletion {
+  hooks: TransactionHooks;
+  domainEvents: unknown[];
+  readOnly: boolean;
+  result: TransactionResult;
+}
+
 /**
  * PrismaUnitOfWork - Prisma-based implementation of the Unit of Work pattern.
  *
@@ -160,7 +240,7 @@ const ISOLATION_LEVEL_MAP: Record<string, PrismaIsolationLevel> = {
  * ```
  */
 export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosContextData>
-  implements IUnitOfWork<TContext>
+  implements IUnitOfWork<TContext>, UnitOfWorkScope
 {
   /**
    * Unique identifier for this Unit of Work instance.
@@ -168,6 +248,11 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    */
   public readonly id: string;
 
+  /**
+   * SQL dialect used for savepoints, locks and session statements.
+   */
+  public readonly dialect: SqlDialect;
+
   /**
    * Current transaction state.
    * @private
@@ -205,10 +290,16 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
   private readonly repositoryCache: Map<string | symbol, unknown> = new Map();
 
   /**
-   * Active savepoints within the current transaction.
+   * Active savepoints within the current transaction, outermost first.
+   * @private
+   */
+  private readonly savepoints: SavepointInfo[] = [];
+
+  /**
+   * Sequence number of the last savepoint created.
    * @private
    */
-  private readonly savepoints: Map<string, SavepointInfo> = new Map();
+  private savepointSequence: number = 0;
 
   /**
    * Transaction start time for duration calculation.
@@ -238,8 +329,32 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * Configuration options.
    * @private
    */
-  private readonly config: Required<Omit<PrismaUnitOfWorkConfig, 'logger'>> & {
+  private readonly config: Required<
+    Omit<
+      PrismaUnitOfWorkConfig,
+      | 'logger'
+      | 'retry'
+      | 'outbox'
+      | 'domainEvents'
+      | 'changeTracking'
+      | 'dialect'
+      | 'defaultStatementTimeout'
+      | 'defaultLockTimeout'
+      | 'sessionVariables'
+      | 'readReplicas'
+      | 'instrumentation'
+    >
+  > & {
+    defaultStatementTimeout?: number;
+    defaultLockTimeout?: number;
+    sessionVariables?: SessionVariableMapper;
+    readReplicas?: ReadReplicaRouter;
     logger?: PrismaUnitOfWorkLogger;
+    retry?: TransactionRetryPolicy;
+    outbox?: OutboxConfig;
+    domainEvents?: DomainEventDispatcher;
+    changeTracking?: ChangeTrackingOptions;
+    instrumentation?: TransactionInstrumentation;
   };
 
   /**
@@ -254,6 +369,105 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    */
   private rollbackReject: ((reason: Error) => void) | null = null;
 
+  /**
+   * Settles once Prisma's `$transaction` promise has settled.
+   * Resolves to the failure cause, or `null` if the transaction committed.
+   * @private
+   */
+  private transactionCompletion: Promise<Error | null> | null = null;
+
+  /**
+   * Failure recorded when the transaction ended on its own
+   * (e.g. expired by Prisma) while it was still in use.
+   * @private
+   */
+  private transactionFailure: TransactionError | null = null;
+
+  /**
+   * Outbox writer bound to the current transaction client.
+   * @private
+   */
+  private outboxWriter: OutboxWriter | null = null;
+
+  /**
+   * Identity map and pending changes, when change tracking is enabled.
+   * @private
+   */
+  private changeTracker: ChangeTracker | null = null;
+
+  /**
+   * Statements restoring session settings before the transaction ends.
+   * @private
+   */
+  private sessionResets: SqlStatement[] = [];
+
+  /**
+   * Database-side timeouts of the current transaction.
+   * @private
+   */
+  private databaseTimeouts: PrismaDatabaseOptions = {};
+
+  /**
+   * Id and statement preparing the current transaction, set by `prepare()`.
+   * @private
+   */
+  private preparing: { transactionId: string; statement: SqlStatement } | null = null;
+
+  /**
+   * Deferred post-commit work of prepared transactions by global id.
+   * @private
+   */
+  private readonly preparedCompletions: Map<string, PreparedCompletion> = new Map();
+
+  /**
+   * Lease on the Prisma client, set by `useClientLease()`.
+   * @private
+   */
+  private clientLease: ClientLease | null = null;
+
+  /**
+   * Whether the client lease is currently held.
+   * @private
+   */
+  private clientLeaseHeld = false;
+
+  /**
+   * Aggregates touched in the current transaction, in registration order.
+   * @private
+   */
+  private readonly trackedAggregates: Set<AggregateWithDomainEvents> = new Set();
+
+  /**
+   * Domain events collected from tracked aggregates before the commit.
+   * @private
+   */
+  private collectedDomainEvents: unknown[] = [];
+
+  /**
+   * Lifecycle hooks registered for the current transaction.
+   * @private
+   */
+  private hooks: TransactionHooks = PrismaUnitOfWork.createHooks();
+
+  /**
+   * Incremented per transaction to ignore cancellation callbacks
+   * registered for earlier transactions.
+   * @private
+   */
+  private cancellationGeneration: number = 0;
+
+  /**
+   * Counter used to name savepoints created by withSavepoint().
+   * @private
+   */
+  private scopedSavepointCounter: number = 0;
+
+  /**
+   * Counter used to generate identifiers for labelled savepoints.
+   * @private
+   */
+  private labelSavepointCounter: number = 0;
+
   /**
    * Creates a new PrismaUnitOfWork instance.
    *
@@ -278,6 +492,7 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
   constructor(prisma: PrismaClient, config?: PrismaUnitOfWorkConfig) {
     this.id = randomUUID();
     this.prisma = prisma;
+    this.dialect = resolveDialect(prisma, config?.dialect);
     this._state = TransactionStateEnum.Inactive as TransactionState;
 
     // Apply defaults
@@ -286,7 +501,19 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
       defaultMaxWait: config?.defaultMaxWait ?? 5000,
       defaultIsolationLevel: config?.defaultIsolationLevel ?? ('READ_COMMITTED' as IsolationLevel),
       enableSavepoints: config?.enableSavepoints ?? true,
+      defaultStatementTimeout: config?.defaultStatementTimeout,
+      defaultLockTimeout: config?.defaultLockTimeout,
+      sessionVariables: config?.sessionVariables,
+      readReplicas:
+        config?.readReplicas instanceof ReadReplicaRouter
+          ? config.readReplicas
+          : config?.readReplicas && new ReadReplicaRouter(config.readReplicas),
+      retry: config?.retry,
+      outbox: config?.outbox,
+      domainEvents: config?.domainEvents,
+      changeTracking: config?.changeTracking,
       logger: config?.logger,
+      instrumentation: config?.instrumentation,
     };
 
     this.log('debug', 'PrismaUnitOfWork created', { id: this.id });
@@ -317,6 +544,34 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
     return this._context;
   }
 
+  /**
+   * Gets the innermost active savepoint.
+   *
+   * @returns The top of the savepoint stack, or undefined if there is none
+   */
+  public get currentSavepoint(): Readonly<SavepointInfo> | undefined {
+    const savepoint = this.savepoints[this.savepoints.length - 1];
+    return savepoint && { ...savepoint };
+  }
+
+  /**
+   * Lists the active savepoints of the current transaction.
+   *
+   * @returns Snapshots of the savepoint stack, outermost first
+   *
+   * @example
+   * ```typescript
+   * await uow.withSavepoint(async () => {
+   *   await uow.withSavepoint(async () => {
+   *     uow.getSavepoints().map((sp) => sp.depth); // [1, 2]
+   *   });
+   * });
+   * ```
+   */
+  public getSavepoints(): ReadonlyArray<Readonly<SavepointInfo>> {
+    return this.savepoints.map((savepoint) => ({ ...savepoint }));
+  }
+
   /**
    * Registers a repository factory with this Unit of Work.
    *
@@ -362,6 +617,7 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * @param options - Transaction configuration options
    * @returns Promise that resolves when the transaction is started
    * @throws {TransactionAlreadyActiveError} If a transaction is already active
+   * @throws {TransactionCancelledError} If the associated context is already cancelled
    * @throws {UnitOfWorkDisposedError} If the Unit of Work is disposed
    * @throws {TransactionError} If transaction start fails
    *
@@ -369,6 +625,12 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * This method uses Prisma's interactive transaction API internally.
    * The transaction remains open until commit() or rollback() is called.
    *
+   * With `readOnly: true`, the transaction is switched to read-only mode
+   * on the database and repositories obtained from this Unit of Work
+   * throw {@link ReadOnlyTransactionViolationError} on writes. With
+   * `readReplicas` configured, read-only transactions run on a replica
+   * unless the context is pinned to the primary after a recent write.
+   *
    * @example
    * ```typescript
    * // Start with defaults
@@ -383,33 +645,80 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * ```
    */
   public async start(options?: TransactionOptions): Promise<void> {
+    return this.traceSpan(TransactionSpanName.Start, options, () => this.beginTransaction(options));
+  }
+
+  /**
+   * Starts a transaction; see `start()`.
+   * @private
+   */
+  private async beginTransaction(options?: TransactionOptions): Promise<void> {
     this.ensureNotDisposed('start');
 
     if (this._state !== TransactionStateEnum.Inactive) {
       throw new TransactionAlreadyActiveError(this.id, this.getTraceId());
     }
 
+    if (this._context?.isCancelled()) {
+      throw new TransactionCancelledError(this.id, this.getTraceId());
+    }
+
+    const databaseTimeouts = this.resolveDatabaseTimeouts(options ?? {});
+    const sessionStatements = this.buildSessionStatements(databaseTimeouts);
+    const sessionVariables = this.buildSessionVariableStatements();
+
     this.currentOptions = options ?? {};
+    this.databaseTimeouts = databaseTimeouts;
+    this.transactionFailure = null;
     this.transactionStartTime = Date.now();
+    this.changeTracker = this.config.changeTracking
+      ? new ChangeTracker(this.config.changeTracking, this.id)
+      : null;
     this._state = TransactionStateEnum.Active as TransactionState;
+    this.holdClientLease();
 
     const prismaOptions = this.buildPrismaOptions(this.currentOptions);
+    const replica = this.currentOptions.readOnly
+      ? (this.config.readReplicas?.acquire(this._context) ?? null)
+      : null;
+    this.watchContextCancellation();
 
     this.log('info', 'Starting transaction', {
       unitOfWorkId: this.id,
       isolationLevel: prismaOptions.isolationLevel,
       timeout: prismaOptions.timeout,
+      readOnly: this.currentOptions.readOnly ?? false,
+      replica: replica?.index,
       traceId: this.getTraceId(),
     });
 
     // Create a promise that will be resolved by commit() or rejected by rollback()
     return new Promise<void>((resolve, reject) => {
-      // Start the interactive transaction
-      this.prisma
+      // Start the interactive transaction, on a replica for read-only transactions
+      this.transactionCompletion = (replica?.client ?? this.prisma)
         .$transaction(
           async (tx: PrismaTransactionClient) => {
             this.txClient = tx;
 
+            const readOnly = this.currentOptions?.readOnly
+              ? this.dialect.setTransactionReadOnly()
+              : null;
+            if (readOnly) {
+              await executeStatement(tx, readOnly);
+            }
+            for (const statement of sessionStatements.apply) {
+              await executeStatement(tx, statement);
+            }
+            this.sessionResets = sessionStatements.reset;
+            for (const statement of sessionVariables) {
+              await queryStatement(tx, statement);
+            }
+
+            // Cancelled while the transaction was being opened
+            if (this.transactionFailure) {
+              throw this.transactionFailure;
+            }
+
             // Wait for commit or rollback signal
             await new Promise<void>((commitResolve, rollbackReject) => {
               this.commitResolve = commitResolve;
@@ -429,6 +738,7 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
             duration: Date.now() - this.transactionStartTime,
             traceId: this.getTraceId(),
           });
+          return null;
         })
         .catch((error: Error) => {
           // Transaction failed or rolled back
@@ -439,7 +749,11 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
               duration: Date.now() - this.transactionStartTime,
               traceId: this.getTraceId(),
             });
+
+            // Only takes effect if the transaction was cancelled before it became ready
+            reject(this.transactionFailure ?? error);
           } else {
+            const wasCommitting = this._state === TransactionStateEnum.Committing;
             this._state = TransactionStateEnum.Failed as TransactionState;
             this.log('error', 'Transaction failed', {
               unitOfWorkId: this.id,
@@ -447,19 +761,25 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
               traceId: this.getTraceId(),
             });
 
-            // Check for timeout error
-            if (this.isTimeoutError(error)) {
-              reject(
-                new TransactionTimeoutError(
-                  prismaOptions.timeout ?? this.config.defaultTimeout,
-                  this.id,
-                  this.getTraceId(),
-                  error
-                )
+            // Commit failures are reported by commit() itself. Anything else
+            // happened while the caller was still using the transaction, so
+            // record it and stop handing out the dead transaction client.
+            if (!wasCommitting) {
+              this.transactionFailure = this.toTransactionFailure(
+                error,
+                prismaOptions.timeout ?? this.config.defaultTimeout
               );
+              this.txClient = null;
+              this.repositoryCache.clear();
+
+              // Only takes effect if the transaction never became ready
+              reject(this.transactionFailure);
             }
           }
-        });
+
+          return error;
+        })
+        .finally(() => replica?.release());
     });
   }
 
@@ -472,6 +792,7 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * @returns Promise resolving to the transaction result
    * @throws {NoActiveTransactionError} If no transaction is active
    * @throws {UnitOfWorkDisposedError} If the Unit of Work is disposed
+   * @throws {TransactionTimeoutError} If the transaction expired before commit
    * @throws {TransactionError} If commit fails
    *
    * @example
@@ -481,41 +802,130 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * ```
    */
   public async commit(): Promise<TransactionResult> {
+    return this.traceSpan(TransactionSpanName.Commit, this.currentOptions, () =>
+      this.commitTransaction()
+    );
+  }
+
+  /**
+   * Commits the transaction; see `commit()`.
+   * @private
+   */
+  private async commitTransaction(): Promise<TransactionResult> {
     this.ensureNotDisposed('commit');
     this.ensureActiveTransaction('commit');
 
-    this._state = TransactionStateEnum.Committing as TransactionState;
+    // Flushing, in-transaction event handlers and beforeCommit hooks may veto the commit by throwing
+    try {
+      await this.flushChanges();
+      await this.collectDomainEvents();
+      await this.flushChanges();
+      await this.runBeforeCommitHooks();
+    } catch (error) {
+      this.log('warn', 'Commit vetoed before commit, rolling back', {
+        unitOfWorkId: this.id,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: this.getTraceId(),
+      });
+      await this.rollback();
+      throw error;
+    }
 
-    const duration = Date.now() - this.transactionStartTime;
-    const result: TransactionResult = {
-      success: true,
-      duration,
-      traceId: this.getTraceId(),
-    };
+    await this.restoreSession();
 
-    try {
-      // Signal the transaction to complete successfully
-      if (this.commitResolve) {
-        this.commitResolve();
-        this.commitResolve = null;
-        this.rollbackReject = null;
+    // Two-phase commit: PREPARE TRANSACTION must be the last statement
+    const preparing = this.preparing;
+    if (preparing) {
+      try {
+        await executeStatement(this.txClient!, preparing.statement);
+      } catch (error) {
+        this.log('warn', 'Prepare failed, rolling back', {
+          unitOfWorkId: this.id,
+          error: error instanceof Error ? error.message : String(error),
+          traceId: this.getTraceId(),
+        });
+        await this.rollback();
+        throw new TransactionError('Failed to prepare transaction', ErrorCodes.TRANSACTION_COMMIT_FAILED, {
+          cause: error instanceof Error ? error : new Error(String(error)),
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+          state: this._state,
+        });
       }
+    }
 
-      this.clearTransactionState();
-      this.transactionResult = result;
+    this._state = TransactionStateEnum.Committing as TransactionState;
 
-      return result;
-    } catch (error) {
+    // Signal the transaction to complete successfully
+    this.commitResolve?.();
+    this.commitResolve = null;
+    this.rollbackReject = null;
+
+    // Wait for Prisma to report the outcome of the actual COMMIT
+    const failure = await this.transactionCompletion;
+    const duration = Date.now() - this.transactionStartTime;
+
+    const hooks = this.takeHooks();
+    const domainEvents = this.collectedDomainEvents;
+    const readOnly = this.currentOptions?.readOnly ?? false;
+    this.clearTransactionState();
+
+    if (failure) {
       this._state = TransactionStateEnum.Failed as TransactionState;
-      const txError = error instanceof Error ? error : new Error(String(error));
+      this.transactionResult = {
+        success: false,
+        duration,
+        error: failure,
+        traceId: this.getTraceId(),
+      };
+      await this.runCompletionHooks(hooks, 'ROLLED_BACK', this.transactionResult);
 
       throw new TransactionError('Failed to commit transaction', ErrorCodes.TRANSACTION_COMMIT_FAILED, {
-        cause: txError,
+        cause: failure,
         unitOfWorkId: this.id,
         traceId: this.getTraceId(),
         state: this._state,
       });
     }
+
+    const result: TransactionResult = {
+      success: true,
+      duration,
+      traceId: this.getTraceId(),
+    };
+    this.transactionResult = result;
+
+    if (preparing) {
+      // The outcome is decided by commitPrepared() or rollbackPrepared()
+      this.preparedCompletions.set(preparing.transactionId, {
+        hooks,
+        domainEvents,
+        readOnly,
+        result,
+      });
+      return result;
+    }
+
+    await this.completeCommit(hooks, domainEvents, readOnly, result);
+    return result;
+  }
+
+  /**
+   * Runs the post-commit work of a committed transaction.
+   * @private
+   */
+  private async completeCommit(
+    hooks: TransactionHooks,
+    domainEvents: unknown[],
+    readOnly: boolean,
+    result: TransactionResult
+  ): Promise<void> {
+    if (!readOnly) {
+      // Keep the context's reads on the primary until replicas caught up
+      this.config.readReplicas?.recordWrite(this._context);
+    }
+    await this.dispatchDomainEvents(domainEvents);
+    await this.runCompletionHooks(hooks, 'COMMITTED', result);
   }
 
   /**
@@ -540,6 +950,16 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * ```
    */
   public async rollback(): Promise<TransactionResult> {
+    return this.traceSpan(TransactionSpanName.Rollback, this.currentOptions, () =>
+      this.rollbackTransaction()
+    );
+  }
+
+  /**
+   * Rolls back the transaction; see `rollback()`.
+   * @private
+   */
+  private async rollbackTransaction(): Promise<TransactionResult> {
     this.ensureNotDisposed('rollback');
 
     // Allow rollback even if no active transaction (idempotent)
@@ -555,83 +975,415 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
       };
     }
 
+    // The transaction already ended on its own; Prisma has rolled it back
+    if (this._state === TransactionStateEnum.Failed) {
+      if (this.sessionResets.length > 0) {
+        // The connection went back to the pool with the transaction
+        this.log('warn', 'Session settings not restored after the transaction failed', {
+          unitOfWorkId: this.id,
+          resets: this.sessionResets.map((statement) => statement.sql),
+          traceId: this.getTraceId(),
+        });
+      }
+
+      const hooks = this.takeHooks();
+      this.clearTransactionState();
+
+      const failedResult: TransactionResult = {
+        success: false,
+        duration: Date.now() - this.transactionStartTime,
+        error: this.transactionFailure ?? undefined,
+        traceId: this.getTraceId(),
+      };
+      await this.runCompletionHooks(hooks, 'ROLLED_BACK', failedResult);
+
+      return failedResult;
+    }
+
+    await this.restoreSession();
     this._state = TransactionStateEnum.RollingBack as TransactionState;
 
+    // Signal the transaction to rollback by rejecting
+    this.rollbackReject?.(new Error('Transaction rolled back'));
+    this.rollbackReject = null;
+    this.commitResolve = null;
+
+    // Wait for Prisma to finish the actual ROLLBACK
+    await this.transactionCompletion;
+    if (this._state === TransactionStateEnum.RollingBack) {
+      this._state = TransactionStateEnum.RolledBack as TransactionState;
+    }
     const duration = Date.now() - this.transactionStartTime;
+
+    const hooks = this.takeHooks();
+    this.clearTransactionState();
+
     const result: TransactionResult = {
       success: true,
       duration,
       traceId: this.getTraceId(),
     };
+    this.transactionResult = result;
+    await this.runCompletionHooks(hooks, 'ROLLED_BACK', result);
 
-    try {
-      // Signal the transaction to rollback by rejecting
-      if (this.rollbackReject) {
-        this.rollbackReject(new Error('Transaction rolled back'));
-        this.rollbackReject = null;
-        this.commitResolve = null;
-      }
-
-      this.clearTransactionState();
-      this.transactionResult = result;
-
-      return result;
-    } catch (error) {
-      this._state = TransactionStateEnum.Failed as TransactionState;
-      const txError = error instanceof Error ? error : new Error(String(error));
-
-      return {
-        success: false,
-        duration,
-        error: txError,
-        traceId: this.getTraceId(),
-      };
-    }
+    return result;
   }
 
   /**
-   * Gets a repository instance within the current transaction scope.
+   * Ends the current transaction with the first phase of a two-phase commit.
    *
-   * Returns a repository that participates in the active transaction.
-   * All operations through this repository are part of the transaction.
+   * Runs the commit steps of `commit()` (flushing, before-commit hooks),
+   * then issues `PREPARE TRANSACTION` so that the changes survive on the
+   * database until `commitPrepared()` or `rollbackPrepared()` is called
+   * with the same id, possibly from another process.
    *
-   * @template TRepository - The repository interface type
-   * @param token - Repository identifier
-   * @returns Repository instance bound to the current transaction
+   * @param transactionId - Global transaction id, unique on the database server
+   * @returns Promise resolving to the transaction result
    * @throws {NoActiveTransactionError} If no transaction is active
-   * @throws {RepositoryNotRegisteredError} If repository is not registered
-   * @throws {UnitOfWorkDisposedError} If the Unit of Work is disposed
+   * @throws {UnsupportedOperationError} If the database has no prepared transactions
+   * @throws {TransactionError} If the id is invalid or preparing fails
+   *
+   * @remarks
+   * Requires `max_prepared_transactions > 0` on PostgreSQL. Prepared
+   * transactions hold their locks until resolved. After-commit hooks and
+   * domain events are deferred until `commitPrepared()` on this Unit of
+   * Work; `rollbackPrepared()` runs the after-rollback hooks instead.
    *
    * @example
    * ```typescript
-   * const userRepo = uow.getRepository<IUserRepository>('UserRepository');
-   * const user = await userRepo.findById(userId);
+   * await uow.prepare('order-42');
+   * await uow.commitPrepared('order-42');
    * ```
    */
-  public getRepository<TRepository>(token: RepositoryToken<TRepository>): TRepository {
-    this.ensureNotDisposed('getRepository');
-    this.ensureActiveTransaction('getRepository');
-
-    const key = this.normalizeToken(token);
+  public async prepare(transactionId: string): Promise<TransactionResult> {
+    this.ensureNotDisposed('prepare');
+    this.ensureActiveTransaction('prepare');
+
+    this.preparing = {
+      transactionId,
+      statement: this.buildPreparedTransactionStatement(transactionId, (id) =>
+        this.dialect.prepareTransaction(id)
+      ),
+    };
+    return this.commit();
+  }
 
-    // Check cache first
-    if (this.repositoryCache.has(key)) {
-      return this.repositoryCache.get(key) as TRepository;
-    }
+  /**
+   * Commits a transaction prepared by `prepare()`.
+   *
+   * @param transactionId - Global transaction id passed to `prepare()`
+   * @returns Promise that resolves when the prepared transaction is committed
+   * @throws {UnsupportedOperationError} If the database has no prepared transactions
+   * @throws {TransactionError} If the id is invalid or the commit fails
+   *
+   * @remarks
+   * Runs on the Prisma client outside any transaction, so it can also
+   * resolve transactions left prepared by a crashed process. Then records
+   * the write, dispatches domain events and runs the after-commit hooks
+   * that `prepare()` on this Unit of Work deferred.
+   */
+  public async commitPrepared(transactionId: string): Promise<void> {
+    this.ensureNotDisposed('commitPrepared');
+    const statement = this.buildPreparedTransactionStatement(transactionId, (id) =>
+      this.dialect.commitPrepared(id)
+    );
 
-    // Get factory
-    const factory = this.repositoryFactories.get(key) as RepositoryFactory<TRepository> | undefined;
-    if (!factory) {
-      throw new RepositoryNotRegisteredError(key, this.id, this.getTraceId());
+    try {
+      await executeStatement(this.prisma, statement);
+    } catch (error) {
+      throw new TransactionError(
+        `Failed to commit prepared transaction '${transactionId}'`,
+        ErrorCodes.TRANSACTION_COMMIT_FAILED,
+        {
+          cause: error instanceof Error ? error : new Error(String(error)),
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+        }
+      );
+    }
+    this.log('info', 'Prepared transaction committed', {
+      unitOfWorkId: this.id,
+      transactionId,
+      traceId: this.getTraceId(),
+    });
+
+    const completion = this.preparedCompletions.get(transactionId);
+    if (completion) {
+      this.preparedCompletions.delete(transactionId);
+      await this.completeCommit(
+        completion.hooks,
+        completion.domainEvents,
+        completion.readOnly,
+        completion.result
+      );
+    }
+  }
+
+  /**
+   * Rolls back a transaction prepared by `prepare()`.
+   *
+   * @param transactionId - Global transaction id passed to `prepare()`
+   * @returns Promise that resolves when the prepared transaction is rolled back
+   * @throws {UnsupportedOperationError} If the database has no prepared transactions
+   * @throws {TransactionError} If the id is invalid or the rollback fails
+   *
+   * @remarks
+   * Runs the after-rollback hooks of a transaction prepared by this Unit of
+   * Work; its deferred domain events are discarded.
+   */
+  public async rollbackPrepared(transactionId: string): Promise<void> {
+    this.ensureNotDisposed('rollbackPrepared');
+    const statement = this.buildPreparedTransactionStatement(transactionId, (id) =>
+      this.dialect.rollbackPrepared(id)
+    );
+
+    try {
+      await executeStatement(this.prisma, statement);
+    } catch (error) {
+      throw new TransactionError(
+        `Failed to roll back prepared transaction '${transactionId}'`,
+        ErrorCodes.TRANSACTION_ROLLBACK_FAILED,
+        {
+          cause: error instanceof Error ? error : new Error(String(error)),
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+        }
+      );
+    }
+    this.log('info', 'Prepared transaction rolled back', {
+      unitOfWorkId: this.id,
+      transactionId,
+      traceId: this.getTraceId(),
+    });
+
+    const completion = this.preparedCompletions.get(transactionId);
+    if (completion) {
+      this.preparedCompletions.delete(transactionId);
+      await this.runCompletionHooks(completion.hooks, 'ROLLED_BACK', completion.result);
+    }
+  }
+
+  /**
+   * Gets a repository instance within the current transaction scope.
+   *
+   * Returns a repository that participates in the active transaction.
+   * All operations through this repository are part of the transaction.
+   * In callbacks that `executeInTransaction()` runs without a transaction
+   * (`NEVER`, or `SUPPORTS` outside of one), returns a new repository on
+   * the root Prisma client instead.
+   *
+   * @template TRepository - The repository interface type
+   * @param token - Repository identifier
+   * @returns Repository instance bound to the current transaction
+   * @throws {NoActiveTransactionError} If no transaction is active
+   * @throws {RepositoryNotRegisteredError} If repository is not registered
+   * @throws {UnitOfWorkDisposedError} If the Unit of Work is disposed
+   * @throws {TransactionError} If the transaction failed after it was started
+   *
+   * @example
+   * ```typescript
+   * const userRepo = uow.getRepository<IUserRepository>('UserRepository');
+   * const user = await userRepo.findById(userId);
+   * ```
+   */
+  public getRepository<TRepository>(token: RepositoryToken<TRepository>): TRepository {
+    this.ensureNotDisposed('getRepository');
+    const key = this.normalizeToken(token);
+
+    // Not cached: the cache belongs to the next transaction
+    if (
+      this._state !== TransactionStateEnum.Active &&
+      isRunningWithoutTransaction(this.prisma)
+    ) {
+      return this.createRepository(key, this.getRepositoryFactory<TRepository>(key), this.prisma);
+    }
+
+    this.ensureActiveTransaction('getRepository');
+
+    // Check cache first
+    if (this.repositoryCache.has(key)) {
+      return this.repositoryCache.get(key) as TRepository;
     }
 
     // Create repository with transaction client
-    const repository = factory(this.txClient!);
+    const repository = this.createRepository(
+      key,
+      this.getRepositoryFactory<TRepository>(key),
+      this.getRepositoryClient()
+    );
     this.repositoryCache.set(key, repository);
 
     return repository;
   }
 
+  /**
+   * Registers an aggregate touched in the current transaction.
+   *
+   * When a `domainEvents` dispatcher is configured, pending events of all
+   * tracked aggregates are pulled before the commit, handed to
+   * `dispatchInTransaction` and dispatched after a successful commit.
+   * Events of a rolled-back transaction are pulled and discarded.
+   *
+   * @param aggregate - Aggregate exposing `pullDomainEvents()`
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * // In a repository created by the Unit of Work
+   * async save(order: Order): Promise<void> {
+   *   await this.model.update({ where: { id: order.id }, data: toRow(order) });
+   *   this.trackAggregate(order);
+   * }
+   * ```
+   */
+  public trackAggregate(aggregate: AggregateWithDomainEvents): void {
+    this.ensureNotDisposed('trackAggregate');
+    this.ensureActiveTransaction('trackAggregate');
+    this.trackedAggregates.add(aggregate);
+  }
+
+  /**
+   * Whether change tracking is enabled for this Unit of Work.
+   */
+  get isChangeTrackingEnabled(): boolean {
+    return this.config.changeTracking !== undefined;
+  }
+
+  /**
+   * Registers a new entity to insert on flush.
+   *
+   * @param model - Model delegate name (e.g. `user`)
+   * @param entity - New entity, including its client-generated identifier
+   * @throws {ChangeTrackingError} If change tracking is disabled or the entity is already tracked
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * const order = { id: randomUUID(), customerId, total: 0 };
+   * unitOfWork.registerNew('order', order);
+   * ```
+   */
+  public registerNew(model: string, entity: object): void {
+    this.getChangeTracker('registerNew').registerNew(model, entity);
+  }
+
+  /**
+   * Registers a modified entity to update on flush.
+   *
+   * @param model - Model delegate name
+   * @param entity - The tracked entity that was modified
+   * @throws {ChangeTrackingError} If change tracking is disabled or the entity is deleted
+   * @throws {NoActiveTransactionError} If no transaction is active
+   */
+  public registerDirty(model: string, entity: object): void {
+    this.getChangeTracker('registerDirty').registerDirty(model, entity);
+  }
+
+  /**
+   * Registers an entity to delete on flush.
+   *
+   * @param model - Model delegate name
+   * @param entity - Entity to delete
+   * @throws {ChangeTrackingError} If change tracking is disabled
+   * @throws {NoActiveTransactionError} If no transaction is active
+   */
+  public registerDeleted(model: string, entity: object): void {
+    this.getChangeTracker('registerDeleted').registerDeleted(model, entity);
+  }
+
+  /**
+   * Adds a loaded entity to the identity map.
+   *
+   * Without change tracking, the entity is returned unchanged.
+   *
+   * @param model - Model delegate name
+   * @param entity - Entity loaded from the database
+   * @returns The instance already tracked for the same id, or `entity`
+   * @throws {NoActiveTransactionError} If no transaction is active
+   */
+  public registerClean<T extends object>(model: string, entity: T): T {
+    this.ensureNotDisposed('registerClean');
+    this.ensureActiveTransaction('registerClean');
+    return this.changeTracker ? this.changeTracker.registerClean(model, entity) : entity;
+  }
+
+  /**
+   * Gets the tracked instance of an entity from the identity map.
+   *
+   * @param model - Model delegate name
+   * @param id - Entity identifier
+   * @returns The tracked instance, or undefined if not tracked or change tracking is disabled
+   * @throws {NoActiveTransactionError} If no transaction is active
+   */
+  public getTrackedEntity<T extends object>(model: string, id: unknown): T | undefined {
+    this.ensureNotDisposed('getTrackedEntity');
+    this.ensureActiveTransaction('getTrackedEntity');
+    return this.changeTracker?.find<T>(model, id);
+  }
+
+  /**
+   * Writes registered changes to the database without committing.
+   *
+   * Inserts and updates run in `modelOrder`, deletes in reverse order.
+   * Changes are flushed automatically on commit and before creating a savepoint.
+   *
+   * @returns Counts of inserted, updated and deleted entities
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * unitOfWork.registerNew('order', order);
+   * await unitOfWork.flush();
+   * // The order row now exists for raw queries within the transaction
+   * ```
+   */
+  public async flush(): Promise<ChangeSetSummary> {
+    this.ensureNotDisposed('flush');
+    this.ensureActiveTransaction('flush');
+    return this.flushChanges();
+  }
+
+  /**
+   * Gets the outbox writer for the active transaction.
+   *
+   * Messages written through it are inserted with the transaction client
+   * and committed atomically with the rest of the Unit of Work. The
+   * `traceId` of the request context is added to the message headers.
+   *
+   * @returns Outbox writer bound to the current transaction
+   * @throws {NoActiveTransactionError} If no transaction is active
+   * @throws {OutboxModelNotFoundError} If the Prisma client has no outbox model
+   *
+   * @example
+   * ```typescript
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   const order = await orderRepo.create(data);
+   *
+   *   await unitOfWork.getOutbox().add({
+   *     aggregateType: 'Order',
+   *     aggregateId: order.id,
+   *     type: 'OrderPlaced',
+   *     payload: { orderId: order.id },
+   *   });
+   * });
+   * ```
+   */
+  public getOutbox(): OutboxWriter {
+    this.ensureNotDisposed('getOutbox');
+    this.ensureActiveTransaction('getOutbox');
+
+    if (!this.outboxWriter) {
+      const traceId = this.getTraceId();
+      this.outboxWriter = new OutboxWriter(this.getRepositoryClient(), {
+        model: this.config.outbox?.model,
+        headers: traceId ? { traceId } : {},
+        unitOfWorkId: this.id,
+      });
+    }
+
+    return this.outboxWriter;
+  }
+
   /**
    * Checks if a repository is registered with this Unit of Work.
    *
@@ -657,11 +1409,26 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * Starts a transaction, executes the callback, and commits on success
    * or rolls back on failure.
    *
+   * When a transaction is already active, the `propagation` option decides
+   * whether the callback joins it, runs in a savepoint, or runs in a
+   * separate transaction.
+   *
+   * When a retry policy is configured, attempts aborted by serialization
+   * failures or deadlocks are re-run on a fresh transaction, so the
+   * callback must be safe to execute more than once.
+   *
+   * While the callback runs, the transaction is the ambient transaction of
+   * the Prisma client: repositories created from the root client join it.
+   *
    * @template TResult - Return type of the callback
    * @param callback - Function to execute within the transaction
    * @param options - Transaction configuration options
    * @returns Promise resolving to the callback result
    * @throws Rethrows any error from the callback after rollback
+   * @throws {NoActiveTransactionError} If propagation is `MANDATORY` and no transaction is active
+   * @throws {TransactionAlreadyActiveError} If propagation is `NEVER` and a transaction is active
+   * @throws {TransactionRetryExhaustedError} If every attempt allowed by the retry policy failed
+   * @throws {TransactionCancelledError} If the context is cancelled or `options.signal` is aborted
    *
    * @example
    * ```typescript
@@ -670,23 +1437,67 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    *   return userRepo.create({ name: 'John', email: 'john@example.com' });
    * });
    * ```
+   *
+   * @example Nested Boundaries
+   * ```typescript
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   await createUser(unitOfWork);
+   *
+   *   // Rolled back to a savepoint on failure, the user is kept
+   *   await unitOfWork.executeInTransaction(createWelcomeOrder, {
+   *     propagation: TransactionPropagation.Nested,
+   *   });
+   * });
+   * ```
    */
   public async executeInTransaction<TResult>(
-    callback: (unitOfWork: IUnitOfWork<TContext>) => Promise<TResult>,
-    options?: TransactionOptions
+    callback: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>,
+    options?: TransactionScopeOptions
   ): Promise<TResult> {
     this.ensureNotDisposed('executeInTransaction');
 
-    await this.start(options);
+    if (options?.signal?.aborted) {
+      throw this.toCancelledError(options.signal.reason);
+    }
 
-    try {
-      const result = await callback(this);
-      await this.commit();
-      return result;
-    } catch (error) {
-      await this.rollback();
-      throw error;
+    const propagation = options?.propagation ?? TransactionPropagation.Required;
+    const active = this._state === TransactionStateEnum.Active;
+
+    switch (propagation) {
+      case TransactionPropagation.Mandatory:
+        if (!active) {
+          throw new NoActiveTransactionError('executeInTransaction', this.id, this.getTraceId());
+        }
+        return this.runInAmbientTransaction(callback);
+
+      case TransactionPropagation.Never:
+        if (active) {
+          throw new TransactionAlreadyActiveError(this.id, this.getTraceId());
+        }
+        return this.runInAmbientTransaction(callback);
+
+      case TransactionPropagation.Supports:
+        return this.runInAmbientTransaction(callback);
+
+      case TransactionPropagation.RequiresNew:
+        if (active) {
+          return this.executeInNewTransaction(callback, options);
+        }
+        break;
+
+      case TransactionPropagation.Nested:
+        if (active) {
+          return this.executeInSavepoint(callback);
+        }
+        break;
+
+      default:
+        if (active) {
+          return this.runInAmbientTransaction(callback);
+        }
     }
+
+    return this.executeWithRetry(callback, options);
   }
 
   /**
@@ -696,12 +1507,19 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * enabling nested transaction-like behavior.
    *
    * @param name - Unique name for the savepoint
+   * @param options - Savepoint options
    * @throws {NoActiveTransactionError} If no transaction is active
-   * @throws {SavepointError} If savepoints are not enabled or creation fails
+   * @throws {SavepointError} If savepoints are not enabled, the name is invalid or creation fails
    *
    * @remarks
-   * Savepoint support depends on the database. PostgreSQL and MySQL
-   * support savepoints, while SQLite does not.
+   * Names must be identifiers of letters, digits and underscores, not
+   * starting with a digit and at most 32 characters long; other names are
+   * rejected with `INVALID_SAVEPOINT_NAME`. Pass `{ label: true }` to use any
+   * string instead, such as a name derived from user input: the savepoint is
+   * then created under a generated identifier.
+   *
+   * The savepoint SQL follows the configured dialect, e.g.
+   * `SAVE TRANSACTION` on SQL Server.
    *
    * @example
    * ```typescript
@@ -717,14 +1535,42 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * }
    *
    * await uow.commit();
+   *
+   * // Labels are mapped to a generated identifier
+   * await uow.createSavepoint(`import "${fileName}"`, { label: true });
    * ```
    */
-  public async createSavepoint(name: string): Promise<void> {
+  public async createSavepoint(name: string, options?: SavepointOptions): Promise<void> {
+    return this.traceSpan(
+      TransactionSpanName.SavepointCreate,
+      this.currentOptions,
+      () => this.pushSavepoint(name, options),
+      name
+    );
+  }
+
+  /**
+   * Creates a savepoint; see `createSavepoint()`.
+   * @private
+   */
+  private async pushSavepoint(name: string, options?: SavepointOptions): Promise<void> {
     this.ensureNotDisposed('createSavepoint');
     this.ensureActiveTransaction('createSavepoint');
     this.ensureSavepointsEnabled();
 
-    if (this.savepoints.has(name)) {
+    if (options?.label ? typeof name !== 'string' || name === '' : !isValidSavepointName(name)) {
+      throw new SavepointError(
+        `Invalid savepoint name '${name}'. Savepoint names must start with a letter or ` +
+          `underscore, contain only letters, digits and underscores, and be at most ` +
+          `32 characters long; pass { label: true } for other names.`,
+        ErrorCodes.INVALID_SAVEPOINT_NAME,
+        { unitOfWorkId: this.id, traceId: this.getTraceId(), savepointName: name }
+      );
+    }
+
+    // A plain name may also collide with the generated identifier of a label
+    const identifiers = this.savepoints.map((savepoint) => savepoint.identifier);
+    if (this.hasSavepoint(name) || (!options?.label && identifiers.includes(name))) {
       throw new SavepointError(
         `Savepoint '${name}' already exists`,
         ErrorCodes.SAVEPOINT_CREATE_FAILED,
@@ -732,12 +1578,21 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
       );
     }
 
+    // Pending changes belong before the savepoint
+    await this.flushChanges();
+
+    const identifier = options?.label ? this.generateSavepointIdentifier(identifiers) : name;
+
     try {
       // Execute raw SQL to create savepoint
-      await (this.txClient as any).$executeRawUnsafe(`SAVEPOINT "${name}"`);
+      await executeStatement(this.txClient!, this.dialect.createSavepoint(identifier));
 
-      this.savepoints.set(name, {
+      this.savepoints.push({
         name,
+        identifier,
+        sequence: ++this.savepointSequence,
+        depth: this.savepoints.length + 1,
+        parent: this.savepoints[this.savepoints.length - 1]?.name,
         createdAt: new Date(),
       });
 
@@ -775,27 +1630,40 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * ```
    */
   public async rollbackToSavepoint(name: string): Promise<void> {
+    return this.traceSpan(
+      TransactionSpanName.SavepointRollback,
+      this.currentOptions,
+      () => this.revertToSavepoint(name),
+      name
+    );
+  }
+
+  /**
+   * Rolls back to a savepoint; see `rollbackToSavepoint()`.
+   * @private
+   */
+  private async revertToSavepoint(name: string): Promise<void> {
     this.ensureNotDisposed('rollbackToSavepoint');
     this.ensureActiveTransaction('rollbackToSavepoint');
     this.ensureSavepointsEnabled();
 
-    if (!this.savepoints.has(name)) {
+    const index = this.findSavepointIndex(name);
+    if (index < 0) {
       throw new SavepointNotFoundError(name, this.id, this.getTraceId());
     }
 
     try {
-      await (this.txClient as any).$executeRawUnsafe(`ROLLBACK TO SAVEPOINT "${name}"`);
+      await executeStatement(
+        this.txClient!,
+        this.dialect.rollbackToSavepoint(this.savepoints[index].identifier)
+      );
 
-      // Remove savepoints created after this one
-      const savepointTime = this.savepoints.get(name)!.createdAt;
-      for (const [spName, spInfo] of this.savepoints) {
-        if (spInfo.createdAt > savepointTime) {
-          this.savepoints.delete(spName);
-        }
-      }
+      // Savepoints above this one no longer exist; this one stays active
+      this.savepoints.splice(index + 1);
 
-      // Clear repository cache as state may have changed
+      // Clear repository cache and tracked entities as state may have changed
       this.repositoryCache.clear();
+      this.changeTracker?.clear();
 
       this.log('debug', 'Rolled back to savepoint', {
         savepointName: name,
@@ -832,17 +1700,36 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * ```
    */
   public async releaseSavepoint(name: string): Promise<void> {
+    return this.traceSpan(
+      TransactionSpanName.SavepointRelease,
+      this.currentOptions,
+      () => this.dropSavepoint(name),
+      name
+    );
+  }
+
+  /**
+   * Releases a savepoint; see `releaseSavepoint()`.
+   * @private
+   */
+  private async dropSavepoint(name: string): Promise<void> {
     this.ensureNotDisposed('releaseSavepoint');
     this.ensureActiveTransaction('releaseSavepoint');
     this.ensureSavepointsEnabled();
 
-    if (!this.savepoints.has(name)) {
+    const index = this.findSavepointIndex(name);
+    if (index < 0) {
       throw new SavepointNotFoundError(name, this.id, this.getTraceId());
     }
 
     try {
-      await (this.txClient as any).$executeRawUnsafe(`RELEASE SAVEPOINT "${name}"`);
-      this.savepoints.delete(name);
+      // Databases without RELEASE keep the savepoint until the transaction ends
+      const release = this.dialect.releaseSavepoint(this.savepoints[index].identifier);
+      if (release) {
+        await executeStatement(this.txClient!, release);
+      }
+      // Releasing a savepoint also releases the savepoints above it
+      this.savepoints.splice(index);
 
       this.log('debug', 'Savepoint released', {
         savepointName: name,
@@ -864,53 +1751,297 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
   }
 
   /**
-   * Sets the request context for this Unit of Work.
+   * Runs a callback inside a savepoint of the active transaction.
    *
-   * Associates a request context with the transaction for
-   * tracing, logging, and cancellation support.
+   * The savepoint is released when the callback resolves. When it throws,
+   * the transaction is rolled back to the savepoint and the error rethrown,
+   * or swallowed with `swallowErrors`. Calls nest: an inner failure only
+   * undoes the work of the inner callback.
    *
-   * @param context - Request context to associate
+   * @param fn - Work to run inside the savepoint
+   * @param options - Savepoint name and error handling
+   * @returns The callback's result, or `undefined` if an error was swallowed
+   * @throws {NoActiveTransactionError} If no transaction is active
+   * @throws {SavepointError} If the savepoint cannot be created, released or rolled back to
    *
    * @example
    * ```typescript
-   * const ctx = RequestContext.current();
-   * uow.setContext(ctx);
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   const order = await createOrder(unitOfWork);
+   *
+   *   // A failed reservation keeps the order
+   *   await unitOfWork.withSavepoint(() => reserveStock(unitOfWork, order), {
+   *     swallowErrors: true,
+   *   });
+   * });
    * ```
    */
-  public setContext(context: IContext<TContext>): void {
-    this.ensureNotDisposed('setContext');
-    this._context = context;
+  public async withSavepoint<TResult>(
+    fn: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>,
+    options: WithSavepointOptions & { swallowErrors: true }
+  ): Promise<TResult | undefined>;
+  public async withSavepoint<TResult>(
+    fn: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>,
+    options?: WithSavepointOptions
+  ): Promise<TResult>;
+  public async withSavepoint<TResult>(
+    fn: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>,
+    options?: WithSavepointOptions
+  ): Promise<TResult | undefined> {
+    const name = options?.name ?? this.generateScopedSavepointName();
+    await this.createSavepoint(name, { label: options?.label });
+
+    let result: TResult;
+    try {
+      result = await this.runInAmbientTransaction(fn);
+    } catch (error) {
+      // The savepoint is gone if the callback rolled back to an outer one
+      if (this._state !== TransactionStateEnum.Active || !this.hasSavepoint(name)) {
+        throw error;
+      }
 
-    this.log('debug', 'Context set', {
-      unitOfWorkId: this.id,
-      traceId: context.get('traceId' as keyof TContext),
-    });
+      await this.rollbackToSavepoint(name);
+      await this.releaseSavepoint(name);
+      if (options?.swallowErrors) {
+        this.log('debug', 'Savepoint error swallowed', {
+          savepointName: name,
+          error: error instanceof Error ? error.message : String(error),
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+        });
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (this.hasSavepoint(name)) {
+      await this.releaseSavepoint(name);
+    }
+    return result;
   }
 
   /**
-   * Disposes of the Unit of Work and releases resources.
+   * Acquires an advisory lock held until the transaction ends.
    *
-   * If a transaction is active, it will be rolled back.
-   * After disposal, the Unit of Work cannot be reused.
+   * Advisory locks serialize work on a logical resource (a singleton job,
+   * a customer) without locking table rows. Taking the same lock twice in
+   * one transaction succeeds immediately.
    *
-   * @returns Promise that resolves when disposal is complete
+   * @param key - Lock key; strings are hashed into the provider's lock space
+   * @param options - Wait behaviour and timeout
+   * @returns Promise that resolves once the lock is held
+   * @throws {NoActiveTransactionError} If no transaction is active
+   * @throws {LockNotAvailableError} If the lock is held and `wait` is false
+   * @throws {LockTimeoutError} If the lock is not acquired within `timeout`
+   * @throws {UnsupportedOperationError} If the provider has no transaction-scoped advisory locks
+   *
+   * @remarks
+   * - PostgreSQL: `pg_advisory_xact_lock`, released by COMMIT or ROLLBACK.
+   * - SQL Server: `sp_getapplock` owned by the transaction.
+   * - MySQL is not supported: `GET_LOCK` belongs to the session and would
+   *   stay held on the pooled connection if Prisma expired the transaction.
    *
    * @example
    * ```typescript
-   * const uow = new PrismaUnitOfWork(prisma);
-   * try {
-   *   // ... operations
-   * } finally {
-   *   await uow.dispose();
-   * }
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   // One settlement run at a time, across all instances
+   *   await unitOfWork.acquireLock('jobs:settlement', { timeout: 5000 });
+   *   await runSettlement(unitOfWork);
+   * });
    * ```
    */
-  public async dispose(): Promise<void> {
-    if (this.disposed) {
+  public async acquireLock(key: AdvisoryLockKey, options?: AdvisoryLockOptions): Promise<void> {
+    const wait = options?.wait ?? true;
+    if (await this.takeAdvisoryLock('acquireLock', key, wait, options?.timeout)) {
       return;
     }
 
-    this.log('debug', 'Disposing Unit of Work', { unitOfWorkId: this.id });
+    const resource = String(key);
+    const errorOptions = { unitOfWorkId: this.id, traceId: this.getTraceId() };
+    throw wait
+      ? new LockTimeoutError(resource, options?.timeout ?? 0, errorOptions)
+      : new LockNotAvailableError(resource, undefined, errorOptions);
+  }
+
+  /**
+   * Acquires an advisory lock if it is free, without waiting.
+   *
+   * @param key - Lock key; strings are hashed into the provider's lock space
+   * @returns True if the lock is now held until the transaction ends
+   * @throws {NoActiveTransactionError} If no transaction is active
+   * @throws {UnsupportedOperationError} If the provider has no advisory locks
+   *
+   * @example
+   * ```typescript
+   * if (!(await unitOfWork.tryAcquireLock(`customer:${customerId}`))) {
+   *   return; // another worker is handling this customer
+   * }
+   * ```
+   */
+  public async tryAcquireLock(key: AdvisoryLockKey): Promise<boolean> {
+    return this.takeAdvisoryLock('tryAcquireLock', key, false);
+  }
+
+  /**
+   * Registers a hook that runs inside the transaction right before it commits.
+   *
+   * Hooks run in registration order against the live transaction client.
+   * Throwing from a hook vetoes the commit: the transaction is rolled back
+   * and the error is rethrown from `commit()`.
+   *
+   * @param hook - Hook receiving the transaction client
+   * @returns This Unit of Work instance for chaining
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   await transfer(unitOfWork);
+   *   unitOfWork.onBeforeCommit((tx) => assertLedgerBalanced(tx));
+   * });
+   * ```
+   */
+  public onBeforeCommit(hook: BeforeCommitHook): this {
+    this.ensureNotDisposed('onBeforeCommit');
+    this.ensureActiveTransaction('onBeforeCommit');
+    this.hooks.beforeCommit.push(hook);
+    return this;
+  }
+
+  /**
+   * Registers a hook that runs once the transaction has been durably committed.
+   *
+   * After-hooks run once, in registration order. Errors are logged and do
+   * not affect the outcome of the transaction or other hooks.
+   *
+   * @param hook - Hook receiving the transaction result
+   * @returns This Unit of Work instance for chaining
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * unitOfWork.onAfterCommit(() => cache.invalidate(`user:${user.id}`));
+   * ```
+   */
+  public onAfterCommit(hook: AfterCommitHook): this {
+    this.ensureNotDisposed('onAfterCommit');
+    this.ensureActiveTransaction('onAfterCommit');
+    this.hooks.afterCommit.push(hook);
+    return this;
+  }
+
+  /**
+   * Registers a hook that runs once the transaction has been rolled back,
+   * including rollbacks caused by a failed commit.
+   *
+   * @param hook - Hook receiving the rollback result
+   * @returns This Unit of Work instance for chaining
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * unitOfWork.onAfterRollback(() => storage.delete(uploadedFileKey));
+   * ```
+   */
+  public onAfterRollback(hook: AfterRollbackHook): this {
+    this.ensureNotDisposed('onAfterRollback');
+    this.ensureActiveTransaction('onAfterRollback');
+    this.hooks.afterRollback.push(hook);
+    return this;
+  }
+
+  /**
+   * Registers a hook that runs once the transaction has finished,
+   * after the afterCommit or afterRollback hooks.
+   *
+   * @param hook - Hook receiving the outcome and transaction result
+   * @returns This Unit of Work instance for chaining
+   * @throws {NoActiveTransactionError} If no transaction is active
+   *
+   * @example
+   * ```typescript
+   * unitOfWork.onCompletion((status, result) => {
+   *   metrics.record('transaction', { status, duration: result.duration });
+   * });
+   * ```
+   */
+  public onCompletion(hook: TransactionCompletionHook): this {
+    this.ensureNotDisposed('onCompletion');
+    this.ensureActiveTransaction('onCompletion');
+    this.hooks.completion.push(hook);
+    return this;
+  }
+
+  /**
+   * Holds a lease on the Prisma client from now until the current or next
+   * transaction ends, and again for every later transaction.
+   *
+   * @param lease - Lease of the client cache the client came from
+   *
+   * @internal
+   */
+  public useClientLease(lease: ClientLease): void {
+    this.ensureNotDisposed('useClientLease');
+    this.releaseClientLease();
+    this.clientLease = lease;
+    this.holdClientLease();
+  }
+
+  /**
+   * Sets the request context for this Unit of Work.
+   *
+   * Associates a request context with the transaction for
+   * tracing, logging, and cancellation support.
+   *
+   * While a transaction is active, cancelling the context rolls it back
+   * and makes later operations throw {@link TransactionCancelledError}.
+   *
+   * @param context - Request context to associate
+   *
+   * @example
+   * ```typescript
+   * const ctx = RequestContext.current();
+   * uow.setContext(ctx);
+   * ```
+   */
+  public setContext(context: IContext<TContext>): void {
+    this.ensureNotDisposed('setContext');
+    this._context = context;
+
+    if (this._state === TransactionStateEnum.Active) {
+      this.watchContextCancellation();
+    }
+
+    this.log('debug', 'Context set', {
+      unitOfWorkId: this.id,
+      traceId: context.get('traceId' as keyof TContext),
+    });
+  }
+
+  /**
+   * Disposes of the Unit of Work and releases resources.
+   *
+   * If a transaction is active, it will be rolled back.
+   * After disposal, the Unit of Work cannot be reused.
+   *
+   * @returns Promise that resolves when disposal is complete
+   *
+   * @example
+   * ```typescript
+   * const uow = new PrismaUnitOfWork(prisma);
+   * try {
+   *   // ... operations
+   * } finally {
+   *   await uow.dispose();
+   * }
+   * ```
+   */
+  public async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+
+    this.log('debug', 'Disposing Unit of Work', { unitOfWorkId: this.id });
 
     // Rollback if transaction is active
     if (
@@ -925,6 +2056,7 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
     }
 
     this.clearTransactionState();
+    this.hooks = PrismaUnitOfWork.createHooks();
     this.repositoryFactories.clear();
     this.disposed = true;
 
@@ -947,6 +2079,186 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
     return token.name || token.toString();
   }
 
+  /**
+   * Runs a callback in its own transaction, re-running it on a fresh
+   * transaction while the retry policy allows.
+   * @private
+   */
+  private async executeWithRetry<TResult>(
+    callback: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>,
+    options?: TransactionScopeOptions
+  ): Promise<TResult> {
+    const policy = resolveRetryPolicy(
+      options?.retry !== undefined ? options.retry : this.config.retry
+    );
+    const failures: Error[] = [];
+    const signal = options?.signal;
+    const onAbort = () => {
+      void this.cancelTransaction(this.toCancelledError(signal?.reason));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) {
+          throw this.toCancelledError(signal.reason);
+        }
+
+        await this.start(options);
+
+        try {
+          const result = await this.runInAmbientTransaction(callback);
+          await this.commit();
+          return result;
+        } catch (caught) {
+          const error = this.toDatabaseTimeoutError(caught);
+          await this.rollback();
+
+          if (!policy.isRetryable(error, attempt)) {
+            throw error;
+          }
+
+          failures.push(error instanceof Error ? error : new Error(String(error)));
+          if (attempt >= policy.maxAttempts) {
+            if (policy.maxAttempts === 1) {
+              throw error;
+            }
+            throw new TransactionRetryExhaustedError(failures, this.id, this.getTraceId());
+          }
+
+          const delay = computeRetryDelay(policy, attempt);
+          this.log('warn', 'Retrying transaction after retryable failure', {
+            unitOfWorkId: this.id,
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            delay,
+            error: failures[failures.length - 1].message,
+            traceId: this.getTraceId(),
+          });
+
+          this.resetTransaction();
+          if (delay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delay));
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Runs a callback in a separate transaction on a child Unit of Work
+   * sharing this instance's client, configuration, dialect, factories and
+   * context.
+   * @private
+   */
+  private async executeInNewTransaction<TResult>(
+    callback: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>,
+    options?: TransactionScopeOptions
+  ): Promise<TResult> {
+    const child = new PrismaUnitOfWork<TContext>(this.prisma, {
+      ...this.config,
+      dialect: this.dialect,
+    });
+
+    for (const [token, factory] of this.repositoryFactories) {
+      child.registerRepository(token, factory);
+    }
+    if (this._context) {
+      child.setContext(this._context);
+    }
+
+    this.log('debug', 'Suspending transaction for REQUIRES_NEW boundary', {
+      unitOfWorkId: this.id,
+      childUnitOfWorkId: child.id,
+      traceId: this.getTraceId(),
+    });
+
+    try {
+      return await child.executeInTransaction(callback, {
+        ...options,
+        propagation: TransactionPropagation.Required,
+      });
+    } finally {
+      await child.dispose();
+    }
+  }
+
+  /**
+   * Runs a callback inside an automatic savepoint of the active transaction.
+   * @private
+   */
+  private async executeInSavepoint<TResult>(
+    callback: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>
+  ): Promise<TResult> {
+    return this.withSavepoint(callback);
+  }
+
+  /**
+   * Runs a transaction callback with the transaction of this Unit of Work
+   * as the ambient transaction of its Prisma client, or with none when no
+   * transaction is active.
+   * @private
+   */
+  private runInAmbientTransaction<TResult>(
+    callback: (unitOfWork: PrismaUnitOfWork<TContext>) => Promise<TResult>
+  ): Promise<TResult> {
+    const transaction =
+      this._state === TransactionStateEnum.Active
+        ? { client: this.getRepositoryClient(), unitOfWork: this }
+        : null;
+
+    return runWithAmbientTransaction(this.prisma, transaction, () => callback(this));
+  }
+
+  /**
+   * Gets the registered factory of a repository.
+   * @private
+   */
+  private getRepositoryFactory<TRepository>(key: string | symbol): RepositoryFactory<TRepository> {
+    const factory = this.repositoryFactories.get(key) as RepositoryFactory<TRepository> | undefined;
+    if (!factory) {
+      throw new RepositoryNotRegisteredError(key, this.id, this.getTraceId());
+    }
+    return factory;
+  }
+
+  /**
+   * Creates a repository on a client, instrumented if configured.
+   * @private
+   */
+  private createRepository<TRepository>(
+    key: string | symbol,
+    factory: RepositoryFactory<TRepository>,
+    client: PrismaTransactionClient
+  ): TRepository {
+    const created = factory(client, this);
+    const instrumentation = this.config.instrumentation;
+    return instrumentation
+      ? instrumentRepository(created, instrumentation, () => ({
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+          repositoryToken: key.toString(),
+        }))
+      : created;
+  }
+
+  /**
+   * Returns the client handed to repository factories. In read-only
+   * transactions, write operations are rejected before reaching the database.
+   * @private
+   */
+  private getRepositoryClient(): PrismaTransactionClient {
+    if (!this.currentOptions?.readOnly) {
+      return this.txClient!;
+    }
+
+    return createReadOnlyClient(this.txClient!, (operation, model) => {
+      throw new ReadOnlyTransactionViolationError(operation, model, this.id, this.getTraceId());
+    });
+  }
+
   /**
    * Ensures the Unit of Work is not disposed.
    * @private
@@ -962,11 +2274,58 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
    * @private
    */
   private ensureActiveTransaction(operation: string): void {
+    if (this.transactionFailure) {
+      throw this.transactionFailure;
+    }
     if (this._state !== TransactionStateEnum.Active || !this.txClient) {
       throw new NoActiveTransactionError(operation, this.id, this.getTraceId());
     }
   }
 
+  /**
+   * Finds an active savepoint by name.
+   * @private
+   */
+  private findSavepointIndex(name: string): number {
+    return this.savepoints.findIndex((savepoint) => savepoint.name === name);
+  }
+
+  /**
+   * Checks whether a savepoint is active.
+   * @private
+   */
+  private hasSavepoint(name: string): boolean {
+    return this.findSavepointIndex(name) >= 0;
+  }
+
+  /**
+   * Generates a savepoint name not used by an active savepoint.
+   * @private
+   */
+  private generateScopedSavepointName(): string {
+    let name: string;
+    do {
+      name = `savepoint_${++this.scopedSavepointCounter}`;
+    } while (
+      this.savepoints.some(
+        (savepoint) => savepoint.name === name || savepoint.identifier === name
+      )
+    );
+    return name;
+  }
+
+  /**
+   * Generates a savepoint identifier not used by an active savepoint.
+   * @private
+   */
+  private generateSavepointIdentifier(used: readonly string[]): string {
+    let identifier: string;
+    do {
+      identifier = `label_${++this.labelSavepointCounter}`;
+    } while (used.includes(identifier));
+    return identifier;
+  }
+
   /**
    * Ensures savepoints are enabled.
    * @private
@@ -981,6 +2340,206 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
     }
   }
 
+  /**
+   * Takes an advisory lock on the transaction connection.
+   * @private
+   */
+  private async takeAdvisoryLock(
+    operation: string,
+    key: AdvisoryLockKey,
+    wait: boolean,
+    timeout?: number
+  ): Promise<boolean> {
+    this.ensureNotDisposed(operation);
+    this.ensureActiveTransaction(operation);
+
+    if (!this.dialect.acquireAdvisoryLock(key, 0)) {
+      throw new UnsupportedOperationError('advisory locks', this.dialect.provider, {
+        unitOfWorkId: this.id,
+        traceId: this.getTraceId(),
+      });
+    }
+
+    const acquired = await acquireAdvisoryLock(this.txClient!, this.dialect, key, wait, timeout);
+
+    this.log('debug', acquired ? 'Advisory lock acquired' : 'Advisory lock not acquired', {
+      key: String(key),
+      unitOfWorkId: this.id,
+      traceId: this.getTraceId(),
+    });
+
+    return acquired;
+  }
+
+  /**
+   * Restores session settings, which would otherwise outlive the
+   * transaction on the pooled connection.
+   * @private
+   */
+  private async restoreSession(): Promise<void> {
+    const resets = this.sessionResets;
+    this.sessionResets = [];
+
+    for (const statement of resets) {
+      try {
+        await executeStatement(this.txClient!, statement);
+      } catch (error) {
+        this.log('warn', 'Session setting reset failed', {
+          sql: statement.sql,
+          unitOfWorkId: this.id,
+          error: error instanceof Error ? error.message : String(error),
+          traceId: this.getTraceId(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Validates a prepared transaction id and builds the statement for it.
+   * @private
+   */
+  private buildPreparedTransactionStatement(
+    transactionId: string,
+    build: (transactionId: string) => SqlStatement | null
+  ): SqlStatement {
+    if (!PREPARED_TRANSACTION_ID_PATTERN.test(transactionId)) {
+      throw new TransactionError(
+        `Invalid prepared transaction id '${transactionId}'`,
+        ErrorCodes.INVALID_TRANSACTION_ID,
+        { unitOfWorkId: this.id, traceId: this.getTraceId() }
+      );
+    }
+
+    const statement = build(transactionId);
+    if (!statement) {
+      throw new UnsupportedOperationError('prepared transactions', this.dialect.provider, {
+        unitOfWorkId: this.id,
+        traceId: this.getTraceId(),
+      });
+    }
+    return statement;
+  }
+
+  /**
+   * Resolves the database-side timeouts of a transaction from its
+   * `databaseOptions` and the configured defaults.
+   * @private
+   */
+  private resolveDatabaseTimeouts(options: TransactionOptions): PrismaDatabaseOptions {
+    const databaseOptions = options.databaseOptions as PrismaDatabaseOptions | undefined;
+    return {
+      statementTimeout: databaseOptions?.statementTimeout ?? this.config.defaultStatementTimeout,
+      lockTimeout: databaseOptions?.lockTimeout ?? this.config.defaultLockTimeout,
+    };
+  }
+
+  /**
+   * Builds the statements applying database-side timeouts when the
+   * transaction opens, and those restoring the session before it ends.
+   * @private
+   */
+  private buildSessionStatements(timeouts: PrismaDatabaseOptions): {
+    apply: SqlStatement[];
+    reset: SqlStatement[];
+  } {
+    const apply: SqlStatement[] = [];
+    const reset: SqlStatement[] = [];
+    const settings = [
+      {
+        name: 'statement timeouts',
+        timeout: timeouts.statementTimeout,
+        set: (timeout: number) => this.dialect.setStatementTimeout(timeout),
+        reset: () => this.dialect.resetStatementTimeout(),
+      },
+      {
+        name: 'lock timeouts',
+        timeout: timeouts.lockTimeout,
+        set: (timeout: number) => this.dialect.setLockTimeout(timeout),
+        reset: () => this.dialect.resetLockTimeout(),
+      },
+    ];
+
+    for (const setting of settings) {
+      if (setting.timeout === undefined) {
+        continue;
+      }
+
+      const statement = setting.set(setting.timeout);
+      if (!statement) {
+        throw new UnsupportedOperationError(setting.name, this.dialect.provider, {
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+        });
+      }
+      apply.push(statement);
+
+      const restore = setting.reset();
+      if (restore) {
+        reset.push(restore);
+      }
+    }
+
+    return { apply, reset };
+  }
+
+  /**
+   * Builds the statements setting the configured session variables from
+   * the context's data. Unset values are skipped.
+   * @private
+   */
+  private buildSessionVariableStatements(): SqlStatement[] {
+    if (!this.config.sessionVariables) {
+      return [];
+    }
+
+    const data = (this._context?.getAll() ?? {}) as Parameters<SessionVariableMapper>[0];
+    const statements: SqlStatement[] = [];
+
+    for (const [name, value] of Object.entries(this.config.sessionVariables(data))) {
+      if (value === null || value === undefined) {
+        continue;
+      }
+
+      const statement = this.dialect.setSessionVariable(name, String(value));
+      if (!statement) {
+        throw new UnsupportedOperationError('session variables', this.dialect.provider, {
+          unitOfWorkId: this.id,
+          traceId: this.getTraceId(),
+        });
+      }
+      statements.push(statement);
+    }
+
+    return statements;
+  }
+
+  /**
+   * Maps a statement or lock timeout reported by the database to
+   * `StatementTimeoutError` / `LockTimeoutError`. Only applies when the
+   * transaction set that timeout; other errors are returned unchanged.
+   * @private
+   */
+  private toDatabaseTimeoutError(error: unknown): unknown {
+    if (error instanceof PrismaUnitOfWorkError) {
+      return error;
+    }
+
+    const { statementTimeout, lockTimeout } = this.databaseTimeouts;
+    const options = {
+      cause: error instanceof Error ? error : new Error(String(error)),
+      unitOfWorkId: this.id,
+      traceId: this.getTraceId(),
+    };
+
+    if (statementTimeout !== undefined && this.dialect.isStatementTimeoutError(error)) {
+      return new StatementTimeoutError(statementTimeout, options);
+    }
+    if (lockTimeout !== undefined && this.dialect.isLockTimeoutError(error)) {
+      return new LockTimeoutError('database lock', lockTimeout, options);
+    }
+    return error;
+  }
+
   /**
    * Builds Prisma transaction options from Struktos options.
    * @private
@@ -1008,10 +2567,280 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
   private clearTransactionState(): void {
     this.txClient = null;
     this.repositoryCache.clear();
-    this.savepoints.clear();
+    this.savepoints.length = 0;
     this.currentOptions = null;
     this.commitResolve = null;
     this.rollbackReject = null;
+    this.transactionCompletion = null;
+    this.outboxWriter = null;
+    this.changeTracker = null;
+    this.sessionResets = [];
+    this.databaseTimeouts = {};
+    this.preparing = null;
+    this.discardDomainEvents();
+    this.releaseClientLease();
+  }
+
+  /**
+   * Acquires the client lease unless it is already held.
+   * @private
+   */
+  private holdClientLease(): void {
+    if (this.clientLease && !this.clientLeaseHeld) {
+      this.clientLeaseHeld = true;
+      this.clientLease.acquire();
+    }
+  }
+
+  /**
+   * Releases the client lease if it is held.
+   * @private
+   */
+  private releaseClientLease(): void {
+    if (this.clientLease && this.clientLeaseHeld) {
+      this.clientLeaseHeld = false;
+      this.clientLease.release();
+    }
+  }
+
+  /**
+   * Subscribes to cancellation of the associated context for the
+   * transaction that is currently starting or active.
+   * @private
+   */
+  private watchContextCancellation(): void {
+    const context = this._context;
+    if (!context) {
+      return;
+    }
+
+    // IContext offers no way to unsubscribe, so stale callbacks are ignored
+    const generation = ++this.cancellationGeneration;
+    context.onCancel(() => {
+      if (generation === this.cancellationGeneration && context === this._context) {
+        void this.cancelTransaction(this.toCancelledError());
+      }
+    });
+  }
+
+  /**
+   * Rolls back the active transaction and records the cancellation so
+   * that later operations throw it.
+   * @private
+   */
+  private async cancelTransaction(error: TransactionCancelledError): Promise<void> {
+    if (this._state !== TransactionStateEnum.Active || this.transactionFailure) {
+      return;
+    }
+
+    this.transactionFailure = error;
+    this.log('warn', 'Transaction cancelled, rolling back', {
+      unitOfWorkId: this.id,
+      traceId: this.getTraceId(),
+    });
+
+    await this.rollback();
+  }
+
+  /**
+   * Creates a TransactionCancelledError from an abort reason.
+   * @private
+   */
+  private toCancelledError(reason?: unknown): TransactionCancelledError {
+    return new TransactionCancelledError(
+      this.id,
+      this.getTraceId(),
+      reason instanceof Error ? reason : undefined
+    );
+  }
+
+  /**
+   * Creates an empty hook registry.
+   * @private
+   */
+  private static createHooks(): TransactionHooks {
+    return { beforeCommit: [], afterCommit: [], afterRollback: [], completion: [] };
+  }
+
+  /**
+   * Detaches the hooks of the finishing transaction so they run only once.
+   * @private
+   */
+  private takeHooks(): TransactionHooks {
+    const hooks = this.hooks;
+    this.hooks = PrismaUnitOfWork.createHooks();
+    return hooks;
+  }
+
+  /**
+   * Gets the change tracker, requiring an active change-tracking transaction.
+   * @private
+   */
+  private getChangeTracker(operation: string): ChangeTracker {
+    this.ensureNotDisposed(operation);
+    this.ensureActiveTransaction(operation);
+
+    if (!this.changeTracker) {
+      throw new ChangeTrackingError(
+        `Cannot call '${operation}': change tracking is not enabled. ` +
+          `Enable it with the 'changeTracking' configuration option.`,
+        undefined,
+        this.id,
+        this.getTraceId()
+      );
+    }
+
+    return this.changeTracker;
+  }
+
+  /**
+   * Writes pending tracked changes, if any.
+   * @private
+   */
+  private async flushChanges(): Promise<ChangeSetSummary> {
+    if (!this.changeTracker?.hasChanges) {
+      return { inserted: 0, updated: 0, deleted: 0 };
+    }
+
+    const summary = await this.changeTracker.flush(this.getRepositoryClient());
+
+    this.log('debug', 'Changes flushed', {
+      unitOfWorkId: this.id,
+      ...summary,
+      traceId: this.getTraceId(),
+    });
+
+    return summary;
+  }
+
+  /**
+   * Pulls pending events from tracked aggregates and runs in-transaction
+   * handlers. Repeats until handlers raise no further events.
+   * @private
+   */
+  private async collectDomainEvents(): Promise<void> {
+    const dispatcher = this.config.domainEvents;
+    if (!dispatcher) {
+      return;
+    }
+
+    let events = this.pullDomainEvents();
+    while (events.length > 0) {
+      this.collectedDomainEvents.push(...events);
+      await dispatcher.dispatchInTransaction?.(events, this.txClient!);
+      events = this.pullDomainEvents();
+    }
+  }
+
+  /**
+   * Pulls pending events from all tracked aggregates in registration order.
+   * @private
+   */
+  private pullDomainEvents(): unknown[] {
+    const events: unknown[] = [];
+    for (const aggregate of this.trackedAggregates) {
+      events.push(...aggregate.pullDomainEvents());
+    }
+    return events;
+  }
+
+  /**
+   * Drops the events of a finished transaction so they never leave the process.
+   * @private
+   */
+  private discardDomainEvents(): void {
+    if (this.config.domainEvents) {
+      this.pullDomainEvents();
+    }
+    this.trackedAggregates.clear();
+    this.collectedDomainEvents = [];
+  }
+
+  /**
+   * Dispatches the events of a committed transaction, logging dispatcher errors.
+   * @private
+   */
+  private async dispatchDomainEvents(events: unknown[]): Promise<void> {
+    if (!this.config.domainEvents || events.length === 0) {
+      return;
+    }
+
+    try {
+      await this.config.domainEvents.dispatch(events);
+    } catch (error) {
+      this.log('error', 'Domain event dispatch failed', {
+        unitOfWorkId: this.id,
+        eventCount: events.length,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: this.getTraceId(),
+      });
+    }
+  }
+
+  /**
+   * Runs beforeCommit hooks in order, including hooks registered by
+   * earlier hooks. The first error aborts the loop.
+   * @private
+   */
+  private async runBeforeCommitHooks(): Promise<void> {
+    const hooks = this.hooks.beforeCommit;
+    for (let i = 0; i < hooks.length; i++) {
+      await hooks[i](this.txClient!);
+    }
+  }
+
+  /**
+   * Runs the after-hooks for a finished transaction followed by the
+   * completion hooks, isolating and logging errors.
+   * @private
+   */
+  private async runCompletionHooks(
+    hooks: TransactionHooks,
+    status: 'COMMITTED' | 'ROLLED_BACK',
+    result: TransactionResult
+  ): Promise<void> {
+    const afterHooks = status === 'COMMITTED' ? hooks.afterCommit : hooks.afterRollback;
+    const hookName = status === 'COMMITTED' ? 'afterCommit' : 'afterRollback';
+
+    for (const hook of afterHooks) {
+      await this.runIsolatedHook(hookName, () => hook(result));
+    }
+    for (const hook of hooks.completion) {
+      await this.runIsolatedHook('completion', () => hook(status, result));
+    }
+  }
+
+  /**
+   * Runs a single after-hook, logging instead of propagating its error.
+   * @private
+   */
+  private async runIsolatedHook(
+    hookName: string,
+    run: () => void | Promise<void>
+  ): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      this.log('error', 'Transaction hook failed', {
+        unitOfWorkId: this.id,
+        hook: hookName,
+        error: error instanceof Error ? error.message : String(error),
+        traceId: this.getTraceId(),
+      });
+    }
+  }
+
+  /**
+   * Returns a finished Unit of Work to the inactive state so that a
+   * fresh transaction can be started on it.
+   * @private
+   */
+  private resetTransaction(): void {
+    this.clearTransactionState();
+    this.transactionFailure = null;
+    this.transactionResult = null;
+    this.hooks = PrismaUnitOfWork.createHooks();
+    this._state = TransactionStateEnum.Inactive as TransactionState;
   }
 
   /**
@@ -1022,6 +2851,27 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
     return this._context?.get('traceId' as keyof TContext) as string | undefined;
   }
 
+  /**
+   * Wraps an asynchronous transaction failure in the matching error class.
+   * @private
+   */
+  private toTransactionFailure(error: Error, timeoutMs: number): TransactionError {
+    if (this.isTimeoutError(error)) {
+      return new TransactionTimeoutError(timeoutMs, this.id, this.getTraceId(), error);
+    }
+
+    return new TransactionError(
+      `Transaction failed: ${error.message}`,
+      ErrorCodes.TRANSACTION_ERROR,
+      {
+        cause: error,
+        unitOfWorkId: this.id,
+        traceId: this.getTraceId(),
+        state: this._state,
+      }
+    );
+  }
+
   /**
    * Checks if an error is a timeout error.
    * @private
@@ -1034,6 +2884,31 @@ export class PrismaUnitOfWork<TContext extends StruktosContextData = StruktosCon
     );
   }
 
+  /**
+   * Runs a Unit of Work operation inside a span of the configured
+   * instrumentation.
+   * @private
+   */
+  private traceSpan<TResult>(
+    name: TransactionSpanName,
+    options: TransactionOptions | null | undefined,
+    operation: () => Promise<TResult>,
+    savepointName?: string
+  ): Promise<TResult> {
+    return traceSpan(
+      this.config.instrumentation,
+      name,
+      () => ({
+        unitOfWorkId: this.id,
+        traceId: this.getTraceId(),
+        isolationLevel: options?.isolationLevel ?? this.config.defaultIsolationLevel,
+        readOnly: options?.readOnly ?? false,
+        savepointName,
+      }),
+      operation
+    );
+  }
+
   /**
    * Logs a message using the configured logger.
    * @private
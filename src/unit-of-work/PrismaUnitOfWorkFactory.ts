@@ -19,6 +19,7 @@ import type {
 } from '@struktos/core';
 
 import { PrismaUnitOfWork } from './PrismaUnitOfWork';
+import { ReadReplicaRouter } from './ReadReplicaRouter';
 import type {
   PrismaUnitOfWorkConfig,
   RepositoryFactory,
@@ -85,6 +86,23 @@ import type {
  * }
  * ```
  *
+ * @example With Read Replicas
+ * ```typescript
+ * const factory = new PrismaUnitOfWorkFactory(primary, {
+ *   readReplicas: {
+ *     replicas: [replicaA, replicaB],
+ *     strategy: ReplicaSelectionStrategy.LeastInFlight,
+ *     readYourWritesWindow: 2000,
+ *   },
+ * });
+ *
+ * // Read-only transactions run on a replica, all others on the primary
+ * await factory.createWithContext(ctx).executeInTransaction(listOrders, { readOnly: true });
+ *
+ * // Outside transactions, model reads go to a replica
+ * const orders = new PrismaOrderRepository(factory.getRoutingClient(ctx));
+ * ```
+ *
  * @example With Request Context
  * ```typescript
  * // In your middleware
@@ -114,6 +132,12 @@ export class PrismaUnitOfWorkFactory<TContext extends StruktosContextData = Stru
    */
   private readonly config: PrismaUnitOfWorkConfig;
 
+  /**
+   * Replica router shared by all Unit of Work instances, if replicas are configured.
+   * @private
+   */
+  private readonly replicaRouter: ReadReplicaRouter | null;
+
   /**
    * Shared repository factories for all Unit of Work instances.
    * @private
@@ -138,7 +162,22 @@ export class PrismaUnitOfWorkFactory<TContext extends StruktosContextData = Stru
    */
   constructor(prisma: PrismaClient, config?: PrismaUnitOfWorkConfig) {
     this.prisma = prisma;
-    this.config = config ?? {};
+
+    const readReplicas = config?.readReplicas;
+    this.replicaRouter =
+      readReplicas instanceof ReadReplicaRouter
+        ? readReplicas
+        : readReplicas
+          ? new ReadReplicaRouter(readReplicas)
+          : null;
+    this.config = { ...config, readReplicas: this.replicaRouter ?? undefined };
+  }
+
+  /**
+   * Prisma client the Unit of Work instances are created with.
+   */
+  public get client(): PrismaClient {
+    return this.prisma;
   }
 
   /**
@@ -196,6 +235,27 @@ export class PrismaUnitOfWorkFactory<TContext extends StruktosContextData = Stru
     return unitOfWork;
   }
 
+  /**
+   * Gets a client for work outside a transaction.
+   *
+   * With read replicas configured, model reads go to a replica and all
+   * other operations to the primary; reads of a context pinned after a
+   * recent write stay on the primary. Without replicas, this is the
+   * primary client.
+   *
+   * @param context - Request context used for read-your-writes pinning
+   * @returns A client with the API of the primary client
+   *
+   * @example
+   * ```typescript
+   * const users = new PrismaUserRepository(factory.getRoutingClient(ctx));
+   * const active = await users.findMany({ where: { active: true } }); // replica
+   * ```
+   */
+  public getRoutingClient(context?: IContext<TContext>): PrismaClient {
+    return this.replicaRouter ? this.replicaRouter.createClient(this.prisma, context) : this.prisma;
+  }
+
   /**
    * Registers a repository factory with this factory.
    *
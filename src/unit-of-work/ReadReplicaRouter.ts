@@ -0,0 +1,381 @@
+/**
+ * @fileoverview ReadReplicaRouter Implementation
+ * @description
+ * Routes reads to read replicas. Picks a replica per read, tracks reads in
+ * flight per replica and pins contexts to the primary for a while after
+ * they committed a write, so that they read their own writes.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { IContext, StruktosContextData } from '@struktos/core';
+
+import {
+  ReplicaSelectionStrategy,
+  type ReadReplicaOptions,
+} from '../types/prisma.types';
+import { registerWrappedClient } from './ambient-transaction';
+
+/**
+ * Model delegate methods that only read data.
+ * @internal
+ */
+const MODEL_READ_METHODS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+]);
+
+/**
+ * Raw client methods that write data.
+ * @internal
+ */
+const RAW_WRITE_METHODS = new Set(['$executeRaw', '$executeRawUnsafe']);
+
+/**
+ * A replica reserved for a read. `release()` must be called once the read
+ * is done.
+ * @internal
+ */
+export interface ReplicaLease {
+  client: PrismaClient;
+  index: number;
+  release(): void;
+}
+
+/**
+ * ReadReplicaRouter - Chooses read replicas and tracks read-your-writes pins.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @remarks
+ * A PrismaUnitOfWork configured with a router runs read-only transactions
+ * on a replica. Outside transactions, `createClient()` returns a client that
+ * sends model reads (`findMany`, `count`, ...) to a replica and everything
+ * else, including raw queries, to the primary.
+ *
+ * Reads of a context that is pinned after a write go to the primary.
+ *
+ * @example
+ * ```typescript
+ * const router = new ReadReplicaRouter({
+ *   replicas: [replicaA, replicaB],
+ *   strategy: ReplicaSelectionStrategy.LeastInFlight,
+ *   readYourWritesWindow: 2000,
+ * });
+ *
+ * const uow = new PrismaUnitOfWork(primary, { readReplicas: router });
+ * const users = new PrismaUserRepository(router.createClient(primary, ctx));
+ * ```
+ */
+export class ReadReplicaRouter<TContext extends StruktosContextData = StruktosContextData> {
+  /**
+   * Replica clients.
+   * @private
+   */
+  private readonly replicas: PrismaClient[];
+
+  /**
+   * Replica selection strategy.
+   * @private
+   */
+  private readonly strategy: ReplicaSelectionStrategy;
+
+  /**
+   * Pin duration after a write in milliseconds; 0 disables pinning.
+   * @private
+   */
+  private readonly readYourWritesWindow: number;
+
+  /**
+   * Resolves the pin key of a context.
+   * @private
+   */
+  private readonly resolvePinKey: (context: IContext<TContext>) => string | undefined;
+
+  /**
+   * Reads in flight per replica.
+   * @private
+   */
+  private readonly inFlight: number[];
+
+  /**
+   * Pin expiry times by key, earliest first.
+   * @private
+   */
+  private readonly pins: Map<string, number> = new Map();
+
+  /**
+   * Index of the next replica in turn.
+   * @private
+   */
+  private cursor = 0;
+
+  /**
+   * Creates a new ReadReplicaRouter instance.
+   *
+   * @param options - Replica clients, selection strategy and pinning
+   */
+  constructor(options: ReadReplicaOptions<TContext>) {
+    this.replicas = [...options.replicas];
+    this.strategy = options.strategy ?? ReplicaSelectionStrategy.RoundRobin;
+    this.readYourWritesWindow = Math.max(0, options.readYourWritesWindow ?? 0);
+    this.resolvePinKey =
+      options.resolvePinKey ??
+      ((context) => context.get('userId' as keyof TContext) as string | undefined);
+    this.inFlight = this.replicas.map(() => 0);
+  }
+
+  /**
+   * Number of replicas.
+   */
+  public get replicaCount(): number {
+    return this.replicas.length;
+  }
+
+  /**
+   * Checks whether reads of a context are pinned to the primary.
+   *
+   * @param context - Request context
+   * @returns True if the context committed a write within the window
+   */
+  public isPinned(context?: IContext<TContext>): boolean {
+    const key = this.getPinKey(context);
+    if (key === undefined) {
+      return false;
+    }
+
+    const expiresAt = this.pins.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (expiresAt <= Date.now()) {
+      this.pins.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Pins the reads of a context to the primary for the read-your-writes
+   * window. Called by PrismaUnitOfWork after committing a write transaction.
+   *
+   * @param context - Request context that committed a write
+   */
+  public recordWrite(context?: IContext<TContext>): void {
+    const key = this.getPinKey(context);
+    if (key === undefined || this.readYourWritesWindow <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    this.prunePins(now);
+
+    // Re-insert to keep the map ordered by expiry
+    this.pins.delete(key);
+    this.pins.set(key, now + this.readYourWritesWindow);
+  }
+
+  /**
+   * Creates a client for work outside a transaction: model reads go to a
+   * replica, everything else goes to the primary.
+   *
+   * @param primary - Primary Prisma client
+   * @param context - Request context used for read-your-writes pinning
+   * @returns A client with the API of the primary client
+   *
+   * @remarks
+   * Writes pin the context for the read-your-writes window once they
+   * succeed. Replica reads and writes return plain promises instead of
+   * Prisma promises, so they cannot be passed to a batch `$transaction([...])`.
+   *
+   * The client shares the ambient transactions of the primary: repositories
+   * created from it join a running `executeInTransaction()` callback and
+   * neither write outside the transaction nor read from a replica.
+   *
+   * @example
+   * ```typescript
+   * const users = new PrismaUserRepository(router.createClient(prisma, ctx));
+   * await users.findMany(); // replica
+   * await users.create({ name: 'Ada' }); // primary
+   * ```
+   */
+  public createClient(primary: PrismaClient, context?: IContext<TContext>): PrismaClient {
+    const delegates = new Map<string, unknown>();
+
+    const client = new Proxy(primary, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+
+        if (typeof property === 'string' && RAW_WRITE_METHODS.has(property)) {
+          return this.createRecordingMethod(
+            value as (...params: unknown[]) => unknown,
+            target,
+            context
+          );
+        }
+
+        if (
+          typeof property !== 'string' ||
+          property.startsWith('$') ||
+          value === null ||
+          typeof value !== 'object'
+        ) {
+          return typeof value === 'function' ? value.bind(target) : value;
+        }
+
+        if (!delegates.has(property)) {
+          delegates.set(property, this.createRoutingDelegate(value, property, context));
+        }
+        return delegates.get(property);
+      },
+    });
+
+    registerWrappedClient(client, primary);
+    return client;
+  }
+
+  /**
+   * Reserves a replica for a read, or returns null when the read must go to
+   * the primary.
+   *
+   * @internal
+   */
+  public acquire(context?: IContext<TContext>): ReplicaLease | null {
+    if (this.replicas.length === 0 || this.isPinned(context)) {
+      return null;
+    }
+
+    const index = this.selectReplica();
+    this.inFlight[index]++;
+
+    let released = false;
+    return {
+      client: this.replicas[index],
+      index,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.inFlight[index]--;
+        }
+      },
+    };
+  }
+
+  /**
+   * Wraps a model delegate of the primary so that reads use a replica.
+   * @private
+   */
+  private createRoutingDelegate(
+    delegate: object,
+    model: string,
+    context: IContext<TContext> | undefined
+  ): object {
+    return new Proxy(delegate, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof property !== 'string' || typeof value !== 'function') {
+          return value;
+        }
+        if (!MODEL_READ_METHODS.has(property)) {
+          return this.createRecordingMethod(
+            value as (...params: unknown[]) => unknown,
+            target,
+            context
+          );
+        }
+
+        return (...args: unknown[]) => {
+          const lease = this.acquire(context);
+          if (!lease) {
+            return (value as (...params: unknown[]) => unknown).apply(target, args);
+          }
+
+          try {
+            const replicaDelegate = (lease.client as unknown as Record<string, object>)[model];
+            const method = Reflect.get(replicaDelegate, property) as (
+              ...params: unknown[]
+            ) => unknown;
+            return Promise.resolve(method.apply(replicaDelegate, args)).finally(lease.release);
+          } catch (error) {
+            lease.release();
+            throw error;
+          }
+        };
+      },
+    });
+  }
+
+  /**
+   * Wraps a write method of the primary so that a successful write pins
+   * the context to the primary.
+   * @private
+   */
+  private createRecordingMethod(
+    method: (...params: unknown[]) => unknown,
+    target: object,
+    context: IContext<TContext> | undefined
+  ): (...args: unknown[]) => Promise<unknown> {
+    return (...args: unknown[]) =>
+      Promise.resolve(method.apply(target, args)).then((result) => {
+        this.recordWrite(context);
+        return result;
+      });
+  }
+
+  /**
+   * Chooses the replica for the next read.
+   * @private
+   */
+  private selectReplica(): number {
+    const start = this.cursor;
+    this.cursor = (this.cursor + 1) % this.replicas.length;
+
+    if (this.strategy !== ReplicaSelectionStrategy.LeastInFlight) {
+      return start;
+    }
+
+    // Scan from the rotating cursor so that ties are spread over replicas
+    let selected = start;
+    for (let offset = 1; offset < this.replicas.length; offset++) {
+      const index = (start + offset) % this.replicas.length;
+      if (this.inFlight[index] < this.inFlight[selected]) {
+        selected = index;
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * Resolves the pin key of an optional context.
+   * @private
+   */
+  private getPinKey(context: IContext<TContext> | undefined): string | undefined {
+    if (!context) {
+      return undefined;
+    }
+    const key = this.resolvePinKey(context);
+    return key === undefined || key === '' ? undefined : key;
+  }
+
+  /**
+   * Drops expired pins.
+   * @private
+   */
+  private prunePins(now: number): void {
+    for (const [key, expiresAt] of this.pins) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.pins.delete(key);
+    }
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * @fileoverview TenantRoutingUnitOfWorkFactory Implementation
+ * @description
+ * Unit of Work factory for multi-tenant deployments with a database per
+ * tenant. The Prisma client is picked from the tenant of the request
+ * context, created on first use and cached with LRU and idle eviction.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type {
+  IUnitOfWork,
+  IUnitOfWorkFactory,
+  IContext,
+  StruktosContextData,
+} from '@struktos/core';
+
+import { PrismaUnitOfWork } from './PrismaUnitOfWork';
+import type {
+  PrismaUnitOfWorkConfig,
+  RepositoryFactory,
+  RepositoryToken,
+  TenantRoutingOptions,
+} from '../types/prisma.types';
+import { UnknownTenantError } from '../errors/unit-of-work.errors';
+
+/**
+ * Cached client of a tenant.
+ * @internal
+ */
+interface TenantClient {
+  client: PrismaClient;
+  lastUsed: number;
+  /** Unit of Work instances currently using the client */
+  leases: number;
+}
+
+/**
+ * TenantRoutingUnitOfWorkFactory - Creates Unit of Work instances on the
+ * Prisma client of the context's tenant.
+ *
+ * @template TContext - Context data type extending StruktosContextData
+ *
+ * @remarks
+ * Clients are created lazily by `createClient` and cached. When more than
+ * `maxClients` tenants are cached, the least recently used client is
+ * disconnected; clients unused for `idleTimeout` are disconnected as well.
+ * A Unit of Work keeps its client in use from its creation until its
+ * transaction ends, and during every later transaction; clients in use are
+ * never evicted, so the cache may exceed `maxClients` while they are.
+ *
+ * Call `disconnect()` on shutdown to close every cached client.
+ *
+ * @example
+ * ```typescript
+ * const tenantFactory = new TenantRoutingUnitOfWorkFactory({
+ *   createClient: (tenantId) => {
+ *     const url = tenantDatabaseUrls[tenantId];
+ *     return url ? new PrismaClient({ datasources: { db: { url } } }) : undefined;
+ *   },
+ *   config: { defaultTimeout: 30000 },
+ * });
+ *
+ * tenantFactory.registerRepository('OrderRepository', (tx) => new PrismaOrderRepository(tx));
+ *
+ * // Per request: the context carries `tenantId`
+ * const uow = tenantFactory.createWithContext(RequestContext.current());
+ *
+ * // On shutdown
+ * await tenantFactory.disconnect();
+ * ```
+ */
+export class TenantRoutingUnitOfWorkFactory<
+  TContext extends StruktosContextData = StruktosContextData,
+> implements IUnitOfWorkFactory<TContext>
+{
+  /**
+   * Creates the client of a tenant.
+   * @private
+   */
+  private readonly createClient: (tenantId: string) => PrismaClient | undefined;
+
+  /**
+   * Resolves the tenant of a context.
+   * @private
+   */
+  private readonly resolveTenant: (context: IContext<TContext>) => string | undefined;
+
+  /**
+   * Maximum number of cached clients.
+   * @private
+   */
+  private readonly maxClients: number;
+
+  /**
+   * Idle time after which a client is disconnected; 0 disables idle eviction.
+   * @private
+   */
+  private readonly idleTimeout: number;
+
+  /**
+   * Configuration for created Unit of Work instances.
+   * @private
+   */
+  private readonly config: PrismaUnitOfWorkConfig;
+
+  /**
+   * Cached clients by tenant, least recently used first.
+   * @private
+   */
+  private readonly clients: Map<string, TenantClient> = new Map();
+
+  /**
+   * Shared repository factories for all Unit of Work instances.
+   * @private
+   */
+  private readonly repositoryFactories: Map<string | symbol, RepositoryFactory<unknown>> =
+    new Map();
+
+  /**
+   * Timer evicting idle clients while any client is cached.
+   * @private
+   */
+  private idleTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Creates a new TenantRoutingUnitOfWorkFactory instance.
+   *
+   * @param options - Client resolution, cache limits and Unit of Work configuration
+   */
+  constructor(options: TenantRoutingOptions<TContext>) {
+    this.createClient = options.createClient;
+    this.resolveTenant =
+      options.resolveTenant ??
+      ((context) => context.get('tenantId' as keyof TContext) as string | undefined);
+    this.maxClients = Math.max(1, options.maxClients ?? 10);
+    this.idleTimeout = options.idleTimeout ?? 300000;
+    this.config = options.config ?? {};
+  }
+
+  /**
+   * Number of cached clients.
+   */
+  public get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Always throws: a Unit of Work can only be routed with a tenant.
+   *
+   * @throws {UnknownTenantError} Always; use `createWithContext()` or `createForTenant()`
+   */
+  public create(): IUnitOfWork<TContext> {
+    throw new UnknownTenantError(undefined);
+  }
+
+  /**
+   * Creates a Unit of Work on the client of the context's tenant.
+   *
+   * @param context - Request context carrying the tenant
+   * @returns A new PrismaUnitOfWork instance with context set
+   * @throws {UnknownTenantError} If the context has no tenant or the tenant is unknown
+   *
+   * @example
+   * ```typescript
+   * const uow = tenantFactory.createWithContext(ctx);
+   * await uow.executeInTransaction(async (unitOfWork) => {
+   *   // Runs against the tenant's database
+   * });
+   * ```
+   */
+  public createWithContext(context: IContext<TContext>): IUnitOfWork<TContext> {
+    const tenantId = this.resolveTenant(context);
+    if (!tenantId) {
+      throw new UnknownTenantError(undefined, {
+        traceId: context.get('traceId' as keyof TContext) as string | undefined,
+      });
+    }
+
+    const unitOfWork = this.createForTenant(tenantId);
+    unitOfWork.setContext(context);
+    return unitOfWork;
+  }
+
+  /**
+   * Creates a Unit of Work on the client of a tenant, e.g. for background
+   * jobs without a request context.
+   *
+   * @param tenantId - Tenant identifier
+   * @returns A new PrismaUnitOfWork instance
+   * @throws {UnknownTenantError} If the tenant is unknown
+   */
+  public createForTenant(tenantId: string): PrismaUnitOfWork<TContext> {
+    const cached = this.getTenantClient(tenantId);
+    const unitOfWork = new PrismaUnitOfWork<TContext>(cached.client, this.config);
+    unitOfWork.useClientLease({
+      acquire: () => {
+        cached.leases++;
+      },
+      release: () => {
+        cached.leases--;
+        cached.lastUsed = Date.now();
+      },
+    });
+
+    // Register all repository factories
+    for (const [token, factory] of this.repositoryFactories) {
+      unitOfWork.registerRepository(token, factory);
+    }
+
+    return unitOfWork;
+  }
+
+  /**
+   * Gets the cached client of a tenant, creating it on first use.
+   *
+   * @param tenantId - Tenant identifier
+   * @returns The tenant's Prisma client
+   * @throws {UnknownTenantError} If `createClient` does not know the tenant
+   */
+  public getClient(tenantId: string): PrismaClient {
+    return this.getTenantClient(tenantId).client;
+  }
+
+  /**
+   * Removes a tenant's client from the cache and disconnects it, unless a
+   * Unit of Work is using it.
+   *
+   * @param tenantId - Tenant identifier
+   * @returns True if the client was evicted, false if no client was cached
+   * for the tenant or it is in use
+   */
+  public async evict(tenantId: string): Promise<boolean> {
+    const cached = this.clients.get(tenantId);
+    if (!cached || cached.leases > 0) {
+      return false;
+    }
+
+    this.clients.delete(tenantId);
+    if (this.clients.size === 0) {
+      this.stopIdleTimer();
+    }
+
+    await this.disconnectClient(tenantId, cached.client);
+    return true;
+  }
+
+  /**
+   * Disconnects and forgets every cached client.
+   *
+   * @remarks
+   * Call on application shutdown. The factory remains usable; clients are
+   * created again on the next request.
+   *
+   * @example
+   * ```typescript
+   * process.on('SIGTERM', async () => {
+   *   await tenantFactory.disconnect();
+   *   process.exit(0);
+   * });
+   * ```
+   */
+  public async disconnect(): Promise<void> {
+    const clients = [...this.clients];
+    this.clients.clear();
+    this.stopIdleTimer();
+
+    await Promise.all(
+      clients.map(([tenantId, cached]) => this.disconnectClient(tenantId, cached.client))
+    );
+  }
+
+  /**
+   * Registers a repository factory with this factory.
+   *
+   * @template TRepository - The repository interface type
+   * @param token - Unique identifier for the repository
+   * @param factory - Factory function that creates the repository
+   * @returns This factory instance for chaining
+   */
+  public registerRepository<TRepository>(
+    token: RepositoryToken<TRepository>,
+    factory: RepositoryFactory<TRepository>
+  ): this {
+    const key = this.normalizeToken(token);
+    this.repositoryFactories.set(key, factory as RepositoryFactory<unknown>);
+    return this;
+  }
+
+  /**
+   * Checks if a repository is registered with this factory.
+   *
+   * @param token - Repository identifier
+   * @returns True if the repository is registered
+   */
+  public hasRepository(token: RepositoryToken<unknown>): boolean {
+    const key = this.normalizeToken(token);
+    return this.repositoryFactories.has(key);
+  }
+
+  /**
+   * Removes a repository factory from this factory.
+   *
+   * @param token - Repository identifier
+   * @returns True if the repository was removed
+   */
+  public unregisterRepository(token: RepositoryToken<unknown>): boolean {
+    const key = this.normalizeToken(token);
+    return this.repositoryFactories.delete(key);
+  }
+
+  /**
+   * Gets the list of registered repository tokens.
+   *
+   * @returns Array of registered repository tokens
+   */
+  public getRegisteredRepositories(): (string | symbol)[] {
+    return Array.from(this.repositoryFactories.keys());
+  }
+
+  /**
+   * Gets the cache entry of a tenant, creating its client on first use.
+   * @private
+   */
+  private getTenantClient(tenantId: string): TenantClient {
+    const cached = this.clients.get(tenantId);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.clients.delete(tenantId);
+      cached.lastUsed = Date.now();
+      this.clients.set(tenantId, cached);
+      return cached;
+    }
+
+    const client = this.createClient(tenantId);
+    if (!client) {
+      throw new UnknownTenantError(tenantId);
+    }
+
+    const created: TenantClient = { client, lastUsed: Date.now(), leases: 0 };
+    this.clients.set(tenantId, created);
+    this.evictOverflow(tenantId);
+    this.startIdleTimer();
+
+    return created;
+  }
+
+  /**
+   * Evicts least recently used clients that are not in use until at most
+   * `maxClients` are cached.
+   * @private
+   */
+  private evictOverflow(keepTenantId: string): void {
+    for (const [tenantId, cached] of this.clients) {
+      if (this.clients.size <= this.maxClients) {
+        return;
+      }
+      if (tenantId !== keepTenantId && cached.leases === 0) {
+        void this.evict(tenantId);
+      }
+    }
+  }
+
+  /**
+   * Disconnects a client, logging failures.
+   * @private
+   */
+  private async disconnectClient(tenantId: string, client: PrismaClient): Promise<void> {
+    try {
+      await client.$disconnect();
+      this.config.logger?.debug('Tenant client disconnected', { tenantId });
+    } catch (error) {
+      this.config.logger?.warn('Tenant client disconnect failed', {
+        tenantId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Starts evicting idle clients, unless already running or disabled.
+   * @private
+   */
+  private startIdleTimer(): void {
+    if (this.idleTimer || this.idleTimeout <= 0) {
+      return;
+    }
+
+    this.idleTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [tenantId, cached] of this.clients) {
+        if (cached.leases === 0 && now - cached.lastUsed >= this.idleTimeout) {
+          void this.evict(tenantId);
+        }
+      }
+    }, this.idleTimeout);
+
+    // Do not keep the process alive for eviction alone
+    this.idleTimer.unref?.();
+  }
+
+  /**
+   * Stops evicting idle clients.
+   * @private
+   */
+  private stopIdleTimer(): void {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /**
+   * Normalizes a repository token to a consistent key format.
+   * @private
+   */
+  private normalizeToken(token: RepositoryToken<unknown>): string | symbol {
+    if (typeof token === 'string' || typeof token === 'symbol') {
+      return token;
+    }
+    return token.name || token.toString();
+  }
+}
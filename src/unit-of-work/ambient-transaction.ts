@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Ambient Transaction Context
+ * @description
+ * Tracks the transaction of the Unit of Work whose `executeInTransaction()`
+ * callback is running, so that repositories created from the root Prisma
+ * client join it without being passed the transaction client.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+import type { AmbientTransaction } from '../types/prisma.types';
+
+/**
+ * Ambient transactions by root Prisma client. `null` marks a callback that
+ * explicitly runs without a transaction on that client.
+ * @internal
+ */
+type AmbientTransactions = ReadonlyMap<object, AmbientTransaction | null>;
+
+/**
+ * Storage of the ambient transactions of the current async context.
+ * @internal
+ */
+const storage = new AsyncLocalStorage<AmbientTransactions>();
+
+/**
+ * Root clients of clients wrapping them, such as read replica routing
+ * clients.
+ * @internal
+ */
+const rootClients = new WeakMap<object, object>();
+
+/**
+ * Registers a client that wraps a root client, so that it shares the
+ * ambient transactions of the root client.
+ *
+ * @param client - Wrapping client
+ * @param root - Root Prisma client it wraps
+ *
+ * @internal
+ */
+export function registerWrappedClient(client: object, root: object): void {
+  rootClients.set(client, resolveRootClient(root));
+}
+
+/**
+ * Runs a function with an ambient transaction on a root client.
+ *
+ * @param client - Root Prisma client the Unit of Work was created with
+ * @param transaction - Transaction to join, or null to run without one
+ * @param fn - Function to run
+ * @returns The result of `fn`
+ *
+ * @remarks
+ * Entries for other clients are kept, so that Unit of Work instances on
+ * different databases can be nested.
+ *
+ * @internal
+ */
+export function runWithAmbientTransaction<T>(
+  client: object,
+  transaction: AmbientTransaction | null,
+  fn: () => T
+): T {
+  const transactions = new Map(storage.getStore());
+  transactions.set(resolveRootClient(client), transaction);
+  return storage.run(transactions, fn);
+}
+
+/**
+ * Gets the ambient transaction on a root Prisma client.
+ *
+ * @param client - Root Prisma client, or a client wrapping it
+ * @returns The transaction of the innermost running `executeInTransaction()`
+ * callback on the client, or undefined outside of any
+ *
+ * @example
+ * ```typescript
+ * await uow.executeInTransaction(async () => {
+ *   const tx = getAmbientTransaction(prisma)?.client;
+ *   await tx?.auditLog.create({ data: { action: 'export' } });
+ * });
+ * ```
+ */
+export function getAmbientTransaction(client: object): AmbientTransaction | undefined {
+  return storage.getStore()?.get(resolveRootClient(client)) ?? undefined;
+}
+
+/**
+ * Checks whether the current async context runs explicitly without a
+ * transaction on a root Prisma client, e.g. in a `NEVER` or `SUPPORTS`
+ * callback outside of any transaction.
+ *
+ * @param client - Root Prisma client, or a client wrapping it
+ * @returns True inside such a callback
+ *
+ * @internal
+ */
+export function isRunningWithoutTransaction(client: object): boolean {
+  return storage.getStore()?.get(resolveRootClient(client)) === null;
+}
+
+/**
+ * Resolves the root client of a possibly wrapping client.
+ * @internal
+ */
+function resolveRootClient(client: object): object {
+  return rootClients.get(client) ?? client;
+}
@@ -1,7 +1,7 @@
 /**
  * @fileoverview Unit of Work Exports
  * @description
- * Exports the PrismaUnitOfWork and PrismaUnitOfWorkFactory classes
+ * Exports the PrismaUnitOfWork class and the factories creating it
  * that implement the Unit of Work pattern using Prisma Client.
  *
  * @packageDocumentation
@@ -10,4 +10,10 @@
  */
 
 export { PrismaUnitOfWork } from './PrismaUnitOfWork';
-export { PrismaUnitOfWorkFactory } from './PrismaUnitOfWorkFactory';
\ No newline at end of file
+export { PrismaUnitOfWorkFactory } from './PrismaUnitOfWorkFactory';
+export { TenantRoutingUnitOfWorkFactory } from './TenantRoutingUnitOfWorkFactory';
+export { ReadReplicaRouter } from './ReadReplicaRouter';
+export { CompositeUnitOfWork } from './CompositeUnitOfWork';
+export { isRetryableTransactionError } from './transaction-retry';
+export { getAmbientTransaction } from './ambient-transaction';
+export type { ChangeSetSummary } from './ChangeTracker';
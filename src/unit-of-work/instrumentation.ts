@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Transaction Instrumentation Helpers
+ * @description
+ * Reports Unit of Work operations and repository calls as spans to a
+ * configured TransactionInstrumentation.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import {
+  TransactionSpanName,
+  type TransactionInstrumentation,
+  type TransactionSpan,
+  type TransactionSpanAttributes,
+} from '../types/prisma.types';
+
+/**
+ * Runs an operation inside a span, or directly without instrumentation.
+ *
+ * @param instrumentation - Configured instrumentation, if any
+ * @param name - Span name
+ * @param attributes - Span attributes
+ * @param operation - Operation to run
+ * @returns The result of the operation
+ *
+ * @internal
+ */
+export async function traceSpan<T>(
+  instrumentation: TransactionInstrumentation | undefined,
+  name: TransactionSpanName,
+  attributes: () => TransactionSpanAttributes,
+  operation: () => Promise<T>
+): Promise<T> {
+  if (!instrumentation) {
+    return operation();
+  }
+
+  const startedAt = Date.now();
+  const span = instrumentation.startSpan(name, attributes());
+  try {
+    const result = await operation();
+    span.end({ durationMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    endWithError(span, startedAt, error);
+    throw error;
+  }
+}
+
+/**
+ * Wraps a repository so that each method call is reported as a
+ * `repository.call` span.
+ *
+ * @param repository - Repository created by a repository factory
+ * @param instrumentation - Configured instrumentation
+ * @param attributes - Attributes of the Unit of Work and repository token
+ * @returns A proxy of the repository
+ *
+ * @remarks
+ * Methods run with the repository itself as `this`, so calls between its
+ * own methods are not reported separately. Spans of methods returning a
+ * promise end when the promise settles.
+ *
+ * @internal
+ */
+export function instrumentRepository<TRepository>(
+  repository: TRepository,
+  instrumentation: TransactionInstrumentation,
+  attributes: () => TransactionSpanAttributes
+): TRepository {
+  if (repository === null || typeof repository !== 'object') {
+    return repository;
+  }
+
+  const methods = new Map<string, unknown>();
+
+  return new Proxy(repository, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (
+        typeof property !== 'string' ||
+        typeof value !== 'function' ||
+        property === 'constructor'
+      ) {
+        return value;
+      }
+
+      if (!methods.has(property)) {
+        methods.set(property, (...args: unknown[]) => {
+          const startedAt = Date.now();
+          const span = instrumentation.startSpan(TransactionSpanName.RepositoryCall, {
+            ...attributes(),
+            repositoryMethod: property,
+          });
+
+          let result: unknown;
+          try {
+            result = value.apply(target, args);
+          } catch (error) {
+            endWithError(span, startedAt, error);
+            throw error;
+          }
+
+          if (!(result instanceof Promise)) {
+            span.end({ durationMs: Date.now() - startedAt });
+            return result;
+          }
+          return result.then(
+            (resolved) => {
+              span.end({ durationMs: Date.now() - startedAt });
+              return resolved;
+            },
+            (error: unknown) => {
+              endWithError(span, startedAt, error);
+              throw error;
+            }
+          );
+        });
+      }
+      return methods.get(property);
+    },
+  });
+}
+
+/**
+ * Ends a span with the error of a failed operation.
+ * @internal
+ */
+function endWithError(span: TransactionSpan, startedAt: number, error: unknown): void {
+  const code = (error as { code?: unknown } | null)?.code;
+  span.end({
+    durationMs: Date.now() - startedAt,
+    error: error instanceof Error ? error : new Error(String(error)),
+    errorCode: typeof code === 'string' ? code : undefined,
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Raw Statement Helpers
+ * @description
+ * Runs dialect statements on the transaction connection, and acquires
+ * advisory locks, emulating bounded waits where the database has none.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import type { AdvisoryLockKey, PrismaTransactionClient } from '../types/prisma.types';
+import type { SqlDialect, SqlStatement } from '../dialects/SqlDialect';
+
+/**
+ * Delay between attempts while emulating a bounded wait.
+ * @internal
+ */
+const LOCK_POLL_INTERVAL = 25;
+
+/**
+ * Raw query methods of a Prisma client.
+ * @internal
+ */
+interface RawStatementClient {
+  $executeRawUnsafe(sql: string, ...params: unknown[]): Promise<number>;
+  $queryRawUnsafe<TRow>(sql: string, ...params: unknown[]): Promise<TRow[]>;
+}
+
+/**
+ * Acquires an advisory lock on the transaction connection.
+ *
+ * @param client - The transaction client
+ * @param dialect - SQL dialect supporting advisory locks
+ * @param key - Lock key
+ * @param wait - Whether to wait for the lock
+ * @param timeout - Maximum wait in milliseconds; unbounded when omitted
+ * @returns True if the lock was acquired
+ *
+ * @internal
+ */
+export async function acquireAdvisoryLock(
+  client: PrismaTransactionClient,
+  dialect: SqlDialect,
+  key: AdvisoryLockKey,
+  wait: boolean,
+  timeout?: number
+): Promise<boolean> {
+  const attempt = (lockTimeout: number | null) =>
+    queryAcquired(client, dialect.acquireAdvisoryLock(key, lockTimeout)!);
+
+  if (!wait) {
+    return attempt(0);
+  }
+  if (timeout === undefined) {
+    return attempt(null);
+  }
+  if (dialect.supportsAdvisoryLockTimeout) {
+    return attempt(timeout);
+  }
+
+  // Retry without waiting until the deadline
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    if (await attempt(0)) {
+      return true;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(LOCK_POLL_INTERVAL, remaining)));
+  }
+}
+
+/**
+ * Runs a statement that returns no rows on the transaction connection.
+ *
+ * @internal
+ */
+export async function executeStatement(
+  client: PrismaTransactionClient,
+  statement: SqlStatement
+): Promise<void> {
+  await (client as unknown as RawStatementClient).$executeRawUnsafe(
+    statement.sql,
+    ...statement.params
+  );
+}
+
+/**
+ * Runs a statement that returns rows on the transaction connection.
+ *
+ * @internal
+ */
+export async function queryStatement<TRow>(
+  client: PrismaTransactionClient,
+  statement: SqlStatement
+): Promise<TRow[]> {
+  return (client as unknown as RawStatementClient).$queryRawUnsafe<TRow>(
+    statement.sql,
+    ...statement.params
+  );
+}
+
+/**
+ * Runs a lock statement and reads its `acquired` column.
+ * @private
+ */
+async function queryAcquired(
+  client: PrismaTransactionClient,
+  statement: SqlStatement
+): Promise<boolean> {
+  const [row] = await queryStatement<{ acquired?: unknown }>(client, statement);
+  return row?.acquired === true || Number(row?.acquired) === 1;
+}
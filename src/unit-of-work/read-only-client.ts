@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Read-only Transaction Client
+ * @description
+ * Wraps a Prisma transaction client so that write operations are
+ * rejected before they reach the database. Used by PrismaUnitOfWork
+ * for repositories obtained from a read-only transaction.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import type { PrismaTransactionClient } from '../types/prisma.types';
+
+/**
+ * Model delegate methods that modify data.
+ * @internal
+ */
+const MODEL_WRITE_METHODS = new Set([
+  'create',
+  'createMany',
+  'createManyAndReturn',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+/**
+ * Client-level methods that modify data.
+ * @internal
+ */
+const CLIENT_WRITE_METHODS = new Set(['$executeRaw', '$executeRawUnsafe']);
+
+/**
+ * Callback invoked when a write is attempted. Must throw.
+ * @internal
+ */
+export type WriteViolationHandler = (operation: string, model?: string) => never;
+
+/**
+ * Creates a view of a transaction client that rejects write operations.
+ *
+ * @param client - The transaction client to wrap
+ * @param onViolation - Called with the attempted operation; must throw
+ * @returns A client with the same API whose write methods throw
+ *
+ * @remarks
+ * Raw queries issued through `$queryRaw` are not inspected; the
+ * database-level `READ ONLY` transaction mode covers those.
+ *
+ * @internal
+ */
+export function createReadOnlyClient(
+  client: PrismaTransactionClient,
+  onViolation: WriteViolationHandler
+): PrismaTransactionClient {
+  const delegates = new Map<string | symbol, unknown>();
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+
+      if (typeof property === 'string' && CLIENT_WRITE_METHODS.has(property)) {
+        return () => onViolation(property);
+      }
+
+      if (
+        typeof property !== 'string' ||
+        property.startsWith('$') ||
+        value === null ||
+        typeof value !== 'object'
+      ) {
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+
+      if (!delegates.has(property)) {
+        delegates.set(property, createReadOnlyDelegate(value, property, onViolation));
+      }
+      return delegates.get(property);
+    },
+  });
+}
+
+/**
+ * Wraps a single model delegate.
+ * @internal
+ */
+function createReadOnlyDelegate(
+  delegate: object,
+  model: string,
+  onViolation: WriteViolationHandler
+): object {
+  return new Proxy(delegate, {
+    get(target, property, receiver) {
+      if (typeof property === 'string' && MODEL_WRITE_METHODS.has(property)) {
+        return () => onViolation(property, model);
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
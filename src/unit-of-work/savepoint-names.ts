@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Savepoint Names
+ * @description
+ * Grammar of savepoint names. Savepoint names end up in raw SQL, so only
+ * plain identifiers are accepted; free-form labels are mapped to generated
+ * identifiers by PrismaUnitOfWork.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+/**
+ * Letters, digits and underscores, not starting with a digit, at most
+ * 32 characters (the SQL Server limit, the lowest of the supported databases).
+ * @internal
+ */
+export const SAVEPOINT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,31}$/;
+
+/**
+ * Checks whether a savepoint name can be used as an SQL identifier.
+ * @internal
+ */
+export function isValidSavepointName(name: unknown): name is string {
+  return typeof name === 'string' && SAVEPOINT_NAME_PATTERN.test(name);
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Transaction Retry Helpers
+ * @description
+ * Detection of retryable database errors and backoff calculation used by
+ * PrismaUnitOfWork to re-run transactions aborted by serialization
+ * failures or deadlocks.
+ *
+ * @packageDocumentation
+ * @module @struktos/prisma/unit-of-work
+ * @version 1.0.0
+ */
+
+import type { TransactionRetryPolicy } from '../types/prisma.types';
+
+/**
+ * Prisma error code for "Transaction failed due to a write conflict or a deadlock".
+ * @internal
+ */
+const PRISMA_WRITE_CONFLICT_CODE = 'P2034';
+
+/**
+ * SQLSTATE codes for serialization failure and deadlock (PostgreSQL, CockroachDB).
+ * @internal
+ */
+const RETRYABLE_SQLSTATES = new Set(['40001', '40P01']);
+
+/**
+ * Message fragments of retryable errors reported without a usable code.
+ * @internal
+ */
+const RETRYABLE_MESSAGE_PATTERN =
+  /could not serialize|serialization failure|deadlock|40001|40P01|write conflict/i;
+
+/**
+ * Fully resolved retry policy.
+ * @internal
+ */
+export type ResolvedRetryPolicy = Required<TransactionRetryPolicy>;
+
+/**
+ * Checks whether an error is a serialization failure or deadlock.
+ *
+ * Inspects the error itself and its `cause` chain, so errors wrapped by
+ * PrismaUnitOfWork (e.g. a failed commit) are recognized as well.
+ *
+ * @param error - The error to inspect
+ * @returns True if re-running the transaction may succeed
+ *
+ * @example
+ * ```typescript
+ * const factory = new PrismaUnitOfWorkFactory(prisma, {
+ *   retry: {
+ *     maxAttempts: 5,
+ *     isRetryable: (error) => isRetryableTransactionError(error) || isLockTimeout(error)
+ *   }
+ * });
+ * ```
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+
+  while (current && typeof current === 'object' && !seen.has(current)) {
+    seen.add(current);
+    const candidate = current as {
+      code?: unknown;
+      meta?: { code?: unknown };
+      message?: unknown;
+      cause?: unknown;
+    };
+
+    if (candidate.code === PRISMA_WRITE_CONFLICT_CODE) {
+      return true;
+    }
+    if (
+      RETRYABLE_SQLSTATES.has(String(candidate.code)) ||
+      RETRYABLE_SQLSTATES.has(String(candidate.meta?.code))
+    ) {
+      return true;
+    }
+    if (typeof candidate.message === 'string' && RETRYABLE_MESSAGE_PATTERN.test(candidate.message)) {
+      return true;
+    }
+
+    current = candidate.cause;
+  }
+
+  return false;
+}
+
+/**
+ * Applies defaults to a retry policy.
+ * @internal
+ */
+export function resolveRetryPolicy(policy?: TransactionRetryPolicy | false): ResolvedRetryPolicy {
+  if (!policy) {
+    return {
+      maxAttempts: 1,
+      initialDelay: 0,
+      maxDelay: 0,
+      backoffMultiplier: 1,
+      jitter: false,
+      isRetryable: () => false,
+    };
+  }
+
+  return {
+    maxAttempts: Math.max(1, policy.maxAttempts ?? 3),
+    initialDelay: policy.initialDelay ?? 50,
+    maxDelay: policy.maxDelay ?? 2000,
+    backoffMultiplier: policy.backoffMultiplier ?? 2,
+    jitter: policy.jitter ?? true,
+    isRetryable: policy.isRetryable ?? isRetryableTransactionError,
+  };
+}
+
+/**
+ * Computes the delay before the next attempt.
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - The attempt that just failed (1-based)
+ * @returns Delay in milliseconds
+ * @internal
+ */
+export function computeRetryDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+  const exponential = policy.initialDelay * Math.pow(policy.backoffMultiplier, attempt - 1);
+  const capped = Math.min(policy.maxDelay, exponential);
+
+  return policy.jitter ? Math.floor(Math.random() * capped) : capped;
+}
@@ -5,15 +5,20 @@
 export type PrismaTransactionClient = {
   user: MockModelDelegate;
   order: MockModelDelegate;
+  outboxMessage: MockModelDelegate;
   $executeRawUnsafe: jest.Mock;
+  $queryRawUnsafe: jest.Mock;
 };
 
 export interface MockModelDelegate {
   findUnique: jest.Mock;
   findMany: jest.Mock;
   create: jest.Mock;
+  createMany: jest.Mock;
   update: jest.Mock;
+  updateMany: jest.Mock;
   delete: jest.Mock;
+  deleteMany: jest.Mock;
   count: jest.Mock;
 }
 
@@ -22,8 +27,11 @@ export function createMockModelDelegate(): MockModelDelegate {
     findUnique: jest.fn(),
     findMany: jest.fn(),
     create: jest.fn(),
+    createMany: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     delete: jest.fn(),
+    deleteMany: jest.fn(),
     count: jest.fn(),
   };
 }
@@ -32,7 +40,9 @@ export function createMockTransactionClient(): PrismaTransactionClient {
   return {
     user: createMockModelDelegate(),
     order: createMockModelDelegate(),
+    outboxMessage: createMockModelDelegate(),
     $executeRawUnsafe: jest.fn(),
+    $queryRawUnsafe: jest.fn(),
   };
 }
 
@@ -45,6 +55,7 @@ export class PrismaClient {
 
   user = createMockModelDelegate();
   order = createMockModelDelegate();
+  outboxMessage = createMockModelDelegate();
 
   $connect = jest.fn().mockResolvedValue(undefined);
   $disconnect = jest.fn().mockResolvedValue(undefined);
@@ -2,6 +2,8 @@
  * Mock implementation of @struktos/core for testing
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+
 // Isolation Level Enum
 export enum IsolationLevel {
   ReadUncommitted = 'READ_UNCOMMITTED',
@@ -148,6 +150,23 @@ export class MockContext<T extends StruktosContextData = StruktosContextData>
   }
 }
 
+// Mock RequestContext with async-local scoping
+export class RequestContext<
+  T extends StruktosContextData = StruktosContextData,
+> extends MockContext<T> {
+  private static storage = new AsyncLocalStorage<RequestContext>();
+
+  static run<R>(data: Partial<StruktosContextData>, fn: () => R): R {
+    return RequestContext.storage.run(new RequestContext(data), fn);
+  }
+
+  static current<T extends StruktosContextData = StruktosContextData>():
+    | RequestContext<T>
+    | undefined {
+    return RequestContext.storage.getStore() as RequestContext<T> | undefined;
+  }
+}
+
 // DI Tokens
 export const UNIT_OF_WORK_TOKEN = Symbol('IUnitOfWork');
 export const UNIT_OF_WORK_FACTORY_TOKEN = Symbol('IUnitOfWorkFactory');
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * ChangeTracker Unit Tests
+ */
+
+import { createMockTransactionClient } from '../__mocks__/@prisma/client';
+import { ChangeTracker } from '../../src/unit-of-work/ChangeTracker';
+import { ChangeTrackingError } from '../../src/errors/unit-of-work.errors';
+
+describe('ChangeTracker', () => {
+  let tracker: ChangeTracker;
+  let tx: ReturnType<typeof createMockTransactionClient>;
+
+  beforeEach(() => {
+    tracker = new ChangeTracker({ modelOrder: ['user', 'order'] }, 'uow-1');
+    tx = createMockTransactionClient();
+  });
+
+  describe('identity map', () => {
+    it('should return the first instance registered for an id', () => {
+      const first = { id: '1', name: 'A' };
+      const second = { id: '1', name: 'A' };
+
+      expect(tracker.registerClean('user', first)).toBe(first);
+      expect(tracker.registerClean('user', second)).toBe(first);
+      expect(tracker.find('user', '1')).toBe(first);
+    });
+
+    it('should key identities by model', () => {
+      const user = { id: '1' };
+      const order = { id: '1' };
+
+      tracker.registerClean('user', user);
+
+      expect(tracker.registerClean('order', order)).toBe(order);
+    });
+
+    it('should require an identifier', () => {
+      expect(() => tracker.registerNew('user', { name: 'A' })).toThrow(ChangeTrackingError);
+    });
+  });
+
+  describe('registration', () => {
+    it('should reject registering a tracked id as new', () => {
+      tracker.registerClean('user', { id: '1' });
+
+      expect(() => tracker.registerNew('user', { id: '1' })).toThrow(ChangeTrackingError);
+    });
+
+    it('should reject dirty registration of deleted entities', () => {
+      const user = { id: '1' };
+      tracker.registerDeleted('user', user);
+
+      expect(() => tracker.registerDirty('user', user)).toThrow(ChangeTrackingError);
+      expect(() => tracker.registerNew('user', user)).toThrow(ChangeTrackingError);
+    });
+
+    it('should reject dirty registration of a second instance', () => {
+      tracker.registerClean('user', { id: '1' });
+
+      expect(() => tracker.registerDirty('user', { id: '1' })).toThrow(/Another instance/);
+    });
+
+    it('should cancel the insert when a new entity is deleted', async () => {
+      const user = { id: '1' };
+      tracker.registerNew('user', user);
+      tracker.registerDeleted('user', user);
+
+      expect(tracker.hasChanges).toBe(false);
+      await tracker.flush(tx as any);
+      expect(tx.user.createMany).not.toHaveBeenCalled();
+      expect(tx.user.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should not update entities registered as new', async () => {
+      const user = { id: '1', name: 'A' };
+      tracker.registerNew('user', user);
+      user.name = 'B';
+      tracker.registerDirty('user', user);
+
+      await tracker.flush(tx as any);
+
+      expect(tx.user.createMany).toHaveBeenCalledWith({ data: [{ id: '1', name: 'B' }] });
+      expect(tx.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('flush', () => {
+    it('should batch inserts and deletes per model in dependency order', async () => {
+      const calls: string[] = [];
+      tx.user.createMany.mockImplementation(async () => calls.push('insert user'));
+      tx.order.createMany.mockImplementation(async () => calls.push('insert order'));
+      tx.user.update.mockImplementation(async () => calls.push('update user'));
+      tx.user.deleteMany.mockImplementation(async () => calls.push('delete user'));
+      tx.order.deleteMany.mockImplementation(async () => calls.push('delete order'));
+
+      tracker.registerNew('order', { id: 'o1', userId: 'u1' });
+      tracker.registerNew('user', { id: 'u1' });
+      tracker.registerNew('order', { id: 'o2', userId: 'u1' });
+      const loaded = tracker.registerClean('user', { id: 'u2', name: 'A' });
+      loaded.name = 'B';
+      tracker.registerDirty('user', loaded);
+      tracker.registerDeleted('user', { id: 'u3' });
+      tracker.registerDeleted('order', { id: 'o3' });
+
+      const summary = await tracker.flush(tx as any);
+
+      expect(calls).toEqual([
+        'insert user',
+        'insert order',
+        'update user',
+        'delete order',
+        'delete user',
+      ]);
+      expect(tx.order.createMany).toHaveBeenCalledWith({
+        data: [
+          { id: 'o1', userId: 'u1' },
+          { id: 'o2', userId: 'u1' },
+        ],
+      });
+      expect(tx.user.update).toHaveBeenCalledWith({ where: { id: 'u2' }, data: { name: 'B' } });
+      expect(tx.user.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['u3'] } } });
+      expect(summary).toEqual({ inserted: 3, updated: 1, deleted: 2 });
+    });
+
+    it('should clear pending changes but keep the identity map', async () => {
+      const user = { id: '1' };
+      tracker.registerNew('user', user);
+
+      await tracker.flush(tx as any);
+      await tracker.flush(tx as any);
+
+      expect(tx.user.createMany).toHaveBeenCalledTimes(1);
+      expect(tracker.hasChanges).toBe(false);
+      expect(tracker.find('user', '1')).toBe(user);
+    });
+
+    it('should use the configured identifier field', async () => {
+      tracker = new ChangeTracker({ idField: 'uuid' });
+      tracker.registerDeleted('user', { uuid: 'a' });
+
+      await tracker.flush(tx as any);
+
+      expect(tx.user.deleteMany).toHaveBeenCalledWith({ where: { uuid: { in: ['a'] } } });
+    });
+
+    it('should reject unknown models', async () => {
+      tracker.registerNew('invoice', { id: '1' });
+
+      await expect(tracker.flush(tx as any)).rejects.toThrow(ChangeTrackingError);
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * CompositeUnitOfWork Unit Tests
+ */
+
+import { PrismaClient } from '../__mocks__/@prisma/client';
+import { MockContext, TransactionState } from '../__mocks__/@struktos/core';
+import { CompositeUnitOfWork } from '../../src/unit-of-work/CompositeUnitOfWork';
+import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
+import {
+  CompositeCommitError,
+  RepositoryNotRegisteredError,
+  UnsupportedOperationError,
+} from '../../src/errors/unit-of-work.errors';
+import type { PrismaTransactionClient } from '../../src/types/prisma.types';
+
+class MockTestRepository {
+  constructor(public readonly tx: PrismaTransactionClient) {}
+}
+
+describe('CompositeUnitOfWork', () => {
+  let ordersClient: PrismaClient;
+  let billingClient: PrismaClient;
+  let orders: PrismaUnitOfWork;
+  let billing: PrismaUnitOfWork;
+  let composite: CompositeUnitOfWork;
+
+  const veto = (unitOfWork: PrismaUnitOfWork, message: string) =>
+    unitOfWork.onBeforeCommit(() => {
+      throw new Error(message);
+    });
+
+  const commitError = async (): Promise<CompositeCommitError> => {
+    try {
+      await composite.commit();
+    } catch (error) {
+      return error as CompositeCommitError;
+    }
+    throw new Error('Expected the commit to fail');
+  };
+
+  beforeEach(() => {
+    ordersClient = new PrismaClient();
+    billingClient = new PrismaClient();
+    orders = new PrismaUnitOfWork(ordersClient as any);
+    billing = new PrismaUnitOfWork(billingClient as any);
+    orders.registerRepository('OrderRepository', (tx) => new MockTestRepository(tx));
+    billing.registerRepository('InvoiceRepository', (tx) => new MockTestRepository(tx));
+    composite = new CompositeUnitOfWork({ orders, billing });
+  });
+
+  afterEach(async () => {
+    await composite.dispose();
+  });
+
+  describe('start', () => {
+    it('should start a transaction on every member', async () => {
+      await composite.start();
+
+      expect(composite.state).toBe(TransactionState.Active);
+      expect(orders.state).toBe(TransactionState.Active);
+      expect(billing.state).toBe(TransactionState.Active);
+    });
+
+    it('should roll back started members when a member fails to start', async () => {
+      billingClient.simulateConnectionError();
+
+      await expect(composite.start()).rejects.toThrow();
+
+      expect(orders.state).toBe(TransactionState.RolledBack);
+      expect(composite.state).toBe(TransactionState.Inactive);
+    });
+  });
+
+  describe('getRepository', () => {
+    it('should route repositories to the member that registered them', async () => {
+      await composite.start();
+
+      const orderRepo = composite.getRepository<MockTestRepository>('OrderRepository');
+      const invoiceRepo = composite.getRepository<MockTestRepository>('InvoiceRepository');
+
+      expect(orderRepo.tx).toBe((orders as any).txClient);
+      expect(invoiceRepo.tx).toBe((billing as any).txClient);
+      expect(composite.hasRepository('InvoiceRepository')).toBe(true);
+    });
+
+    it('should throw RepositoryNotRegisteredError for unknown tokens', async () => {
+      await composite.start();
+
+      expect(() => composite.getRepository('PaymentRepository')).toThrow(
+        RepositoryNotRegisteredError
+      );
+      expect(composite.hasRepository('PaymentRepository')).toBe(false);
+    });
+  });
+
+  describe('commit', () => {
+    it('should commit every member in order', async () => {
+      const committed: string[] = [];
+      await composite.start();
+      orders.onAfterCommit(() => void committed.push('orders'));
+      billing.onAfterCommit(() => void committed.push('billing'));
+
+      const result = await composite.commit();
+
+      expect(result.success).toBe(true);
+      expect(committed).toEqual(['orders', 'billing']);
+      expect(composite.state).toBe(TransactionState.Committed);
+    });
+
+    it('should report a partial commit', async () => {
+      const payments = new PrismaUnitOfWork(new PrismaClient() as any);
+      composite = new CompositeUnitOfWork({ orders, billing, payments });
+      await composite.start();
+      veto(billing, 'invoice rejected');
+
+      const error = await commitError();
+
+      expect(error).toBeInstanceOf(CompositeCommitError);
+      expect(error.report).toMatchObject({
+        success: false,
+        partial: true,
+        committed: ['orders'],
+        notCommitted: ['billing', 'payments'],
+      });
+      expect(error.report.members.map((member) => member.outcome)).toEqual([
+        'COMMITTED',
+        'ROLLED_BACK',
+        'ROLLED_BACK',
+      ]);
+      expect(error.report.members[1].error?.message).toBe('invoice rejected');
+      expect(payments.state).toBe(TransactionState.RolledBack);
+      expect(composite.state).toBe(TransactionState.Failed);
+    });
+
+    it('should not report a partial commit when the first member fails', async () => {
+      await composite.start();
+      veto(orders, 'order rejected');
+
+      const error = await commitError();
+
+      expect(error.report.partial).toBe(false);
+      expect(error.report.committed).toEqual([]);
+      expect(billing.state).toBe(TransactionState.RolledBack);
+    });
+  });
+
+  describe('two-phase commit', () => {
+    beforeEach(() => {
+      (ordersClient as any).$executeRawUnsafe = jest.fn().mockResolvedValue(0);
+      (billingClient as any).$executeRawUnsafe = jest.fn().mockResolvedValue(0);
+      composite = new CompositeUnitOfWork({ orders, billing }, { twoPhaseCommit: true });
+    });
+
+    it('should prepare every member before committing', async () => {
+      await composite.start();
+      const ordersTx = (orders as any).txClient;
+
+      await composite.commit();
+
+      const [prepare] = ordersTx.$executeRawUnsafe.mock.calls[0];
+      const transactionId = /^PREPARE TRANSACTION '(.+)'$/.exec(prepare)![1];
+      expect(transactionId).toBe(`${composite.id}-0`);
+      expect((ordersClient as any).$executeRawUnsafe).toHaveBeenCalledWith(
+        `COMMIT PREPARED '${composite.id}-0'`
+      );
+      expect((billingClient as any).$executeRawUnsafe).toHaveBeenCalledWith(
+        `COMMIT PREPARED '${composite.id}-1'`
+      );
+    });
+
+    it('should roll back prepared members when a member cannot be prepared', async () => {
+      await composite.start();
+      veto(billing, 'invoice rejected');
+
+      const error = await commitError();
+
+      expect(error.report).toMatchObject({ partial: false, committed: [] });
+      expect((ordersClient as any).$executeRawUnsafe).toHaveBeenCalledWith(
+        `ROLLBACK PREPARED '${composite.id}-0'`
+      );
+      expect((billingClient as any).$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    describe('post-commit work', () => {
+      let dispatcher: { dispatch: jest.Mock; dispatchInTransaction: jest.Mock };
+      let afterCommit: jest.Mock;
+      let afterRollback: jest.Mock;
+
+      beforeEach(async () => {
+        dispatcher = {
+          dispatch: jest.fn().mockResolvedValue(undefined),
+          dispatchInTransaction: jest.fn().mockResolvedValue(undefined),
+        };
+        afterCommit = jest.fn();
+        afterRollback = jest.fn();
+        orders = new PrismaUnitOfWork(ordersClient as any, { domainEvents: dispatcher });
+        composite = new CompositeUnitOfWork({ orders, billing }, { twoPhaseCommit: true });
+        await composite.start();
+        const events = ['order-placed'];
+        orders.trackAggregate({ pullDomainEvents: () => events.splice(0) });
+        orders.onAfterCommit(afterCommit).onAfterRollback(afterRollback);
+      });
+
+      it('should dispatch events and run hooks after COMMIT PREPARED', async () => {
+        await composite.commit();
+
+        expect(dispatcher.dispatch).toHaveBeenCalledWith(['order-placed']);
+        expect(afterCommit).toHaveBeenCalledTimes(1);
+        expect(afterRollback).not.toHaveBeenCalled();
+        expect(dispatcher.dispatch.mock.invocationCallOrder[0]).toBeGreaterThan(
+          (ordersClient as any).$executeRawUnsafe.mock.invocationCallOrder[0]
+        );
+      });
+
+      it('should not dispatch events when another member cannot be prepared', async () => {
+        veto(billing, 'invoice rejected');
+
+        await commitError();
+
+        expect((ordersClient as any).$executeRawUnsafe).toHaveBeenCalledWith(
+          `ROLLBACK PREPARED '${composite.id}-0'`
+        );
+        expect(dispatcher.dispatch).not.toHaveBeenCalled();
+        expect(afterCommit).not.toHaveBeenCalled();
+        expect(afterRollback).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should report members left in doubt', async () => {
+      await composite.start();
+      (billingClient as any).$executeRawUnsafe.mockRejectedValueOnce(new Error('connection lost'));
+
+      const error = await commitError();
+
+      expect(error.report.partial).toBe(true);
+      expect(error.report.members[1]).toMatchObject({
+        name: 'billing',
+        outcome: 'IN_DOUBT',
+        transactionId: `${composite.id}-1`,
+      });
+      expect(error.report.members[1].error?.message).toContain('Failed to commit prepared');
+    });
+
+    it('should roll back when a database has no prepared transactions', async () => {
+      billing = new PrismaUnitOfWork(billingClient as any, { dialect: 'mysql' });
+      composite = new CompositeUnitOfWork({ orders, billing }, { twoPhaseCommit: true });
+      await composite.start();
+
+      const error = await commitError();
+
+      expect(error.report.members[1].error).toBeInstanceOf(UnsupportedOperationError);
+      expect(error.report.members.map((member) => member.outcome)).toEqual([
+        'ROLLED_BACK',
+        'ROLLED_BACK',
+      ]);
+      expect(billing.state).toBe(TransactionState.RolledBack);
+    });
+  });
+
+  describe('rollback', () => {
+    it('should roll back every member', async () => {
+      await composite.start();
+
+      const result = await composite.rollback();
+
+      expect(result.success).toBe(true);
+      expect(orders.state).toBe(TransactionState.RolledBack);
+      expect(billing.state).toBe(TransactionState.RolledBack);
+      expect(composite.state).toBe(TransactionState.RolledBack);
+    });
+  });
+
+  describe('executeInTransaction', () => {
+    it('should commit on success and roll back on error', async () => {
+      await expect(composite.executeInTransaction(async () => 'done')).resolves.toBe('done');
+
+      const other = new CompositeUnitOfWork({
+        orders: new PrismaUnitOfWork(new PrismaClient() as any),
+      });
+      await expect(
+        other.executeInTransaction(async () => {
+          throw new Error('business rule');
+        })
+      ).rejects.toThrow('business rule');
+      expect(other.state).toBe(TransactionState.RolledBack);
+    });
+  });
+
+  describe('savepoints', () => {
+    it('should create, roll back to and release savepoints on every member', async () => {
+      await composite.start();
+      const ordersTx = (orders as any).txClient;
+      const billingTx = (billing as any).txClient;
+
+      await composite.createSavepoint('sp1');
+      await composite.rollbackToSavepoint('sp1');
+      await composite.releaseSavepoint('sp1');
+
+      for (const tx of [ordersTx, billingTx]) {
+        expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+          ['SAVEPOINT "sp1"'],
+          ['ROLLBACK TO SAVEPOINT "sp1"'],
+          ['RELEASE SAVEPOINT "sp1"'],
+        ]);
+      }
+    });
+  });
+
+  describe('setContext', () => {
+    it('should set the context on every member', () => {
+      const context = new MockContext({ traceId: 'trace-1' }) as any;
+
+      composite.setContext(context);
+
+      expect(composite.context).toBe(context);
+      expect(orders.context).toBe(context);
+      expect(composite.getMember('billing')?.context).toBe(context);
+    });
+  });
+});
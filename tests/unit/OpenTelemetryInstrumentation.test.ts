@@ -0,0 +1,97 @@
+/**
+ * OpenTelemetryInstrumentation Unit Tests
+ */
+
+import { OpenTelemetryInstrumentation } from '../../src/instrumentation/OpenTelemetryInstrumentation';
+import { TransactionSpanName } from '../../src/types/prisma.types';
+import { TransactionError } from '../../src/errors/unit-of-work.errors';
+
+describe('OpenTelemetryInstrumentation', () => {
+  let span: {
+    setAttributes: jest.Mock;
+    setStatus: jest.Mock;
+    recordException: jest.Mock;
+    end: jest.Mock;
+  };
+  let tracer: { startSpan: jest.Mock };
+  let instrumentation: OpenTelemetryInstrumentation;
+
+  beforeEach(() => {
+    span = {
+      setAttributes: jest.fn(),
+      setStatus: jest.fn(),
+      recordException: jest.fn(),
+      end: jest.fn(),
+    };
+    tracer = { startSpan: jest.fn(() => span) };
+    instrumentation = new OpenTelemetryInstrumentation(tracer);
+  });
+
+  it('should start client spans for transaction operations', () => {
+    instrumentation.startSpan(TransactionSpanName.Commit, {
+      unitOfWorkId: 'uow-1',
+      traceId: 'trace-1',
+      isolationLevel: 'SERIALIZABLE',
+      readOnly: false,
+      savepointName: undefined,
+    });
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('transaction.commit', {
+      kind: 2,
+      attributes: {
+        'struktos.unit_of_work.id': 'uow-1',
+        'struktos.trace_id': 'trace-1',
+        'struktos.transaction.isolation_level': 'SERIALIZABLE',
+        'struktos.transaction.read_only': false,
+      },
+    });
+  });
+
+  it('should name repository spans after the token and method', () => {
+    instrumentation.startSpan(TransactionSpanName.RepositoryCall, {
+      unitOfWorkId: 'uow-1',
+      repositoryToken: 'OrderRepository',
+      repositoryMethod: 'findById',
+    });
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('OrderRepository.findById', {
+      kind: 0,
+      attributes: {
+        'struktos.unit_of_work.id': 'uow-1',
+        'struktos.repository.token': 'OrderRepository',
+        'struktos.repository.method': 'findById',
+      },
+    });
+  });
+
+  it('should record the duration when the span ends', () => {
+    instrumentation.startSpan(TransactionSpanName.Start, { unitOfWorkId: 'uow-1' }).end({
+      durationMs: 12,
+    });
+
+    expect(span.setAttributes).toHaveBeenCalledWith({ 'struktos.duration_ms': 12 });
+    expect(span.setStatus).not.toHaveBeenCalled();
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record errors with their code', () => {
+    const error = new TransactionError('Failed to commit', 'TRANSACTION_COMMIT_FAILED');
+
+    instrumentation
+      .startSpan(TransactionSpanName.Commit, { unitOfWorkId: 'uow-1' })
+      .end({ durationMs: 5, error, errorCode: error.code });
+
+    expect(span.setAttributes).toHaveBeenCalledWith({ 'error.type': 'TRANSACTION_COMMIT_FAILED' });
+    expect(span.recordException).toHaveBeenCalledWith(error);
+    expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: 'Failed to commit' });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the error name without a code', () => {
+    instrumentation
+      .startSpan(TransactionSpanName.Rollback, { unitOfWorkId: 'uow-1' })
+      .end({ durationMs: 5, error: new TypeError('boom') });
+
+    expect(span.setAttributes).toHaveBeenCalledWith({ 'error.type': 'TypeError' });
+  });
+});
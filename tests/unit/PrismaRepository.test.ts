@@ -2,9 +2,36 @@
  * PrismaRepository Unit Tests
  */
 
-import { createMockTransactionClient, createMockModelDelegate } from '../__mocks__/@prisma/client';
-import { PrismaRepository, PrismaCrudRepository, IRepository } from '../../src/repository/PrismaRepository';
-import type { PrismaTransactionClient } from '../../src/types/prisma.types';
+import {
+  PrismaClient,
+  createMockTransactionClient,
+  createMockModelDelegate,
+} from '../__mocks__/@prisma/client';
+import {
+  PrismaRepository,
+  PrismaCrudRepository,
+  IRepository,
+  type ConcurrencyConflict,
+  type ConflictResolution,
+  type VersionStrategy,
+} from '../../src/repository/PrismaRepository';
+import type { PrismaTransactionClient, UnitOfWorkScope } from '../../src/types/prisma.types';
+import {
+  ChangeTrackingError,
+  OptimisticConcurrencyError,
+  PrismaUnitOfWorkError,
+  NoActiveTransactionError,
+  LockNotAvailableError,
+  UnsupportedOperationError,
+  ReadOnlyTransactionViolationError,
+  TransactionRequiredError,
+} from '../../src/errors/unit-of-work.errors';
+import { RowLockWait } from '../../src/repository/row-locking';
+import { PostgresDialect } from '../../src/dialects/PostgresDialect';
+import { MySqlDialect } from '../../src/dialects/MySqlDialect';
+import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
+import { PrismaUnitOfWorkFactory } from '../../src/unit-of-work/PrismaUnitOfWorkFactory';
+import { TransactionPropagation } from '../../src/types/prisma.types';
 
 // Test entity interface
 interface TestEntity {
@@ -57,6 +84,53 @@ class TestPrismaCrudRepository extends PrismaCrudRepository<TestEntity, string>
   }
 }
 
+// Change-tracked implementation exposing the registration helpers
+class TrackedTestRepository extends PrismaCrudRepository<TestEntity, string> {
+  protected getModelDelegate() {
+    return (this.client as any).testEntity;
+  }
+
+  protected getModelName() {
+    return 'testEntity';
+  }
+
+  add(entity: TestEntity): void {
+    this.registerNew(entity);
+  }
+
+  save(entity: TestEntity): void {
+    this.registerDirty(entity);
+  }
+
+  remove(entity: TestEntity): void {
+    this.registerDeleted(entity);
+  }
+}
+
+// Unit of Work scope backed by a plain identity map
+const createScope = (
+  isChangeTrackingEnabled = true,
+  state = 'ACTIVE'
+): jest.Mocked<UnitOfWorkScope> => {
+  const identities = new Map<unknown, object>();
+  return {
+    state: state as UnitOfWorkScope['state'],
+    dialect: new PostgresDialect(),
+    isChangeTrackingEnabled,
+    trackAggregate: jest.fn(),
+    registerNew: jest.fn(),
+    registerDirty: jest.fn(),
+    registerDeleted: jest.fn(),
+    registerClean: jest.fn((_model: string, entity: any) => {
+      if (!identities.has(entity.id)) {
+        identities.set(entity.id, entity);
+      }
+      return identities.get(entity.id);
+    }) as any,
+    getTrackedEntity: jest.fn((_model: string, id: unknown) => identities.get(id)) as any,
+  };
+};
+
 describe('PrismaRepository', () => {
   let mockClient: any;
   let mockModel: any;
@@ -197,6 +271,23 @@ describe('PrismaRepository', () => {
       expect(result).toBe(2);
     });
   });
+
+  describe('trackAggregate', () => {
+    const aggregate = { pullDomainEvents: () => [] };
+
+    it('should register the aggregate with the Unit of Work', () => {
+      const unitOfWork = createScope();
+      const tracked = new TestPrismaRepository(mockClient as PrismaTransactionClient, unitOfWork);
+
+      (tracked as any).trackAggregate(aggregate);
+
+      expect(unitOfWork.trackAggregate).toHaveBeenCalledWith(aggregate);
+    });
+
+    it('should do nothing without a Unit of Work', () => {
+      expect(() => (repository as any).trackAggregate(aggregate)).not.toThrow();
+    });
+  });
 });
 
 describe('PrismaCrudRepository', () => {
@@ -315,4 +406,585 @@ describe('PrismaCrudRepository', () => {
       expect(result).toBe(42);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('PrismaCrudRepository change tracking', () => {
+  let mockModel: any;
+  let scope: jest.Mocked<UnitOfWorkScope>;
+  let repository: TrackedTestRepository;
+
+  const entity = (id: string): TestEntity => ({
+    id,
+    name: `Test ${id}`,
+    email: `${id}@example.com`,
+    createdAt: new Date(),
+  });
+
+  beforeEach(() => {
+    mockModel = createMockModelDelegate();
+    scope = createScope();
+    repository = new TrackedTestRepository({ testEntity: mockModel } as any, scope);
+  });
+
+  it('should return the same instance when loading an id twice', async () => {
+    mockModel.findUnique.mockImplementation(async () => entity('1'));
+
+    const first = await repository.findById('1');
+    const second = await repository.findById('1');
+
+    expect(second).toBe(first);
+    expect(mockModel.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map findAll results through the identity map', async () => {
+    mockModel.findUnique.mockResolvedValue(entity('1'));
+    const loaded = await repository.findById('1');
+    mockModel.findMany.mockResolvedValue([entity('1'), entity('2')]);
+
+    const all = await repository.findAll();
+
+    expect(all[0]).toBe(loaded);
+    expect(scope.registerClean).toHaveBeenCalledWith('testEntity', all[1]);
+  });
+
+  it('should forward registrations with the model name', () => {
+    const user = entity('1');
+
+    repository.add(user);
+    repository.save(user);
+    repository.remove(user);
+
+    expect(scope.registerNew).toHaveBeenCalledWith('testEntity', user);
+    expect(scope.registerDirty).toHaveBeenCalledWith('testEntity', user);
+    expect(scope.registerDeleted).toHaveBeenCalledWith('testEntity', user);
+  });
+
+  it('should refuse registrations without change tracking', () => {
+    const untracked = new TrackedTestRepository({ testEntity: mockModel } as any, createScope(false));
+
+    expect(() => untracked.add(entity('1'))).toThrow(ChangeTrackingError);
+  });
+
+  it('should bypass the identity map without change tracking', async () => {
+    const untracked = new TrackedTestRepository({ testEntity: mockModel } as any, createScope(false));
+    mockModel.findUnique.mockImplementation(async () => entity('1'));
+
+    const first = await untracked.findById('1');
+    const second = await untracked.findById('1');
+
+    expect(second).not.toBe(first);
+  });
+});
+
+describe('PrismaCrudRepository optimistic locking', () => {
+  interface VersionedEntity {
+    id: string;
+    title: string;
+    version: number;
+  }
+
+  class VersionedRepository extends PrismaCrudRepository<VersionedEntity, string> {
+    strategy: VersionStrategy = 'increment';
+    resolve = jest.fn(
+      async (_conflict: ConcurrencyConflict<VersionedEntity>): Promise<ConflictResolution<VersionedEntity>> => ({
+        action: 'fail',
+      })
+    );
+
+    protected getModelDelegate() {
+      return (this.client as any).document;
+    }
+
+    protected getVersionField() {
+      return 'version' as const;
+    }
+
+    protected getVersionStrategy() {
+      return this.strategy;
+    }
+
+    protected resolveConflict(conflict: ConcurrencyConflict<VersionedEntity>) {
+      return this.resolve(conflict);
+    }
+  }
+
+  const notFound = () => Object.assign(new Error('Record to update not found.'), { code: 'P2025' });
+
+  let mockModel: any;
+  let repository: VersionedRepository;
+
+  beforeEach(() => {
+    mockModel = createMockModelDelegate();
+    repository = new VersionedRepository({ document: mockModel } as any);
+  });
+
+  describe('update', () => {
+    it('should include the version in the where clause and increment it', async () => {
+      const updated = { id: 'd1', title: 'New', version: 4 };
+      mockModel.update.mockResolvedValue(updated);
+
+      const result = await repository.update('d1', { title: 'New', version: 3 });
+
+      expect(result).toBe(updated);
+      expect(mockModel.update).toHaveBeenCalledWith({
+        where: { id: 'd1', version: 3 },
+        data: { title: 'New', version: { increment: 1 } },
+      });
+    });
+
+    it('should prefer an explicit expected version', async () => {
+      mockModel.update.mockResolvedValue({});
+
+      await repository.update('d1', { title: 'New' }, 7);
+
+      expect(mockModel.update.mock.calls[0][0].where).toEqual({ id: 'd1', version: 7 });
+    });
+
+    it('should set a timestamp version with the timestamp strategy', async () => {
+      repository.strategy = 'timestamp';
+      mockModel.update.mockResolvedValue({});
+
+      await repository.update('d1', { title: 'New' }, new Date(0));
+
+      expect(mockModel.update.mock.calls[0][0].data.version).toBeInstanceOf(Date);
+    });
+
+    it('should require an expected version', async () => {
+      const error = await repository.update('d1', { title: 'New' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PrismaUnitOfWorkError);
+      expect((error as PrismaUnitOfWorkError).code).toBe('VERSION_REQUIRED');
+      expect(mockModel.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw OptimisticConcurrencyError on a stale version', async () => {
+      mockModel.update.mockRejectedValue(notFound());
+      mockModel.findUnique.mockResolvedValue({ id: 'd1', title: 'Other', version: 5 });
+
+      const error = await repository
+        .update('d1', { title: 'New', version: 3 })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OptimisticConcurrencyError);
+      expect(error).toMatchObject({ entityId: 'd1', expectedVersion: 3, actualVersion: 5 });
+    });
+
+    it('should return null when the entity no longer exists', async () => {
+      mockModel.update.mockRejectedValue(notFound());
+      mockModel.findUnique.mockResolvedValue(null);
+
+      await expect(repository.update('d1', { title: 'New', version: 3 })).resolves.toBeNull();
+      expect(repository.resolve).not.toHaveBeenCalled();
+    });
+
+    it('should retry with merged data against the current version', async () => {
+      const merged = { id: 'd1', title: 'Merged', version: 6 };
+      mockModel.update.mockRejectedValueOnce(notFound()).mockResolvedValueOnce(merged);
+      mockModel.findUnique.mockResolvedValue({ id: 'd1', title: 'Other', version: 5 });
+      repository.resolve.mockResolvedValueOnce({ action: 'retry', data: { title: 'Merged' } });
+
+      const result = await repository.update('d1', { title: 'New', version: 3 });
+
+      expect(result).toBe(merged);
+      expect(repository.resolve).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'update', attempt: 1, actualVersion: 5 })
+      );
+      expect(mockModel.update.mock.calls[1][0]).toEqual({
+        where: { id: 'd1', version: 5 },
+        data: { title: 'Merged', version: { increment: 1 } },
+      });
+    });
+
+    it('should return the stored entity when the conflict is skipped', async () => {
+      const current = { id: 'd1', title: 'Other', version: 5 };
+      mockModel.update.mockRejectedValue(notFound());
+      mockModel.findUnique.mockResolvedValue(current);
+      repository.resolve.mockResolvedValueOnce({ action: 'skip' });
+
+      await expect(repository.update('d1', { title: 'New', version: 3 })).resolves.toBe(current);
+    });
+
+    it('should stop retrying after the retry budget', async () => {
+      mockModel.update.mockRejectedValue(notFound());
+      mockModel.findUnique.mockResolvedValue({ id: 'd1', title: 'Other', version: 5 });
+      repository.resolve.mockResolvedValue({ action: 'retry' });
+
+      await expect(repository.update('d1', { title: 'New', version: 3 })).rejects.toThrow(
+        OptimisticConcurrencyError
+      );
+      expect(mockModel.update).toHaveBeenCalledTimes(4);
+    });
+
+    it('should rethrow other errors', async () => {
+      mockModel.update.mockRejectedValue(new Error('connection lost'));
+
+      await expect(repository.update('d1', { title: 'New', version: 3 })).rejects.toThrow(
+        'connection lost'
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should include the version in the where clause', async () => {
+      mockModel.delete.mockResolvedValue({});
+
+      await expect(repository.delete('d1', 3)).resolves.toBe(true);
+      expect(mockModel.delete).toHaveBeenCalledWith({ where: { id: 'd1', version: 3 } });
+    });
+
+    it('should require an expected version', async () => {
+      await expect(repository.delete('d1')).rejects.toThrow(PrismaUnitOfWorkError);
+    });
+
+    it('should throw OptimisticConcurrencyError on a stale version', async () => {
+      mockModel.delete.mockRejectedValue(notFound());
+      mockModel.findUnique.mockResolvedValue({ id: 'd1', title: 'Other', version: 5 });
+
+      await expect(repository.delete('d1', 3)).rejects.toThrow(OptimisticConcurrencyError);
+      expect(repository.resolve).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'delete', expectedVersion: 3 })
+      );
+    });
+
+    it('should return false when the entity no longer exists', async () => {
+      mockModel.delete.mockRejectedValue(notFound());
+      mockModel.findUnique.mockResolvedValue(null);
+
+      await expect(repository.delete('d1', 3)).resolves.toBe(false);
+    });
+
+    it('should retry against the current version when resolved', async () => {
+      mockModel.delete.mockRejectedValueOnce(notFound()).mockResolvedValueOnce({});
+      mockModel.findUnique.mockResolvedValue({ id: 'd1', title: 'Other', version: 5 });
+      repository.resolve.mockResolvedValueOnce({ action: 'retry' });
+
+      await expect(repository.delete('d1', 3)).resolves.toBe(true);
+      expect(mockModel.delete.mock.calls[1][0]).toEqual({ where: { id: 'd1', version: 5 } });
+    });
+  });
+});
+
+describe('PrismaCrudRepository row locking', () => {
+  class AccountRepository extends PrismaCrudRepository<TestEntity, string> {
+    protected getModelDelegate() {
+      return (this.client as any).account;
+    }
+
+    protected getModelName() {
+      return 'account';
+    }
+  }
+
+  let tx: any;
+  let repository: AccountRepository;
+
+  beforeEach(() => {
+    tx = { ...createMockTransactionClient(), account: createMockModelDelegate() };
+    tx.account.findMany.mockImplementation(async ({ where }: any) =>
+      where.id.in.map((id: string) => ({ id, name: id, email: `${id}@test.com`, createdAt: new Date() }))
+    );
+    repository = new AccountRepository(tx, createScope(false));
+  });
+
+  it('should lock the row with SELECT ... FOR UPDATE before loading it', async () => {
+    tx.$queryRawUnsafe.mockResolvedValue([{ id: 'a1' }]);
+
+    const account = await repository.findByIdForUpdate('a1');
+
+    expect(tx.$queryRawUnsafe).toHaveBeenCalledWith(
+      'SELECT "id" FROM "Account" WHERE "id" IN ($1) ORDER BY "id" FOR UPDATE',
+      'a1'
+    );
+    expect(tx.account.findMany).toHaveBeenCalledWith({
+      where: { id: { in: ['a1'] } },
+      orderBy: { id: 'asc' },
+    });
+    expect(account?.id).toBe('a1');
+  });
+
+  it('should lock several rows in sorted order without duplicates', async () => {
+    tx.$queryRawUnsafe.mockResolvedValue([{ id: 'a1' }, { id: 'a2' }, { id: 'a3' }]);
+
+    const accounts = await repository.findManyForUpdate(['a3', 'a1', 'a2', 'a1']);
+
+    const [sql, ...params] = tx.$queryRawUnsafe.mock.calls[0];
+    expect(sql).toContain('IN ($1, $2, $3) ORDER BY "id" FOR UPDATE');
+    expect(params).toEqual(['a1', 'a2', 'a3']);
+    expect(accounts.map((account) => account.id)).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('should take share locks with NOWAIT', async () => {
+    tx.$queryRawUnsafe.mockResolvedValue([{ id: 'a1' }]);
+
+    await repository.findByIdForShare('a1', { wait: RowLockWait.NoWait });
+    await repository.findManyForShare(['a1'], { wait: RowLockWait.NoWait });
+
+    expect(tx.$queryRawUnsafe.mock.calls[0][0]).toMatch(/FOR SHARE NOWAIT$/);
+    expect(tx.$queryRawUnsafe.mock.calls[1][0]).toMatch(/FOR SHARE NOWAIT$/);
+  });
+
+  it('should only load the rows locked with SKIP LOCKED', async () => {
+    tx.$queryRawUnsafe.mockResolvedValue([{ id: 'a2' }]);
+
+    const accounts = await repository.findManyForUpdate(['a1', 'a2'], {
+      wait: RowLockWait.SkipLocked,
+    });
+
+    expect(tx.$queryRawUnsafe.mock.calls[0][0]).toMatch(/FOR UPDATE SKIP LOCKED$/);
+    expect(accounts.map((account) => account.id)).toEqual(['a2']);
+  });
+
+  it('should return null without loading when no row is locked', async () => {
+    tx.$queryRawUnsafe.mockResolvedValue([]);
+
+    await expect(repository.findByIdForUpdate('missing')).resolves.toBeNull();
+    expect(tx.account.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should skip the query for an empty id list', async () => {
+    await expect(repository.findManyForUpdate([])).resolves.toEqual([]);
+    expect(tx.$queryRawUnsafe).not.toHaveBeenCalled();
+  });
+
+  it('should map lock conflicts to LockNotAvailableError', async () => {
+    tx.$queryRawUnsafe.mockRejectedValue(
+      Object.assign(new Error('could not obtain lock on row'), {
+        code: 'P2010',
+        meta: { code: '55P03' },
+      })
+    );
+
+    await expect(
+      repository.findByIdForUpdate('a1', { wait: RowLockWait.NoWait })
+    ).rejects.toThrow(LockNotAvailableError);
+  });
+
+  it('should rethrow other database errors', async () => {
+    tx.$queryRawUnsafe.mockRejectedValue(new Error('relation does not exist'));
+
+    await expect(repository.findByIdForUpdate('a1')).rejects.toThrow('relation does not exist');
+  });
+
+  it('should refuse to lock when the Unit of Work is not active', async () => {
+    repository = new AccountRepository(tx, createScope(false, 'COMMITTED'));
+
+    await expect(repository.findByIdForUpdate('a1')).rejects.toThrow(NoActiveTransactionError);
+    expect(tx.$queryRawUnsafe).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to lock through the root client', async () => {
+    repository = new AccountRepository({ ...tx, $transaction: jest.fn() });
+
+    await expect(repository.findManyForUpdate(['a1'])).rejects.toThrow(NoActiveTransactionError);
+  });
+
+  it('should allow standalone repositories on a transaction client', async () => {
+    repository = new AccountRepository(tx);
+    tx.$queryRawUnsafe.mockResolvedValue([{ id: 'a1' }]);
+
+    await expect(repository.findByIdForUpdate('a1')).resolves.toMatchObject({ id: 'a1' });
+  });
+
+  it('should generate SQL for the provider of the client', async () => {
+    tx._activeProvider = 'mysql';
+    repository = new AccountRepository(tx);
+    tx.$queryRawUnsafe.mockResolvedValue([]);
+
+    await repository.findManyForUpdate(['a2', 'a1']);
+
+    expect(tx.$queryRawUnsafe).toHaveBeenCalledWith(
+      'SELECT `id` FROM `Account` WHERE `id` IN (?, ?) ORDER BY `id` FOR UPDATE',
+      'a1',
+      'a2'
+    );
+  });
+
+  it('should use the dialect of the Unit of Work', async () => {
+    tx._activeProvider = 'postgresql';
+    repository = new AccountRepository(tx, { ...createScope(false), dialect: new MySqlDialect() });
+    tx.$queryRawUnsafe.mockResolvedValue([]);
+
+    await repository.findByIdForUpdate('a1');
+
+    expect(tx.$queryRawUnsafe.mock.calls[0][0]).toContain('FROM `Account`');
+  });
+
+  it('should reject providers without row locks', async () => {
+    tx._activeProvider = 'sqlite';
+    repository = new AccountRepository(tx);
+
+    await expect(repository.findByIdForUpdate('a1')).rejects.toThrow(UnsupportedOperationError);
+  });
+
+  it('should require a table name for raw SQL', async () => {
+    const unnamed = new TestPrismaCrudRepository(tx);
+
+    await expect(unnamed.findByIdForUpdate('a1')).rejects.toMatchObject({
+      code: 'TABLE_NAME_REQUIRED',
+    });
+  });
+});
+
+describe('PrismaRepository ambient transactions', () => {
+  class UserRepository extends PrismaCrudRepository<TestEntity, string> {
+    protected getModelDelegate() {
+      return (this.client as any).user;
+    }
+
+    get currentUnitOfWork(): UnitOfWorkScope | undefined {
+      return this.unitOfWork;
+    }
+  }
+
+  class StrictUserRepository extends UserRepository {
+    static strictTransactions = true;
+  }
+
+  const user = { name: 'John', email: 'john@example.com', createdAt: new Date() };
+
+  let prisma: PrismaClient;
+  let uow: PrismaUnitOfWork;
+  let repository: UserRepository;
+
+  beforeEach(() => {
+    prisma = new PrismaClient();
+    uow = new PrismaUnitOfWork(prisma as any);
+    repository = new UserRepository(prisma as any);
+  });
+
+  afterEach(async () => {
+    PrismaRepository.strictTransactions = false;
+    await uow.dispose();
+  });
+
+  it('should join the transaction of a running executeInTransaction callback', async () => {
+    let tx: any;
+
+    await uow.executeInTransaction(async (unitOfWork) => {
+      tx = (unitOfWork as any).txClient;
+      await Promise.resolve();
+      await repository.create(user);
+      expect(repository.currentUnitOfWork).toBe(unitOfWork);
+    });
+
+    expect(tx.user.create).toHaveBeenCalledWith({ data: user });
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('should use the root client outside of a transaction', async () => {
+    await uow.executeInTransaction(async () => undefined);
+
+    await repository.create(user);
+
+    expect(prisma.user.create).toHaveBeenCalledWith({ data: user });
+    expect(repository.currentUnitOfWork).toBeUndefined();
+  });
+
+  it('should join the innermost transaction', async () => {
+    let outerTx: any;
+
+    await uow.executeInTransaction(async (unitOfWork) => {
+      outerTx = (unitOfWork as any).txClient;
+      await unitOfWork.executeInTransaction(() => repository.create(user), {
+        propagation: TransactionPropagation.RequiresNew,
+      });
+    });
+
+    expect(outerTx.user.create).not.toHaveBeenCalled();
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('should not join transactions on other clients', async () => {
+    const other = new PrismaUnitOfWork(new PrismaClient() as any);
+
+    await other.executeInTransaction(() => repository.create(user));
+
+    expect(prisma.user.create).toHaveBeenCalledTimes(1);
+    await other.dispose();
+  });
+
+  it('should join the transaction from a read replica routing client', async () => {
+    const replica = new PrismaClient();
+    const factory = new PrismaUnitOfWorkFactory(prisma as any, {
+      readReplicas: { replicas: [replica as any] },
+    });
+    repository = new UserRepository(factory.getRoutingClient() as any);
+    uow = factory.create() as PrismaUnitOfWork;
+    let tx: any;
+
+    await expect(
+      uow.executeInTransaction(async (unitOfWork) => {
+        tx = (unitOfWork as any).txClient;
+        tx.user.findMany.mockResolvedValue([]);
+        await repository.create(user);
+        await repository.findAll();
+        throw new Error('payment declined');
+      })
+    ).rejects.toThrow('payment declined');
+
+    expect(uow.state).toBe('ROLLED_BACK');
+    expect(tx.user.create).toHaveBeenCalledWith({ data: user });
+    expect(tx.user.findMany).toHaveBeenCalledTimes(1);
+    expect(prisma.user.create).not.toHaveBeenCalled();
+    expect(replica.user.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should keep using a transaction client passed to the constructor', async () => {
+    const tx = createMockTransactionClient() as any;
+    repository = new UserRepository(tx);
+
+    await uow.executeInTransaction(() => repository.create(user));
+
+    expect(tx.user.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject writes in a read-only ambient transaction', async () => {
+    await expect(
+      uow.executeInTransaction(() => repository.create(user), { readOnly: true })
+    ).rejects.toThrow(ReadOnlyTransactionViolationError);
+  });
+
+  describe('strictTransactions', () => {
+    it('should reject writes outside of a transaction', async () => {
+      repository = new StrictUserRepository(prisma as any);
+
+      await expect(repository.create(user)).rejects.toMatchObject({
+        name: 'TransactionRequiredError',
+        operation: 'create',
+        model: 'user',
+      });
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow reads outside of a transaction', async () => {
+      repository = new StrictUserRepository(prisma as any);
+      prisma.user.findMany.mockResolvedValue([]);
+
+      await expect(repository.findAll()).resolves.toEqual([]);
+    });
+
+    it('should allow writes inside a transaction', async () => {
+      repository = new StrictUserRepository(prisma as any);
+
+      await uow.executeInTransaction(() => repository.create(user));
+
+      expect(uow.state).toBe('COMMITTED');
+    });
+
+    it('should reject writes when propagation runs without a transaction', async () => {
+      repository = new StrictUserRepository(prisma as any);
+
+      await expect(
+        uow.executeInTransaction(() => repository.create(user), {
+          propagation: TransactionPropagation.Never,
+        })
+      ).rejects.toThrow(TransactionRequiredError);
+    });
+
+    it('should apply to every repository when set on PrismaRepository', async () => {
+      PrismaRepository.strictTransactions = true;
+
+      await expect(repository.create(user)).rejects.toThrow(TransactionRequiredError);
+    });
+  });
+});
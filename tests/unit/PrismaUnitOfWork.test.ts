@@ -6,12 +6,27 @@ import { PrismaClient, createMockTransactionClient } from '../__mocks__/@prisma/
 import { MockContext, IsolationLevel, TransactionState } from '../__mocks__/@struktos/core';
 import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
 import {
+  TransactionError,
   TransactionAlreadyActiveError,
   NoActiveTransactionError,
   RepositoryNotRegisteredError,
+  TransactionTimeoutError,
+  TransactionCancelledError,
+  TransactionRetryExhaustedError,
+  ReadOnlyTransactionViolationError,
   UnitOfWorkDisposedError,
+  ChangeTrackingError,
+  LockNotAvailableError,
+  LockTimeoutError,
+  UnsupportedOperationError,
+  ErrorCodes,
 } from '../../src/errors/unit-of-work.errors';
+import { TransactionPropagation } from '../../src/types/prisma.types';
 import type { PrismaTransactionClient } from '../../src/types/prisma.types';
+import { createHash } from 'crypto';
+import { PostgresDialect } from '../../src/dialects/PostgresDialect';
+import { getAmbientTransaction } from '../../src/unit-of-work/ambient-transaction';
+import { SqliteDialect } from '../../src/dialects/SqliteDialect';
 
 // Mock repository for testing
 interface ITestRepository {
@@ -170,6 +185,1758 @@ describe('PrismaUnitOfWork', () => {
     });
   });
 
+  describe('commit', () => {
+    it('should resolve after the Prisma transaction has committed', async () => {
+      await unitOfWork.start();
+
+      const result = await unitOfWork.commit();
+
+      expect(result.success).toBe(true);
+      expect(result.duration).toBeGreaterThanOrEqual(0);
+      expect(unitOfWork.state).toBe('COMMITTED');
+    });
+
+    it('should throw TransactionError when the database commit fails', async () => {
+      const commitFailure = Object.assign(new Error('could not serialize access'), {
+        code: 'P2034',
+      });
+      prisma.$transaction.mockImplementationOnce(async (fn: (tx: unknown) => Promise<unknown>) => {
+        await fn(createMockTransactionClient());
+        throw commitFailure;
+      });
+
+      await unitOfWork.start();
+
+      const error = await unitOfWork.commit().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect((error as TransactionError).code).toBe('TRANSACTION_COMMIT_FAILED');
+      expect((error as TransactionError).cause).toBe(commitFailure);
+      expect(unitOfWork.state).toBe('FAILED');
+    });
+  });
+
+  describe('rollback', () => {
+    it('should resolve after the Prisma transaction has rolled back', async () => {
+      await unitOfWork.start();
+
+      const result = await unitOfWork.rollback();
+
+      expect(result.success).toBe(true);
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+    });
+  });
+
+  describe('asynchronous transaction failures', () => {
+    const expireAfterStart = (failure: Error) => {
+      prisma.$transaction.mockImplementationOnce(
+        (fn: (tx: unknown) => Promise<unknown>) =>
+          new Promise((_resolve, reject) => {
+            void fn(createMockTransactionClient());
+            setImmediate(() => reject(failure));
+          })
+      );
+    };
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    it('should move to FAILED as soon as Prisma expires the transaction', async () => {
+      expireAfterStart(
+        Object.assign(new Error('Transaction API error: Transaction already closed'), {
+          code: 'P2028',
+        })
+      );
+
+      await unitOfWork.start();
+      await flush();
+
+      expect(unitOfWork.state).toBe('FAILED');
+    });
+
+    it('should throw the stored TransactionTimeoutError from later operations', async () => {
+      unitOfWork.registerRepository('TestRepo', (tx) => new MockTestRepository(tx));
+      expireAfterStart(
+        Object.assign(new Error('Transaction API error: Transaction timed out'), {
+          code: 'P2024',
+        })
+      );
+
+      await unitOfWork.start({ timeout: 1000 });
+      await flush();
+
+      expect(() => unitOfWork.getRepository('TestRepo')).toThrow(TransactionTimeoutError);
+      await expect(unitOfWork.createSavepoint('sp1')).rejects.toThrow(TransactionTimeoutError);
+      await expect(unitOfWork.commit()).rejects.toThrow(TransactionTimeoutError);
+    });
+
+    it('should throw the stored TransactionError for other failures', async () => {
+      expireAfterStart(new Error('Connection lost'));
+
+      await unitOfWork.start();
+      await flush();
+
+      const error = await unitOfWork.commit().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TransactionError);
+      expect(error).not.toBeInstanceOf(TransactionTimeoutError);
+      expect((error as TransactionError).code).toBe('TRANSACTION_ERROR');
+    });
+
+    it('should reject start() when the transaction cannot be opened', async () => {
+      prisma.simulateConnectionError();
+
+      await expect(unitOfWork.start()).rejects.toThrow(TransactionError);
+      expect(unitOfWork.state).toBe('FAILED');
+    });
+
+    it('should report the failure from rollback()', async () => {
+      expireAfterStart(new Error('Connection lost'));
+
+      await unitOfWork.start();
+      await flush();
+
+      const result = await unitOfWork.rollback();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(TransactionError);
+    });
+  });
+
+  describe('executeInTransaction propagation', () => {
+    beforeEach(() => {
+      unitOfWork.registerRepository('TestRepo', (tx) => new MockTestRepository(tx));
+    });
+
+    describe('REQUIRED', () => {
+      it('should start a transaction when none is active', async () => {
+        const result = await unitOfWork.executeInTransaction(async () => 'done', {
+          propagation: TransactionPropagation.Required,
+        });
+
+        expect(result).toBe('done');
+        expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+        expect(unitOfWork.state).toBe('COMMITTED');
+      });
+
+      it('should join the active transaction', async () => {
+        await unitOfWork.executeInTransaction(async (outer) => {
+          const outerRepo = outer.getRepository('TestRepo');
+
+          await outer.executeInTransaction(async (inner) => {
+            expect(inner).toBe(outer);
+            expect(inner.getRepository('TestRepo')).toBe(outerRepo);
+          });
+
+          expect(outer.state).toBe('ACTIVE');
+        });
+
+        expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('REQUIRES_NEW', () => {
+      it('should run on a separate $transaction', async () => {
+        await unitOfWork.executeInTransaction(async (outer) => {
+          await outer.executeInTransaction(
+            async (inner) => {
+              expect(inner).not.toBe(outer);
+              expect(inner.state).toBe('ACTIVE');
+              expect(inner.hasRepository('TestRepo')).toBe(true);
+            },
+            { propagation: TransactionPropagation.RequiresNew }
+          );
+
+          expect(outer.state).toBe('ACTIVE');
+        });
+
+        expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      });
+
+      it('should use the dialect of the outer Unit of Work', async () => {
+        (prisma as any)._activeProvider = 'postgresql';
+        unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'mysql' });
+
+        await unitOfWork.executeInTransaction(async (outer) => {
+          await outer.executeInTransaction(
+            async (inner) => {
+              expect(inner.dialect).toBe(outer.dialect);
+            },
+            { propagation: TransactionPropagation.RequiresNew }
+          );
+        });
+      });
+
+      it('should not affect the outer transaction when the inner one fails', async () => {
+        await unitOfWork.executeInTransaction(async (outer) => {
+          await expect(
+            outer.executeInTransaction(
+              async () => {
+                throw new Error('inner failure');
+              },
+              { propagation: TransactionPropagation.RequiresNew }
+            )
+          ).rejects.toThrow('inner failure');
+
+          expect(outer.state).toBe('ACTIVE');
+        });
+
+        expect(unitOfWork.state).toBe('COMMITTED');
+      });
+    });
+
+    describe('NESTED', () => {
+      it('should wrap the callback in a released savepoint', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+
+        await unitOfWork.executeInTransaction(async () => undefined, {
+          propagation: TransactionPropagation.Nested,
+        });
+
+        expect(tx.$executeRawUnsafe).toHaveBeenCalledWith(expect.stringMatching(/^SAVEPOINT/));
+        expect(tx.$executeRawUnsafe).toHaveBeenCalledWith(
+          expect.stringMatching(/^RELEASE SAVEPOINT/)
+        );
+      });
+
+      it('should roll back to the savepoint and rethrow on failure', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+
+        await expect(
+          unitOfWork.executeInTransaction(
+            async () => {
+              throw new Error('nested failure');
+            },
+            { propagation: TransactionPropagation.Nested }
+          )
+        ).rejects.toThrow('nested failure');
+
+        expect(tx.$executeRawUnsafe).toHaveBeenCalledWith(
+          expect.stringMatching(/^ROLLBACK TO SAVEPOINT/)
+        );
+        expect(unitOfWork.state).toBe('ACTIVE');
+      });
+
+      it('should start a transaction when none is active', async () => {
+        await unitOfWork.executeInTransaction(async () => undefined, {
+          propagation: TransactionPropagation.Nested,
+        });
+
+        expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+        expect(unitOfWork.state).toBe('COMMITTED');
+      });
+    });
+
+    describe('MANDATORY', () => {
+      it('should throw NoActiveTransactionError when no transaction is active', async () => {
+        await expect(
+          unitOfWork.executeInTransaction(async () => undefined, {
+            propagation: TransactionPropagation.Mandatory,
+          })
+        ).rejects.toThrow(NoActiveTransactionError);
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should join the active transaction', async () => {
+        await unitOfWork.start();
+
+        const result = await unitOfWork.executeInTransaction(
+          async (inner) => inner.state,
+          { propagation: TransactionPropagation.Mandatory }
+        );
+
+        expect(result).toBe('ACTIVE');
+        expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('NEVER', () => {
+      it('should run without a transaction when none is active', async () => {
+        const result = await unitOfWork.executeInTransaction(async () => 'plain', {
+          propagation: TransactionPropagation.Never,
+        });
+
+        expect(result).toBe('plain');
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should create repositories on the root client', async () => {
+        const repository = await unitOfWork.executeInTransaction(
+          async (inner) => inner.getRepository<MockTestRepository>('TestRepo'),
+          { propagation: TransactionPropagation.Never }
+        );
+
+        expect(repository).toBeInstanceOf(MockTestRepository);
+        expect((repository as any).tx).toBe(prisma);
+      });
+
+      it('should throw TransactionAlreadyActiveError when a transaction is active', async () => {
+        await unitOfWork.start();
+
+        await expect(
+          unitOfWork.executeInTransaction(async () => undefined, {
+            propagation: TransactionPropagation.Never,
+          })
+        ).rejects.toThrow(TransactionAlreadyActiveError);
+      });
+    });
+
+    describe('SUPPORTS', () => {
+      it('should run without a transaction when none is active', async () => {
+        const result = await unitOfWork.executeInTransaction(async (inner) => inner.state, {
+          propagation: TransactionPropagation.Supports,
+        });
+
+        expect(result).toBe('INACTIVE');
+        expect(prisma.$transaction).not.toHaveBeenCalled();
+      });
+
+      it('should create repositories on the root client when none is active', async () => {
+        const repository = await unitOfWork.executeInTransaction(
+          async (inner) => inner.getRepository<MockTestRepository>('TestRepo'),
+          { propagation: TransactionPropagation.Supports }
+        );
+
+        expect((repository as any).tx).toBe(prisma);
+        expect(() => unitOfWork.getRepository('TestRepo')).toThrow(NoActiveTransactionError);
+
+        // Repositories of the next transaction use its client
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        expect((unitOfWork.getRepository('TestRepo') as any).tx).toBe(tx);
+      });
+
+      it('should join the active transaction', async () => {
+        await unitOfWork.start();
+
+        await unitOfWork.executeInTransaction(
+          async (inner) => {
+            expect(inner.getRepository('TestRepo')).toBeInstanceOf(MockTestRepository);
+          },
+          { propagation: TransactionPropagation.Supports }
+        );
+
+        expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('executeInTransaction retry', () => {
+    const conflict = () =>
+      Object.assign(new Error('Transaction failed due to a write conflict or a deadlock'), {
+        code: 'P2034',
+      });
+
+    it('should not retry without a retry policy', async () => {
+      const callback = jest.fn().mockRejectedValue(conflict());
+
+      await expect(unitOfWork.executeInTransaction(callback)).rejects.toMatchObject({
+        code: 'P2034',
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should re-run the callback on a fresh transaction', async () => {
+      unitOfWork.registerRepository('TestRepo', (tx) => new MockTestRepository(tx));
+      const repositories: unknown[] = [];
+      const callback = jest.fn(async (uow: PrismaUnitOfWork) => {
+        repositories.push(uow.getRepository('TestRepo'));
+        if (callback.mock.calls.length < 3) {
+          throw conflict();
+        }
+        return 'ok';
+      });
+
+      const result = await unitOfWork.executeInTransaction(callback, {
+        retry: { maxAttempts: 3, initialDelay: 0, jitter: false },
+      });
+
+      expect(result).toBe('ok');
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+      expect(new Set(repositories).size).toBe(3);
+      expect(unitOfWork.state).toBe('COMMITTED');
+    });
+
+    it('should retry failed commits', async () => {
+      prisma.$transaction.mockImplementationOnce(async (fn: (tx: unknown) => Promise<unknown>) => {
+        await fn(createMockTransactionClient());
+        throw conflict();
+      });
+
+      const result = await unitOfWork.executeInTransaction(async () => 'committed', {
+        retry: { maxAttempts: 2, initialDelay: 0 },
+      });
+
+      expect(result).toBe('committed');
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw TransactionRetryExhaustedError with every cause', async () => {
+      const causes = [conflict(), conflict(), conflict()];
+      let call = 0;
+
+      const error = await unitOfWork
+        .executeInTransaction(
+          async () => {
+            throw causes[call++];
+          },
+          { retry: { maxAttempts: 3, initialDelay: 1, jitter: false } }
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TransactionRetryExhaustedError);
+      expect((error as TransactionRetryExhaustedError).attempts).toBe(3);
+      expect((error as TransactionRetryExhaustedError).causes).toEqual(causes);
+      expect((error as TransactionRetryExhaustedError).cause).toBe(causes[2]);
+    });
+
+    it('should rethrow non-retryable errors immediately', async () => {
+      const callback = jest.fn().mockRejectedValue(new Error('validation failed'));
+
+      await expect(
+        unitOfWork.executeInTransaction(callback, { retry: { maxAttempts: 5, initialDelay: 0 } })
+      ).rejects.toThrow('validation failed');
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the configured default policy and custom predicate', async () => {
+      const isRetryable = jest.fn().mockReturnValue(true);
+      const uow = new PrismaUnitOfWork(prisma as any, {
+        retry: { maxAttempts: 2, initialDelay: 0, isRetryable },
+      });
+      const callback = jest.fn().mockRejectedValue(new Error('custom'));
+
+      await expect(uow.executeInTransaction(callback)).rejects.toThrow(
+        TransactionRetryExhaustedError
+      );
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(isRetryable).toHaveBeenCalledWith(expect.any(Error), 1);
+    });
+
+    it('should allow disabling the configured policy per call', async () => {
+      const uow = new PrismaUnitOfWork(prisma as any, { retry: { maxAttempts: 3 } });
+      const callback = jest.fn().mockRejectedValue(conflict());
+
+      await expect(uow.executeInTransaction(callback, { retry: false })).rejects.toMatchObject({
+        code: 'P2034',
+      });
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('read-only transactions', () => {
+    beforeEach(() => {
+      unitOfWork.registerRepository('Client', (tx) => tx);
+    });
+
+    it('should switch the database transaction to read-only mode', async () => {
+      await unitOfWork.start({ readOnly: true });
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$executeRawUnsafe).toHaveBeenCalledWith('SET TRANSACTION READ ONLY');
+    });
+
+    it('should not issue SET TRANSACTION for read-write transactions', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('should reject writes through repositories', async () => {
+      await unitOfWork.start({ readOnly: true });
+      const client = unitOfWork.getRepository<any>('Client');
+
+      expect(() => client.user.create({ data: { name: 'John' } })).toThrow(
+        ReadOnlyTransactionViolationError
+      );
+      expect(() => client.order.deleteMany({})).toThrow(ReadOnlyTransactionViolationError);
+      expect(() => client.$executeRawUnsafe('DELETE FROM users')).toThrow(
+        ReadOnlyTransactionViolationError
+      );
+    });
+
+    it('should report the violated operation and model', async () => {
+      await unitOfWork.start({ readOnly: true });
+      const client = unitOfWork.getRepository<any>('Client');
+
+      let error: ReadOnlyTransactionViolationError | undefined;
+      try {
+        client.user.update({ where: { id: '1' }, data: {} });
+      } catch (e) {
+        error = e as ReadOnlyTransactionViolationError;
+      }
+
+      expect(error?.code).toBe('READ_ONLY_TRANSACTION_VIOLATION');
+      expect(error?.operation).toBe('update');
+      expect(error?.model).toBe('user');
+      expect(error?.unitOfWorkId).toBe(unitOfWork.id);
+    });
+
+    it('should allow reads through repositories', async () => {
+      await unitOfWork.start({ readOnly: true });
+      const tx = (unitOfWork as any).txClient;
+      tx.user.findMany.mockResolvedValue([{ id: '1' }]);
+      const client = unitOfWork.getRepository<any>('Client');
+
+      await expect(client.user.findMany()).resolves.toEqual([{ id: '1' }]);
+    });
+  });
+
+  describe('cancellation', () => {
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+      unitOfWork.registerRepository('TestRepo', (tx) => new MockTestRepository(tx));
+    });
+
+    it('should refuse to start when the context is already cancelled', async () => {
+      const ctx = new MockContext({ traceId: 'trace-1' });
+      ctx.cancel();
+      unitOfWork.setContext(ctx as any);
+
+      await expect(unitOfWork.start()).rejects.toThrow(TransactionCancelledError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(unitOfWork.state).toBe('INACTIVE');
+    });
+
+    it('should roll back when the context is cancelled during the transaction', async () => {
+      const ctx = new MockContext({ traceId: 'trace-1' });
+      unitOfWork.setContext(ctx as any);
+      await unitOfWork.start();
+
+      ctx.cancel();
+      await flush();
+
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+      expect(() => unitOfWork.getRepository('TestRepo')).toThrow(TransactionCancelledError);
+      await expect(unitOfWork.commit()).rejects.toThrow(TransactionCancelledError);
+    });
+
+    it('should watch a context set while the transaction is active', async () => {
+      await unitOfWork.start();
+      const ctx = new MockContext();
+      unitOfWork.setContext(ctx as any);
+
+      ctx.cancel();
+      await flush();
+
+      await expect(unitOfWork.createSavepoint('sp1')).rejects.toThrow(TransactionCancelledError);
+    });
+
+    it('should ignore cancellation after the transaction has finished', async () => {
+      const ctx = new MockContext();
+      unitOfWork.setContext(ctx as any);
+      await unitOfWork.executeInTransaction(async () => undefined);
+
+      ctx.cancel();
+      await flush();
+
+      expect(unitOfWork.state).toBe('COMMITTED');
+    });
+
+    it('should reject executeInTransaction when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        unitOfWork.executeInTransaction(async () => undefined, { signal: controller.signal })
+      ).rejects.toThrow(TransactionCancelledError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when the signal is aborted during executeInTransaction', async () => {
+      const controller = new AbortController();
+      const reason = new Error('client disconnected');
+
+      const error = await unitOfWork
+        .executeInTransaction(
+          async (uow) => {
+            controller.abort(reason);
+            await flush();
+            return uow.getRepository('TestRepo');
+          },
+          { signal: controller.signal }
+        )
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(TransactionCancelledError);
+      expect((error as TransactionCancelledError).cause).toBe(reason);
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+    });
+
+    it('should not commit when aborted right before the callback returns', async () => {
+      const controller = new AbortController();
+
+      await expect(
+        unitOfWork.executeInTransaction(
+          async () => {
+            controller.abort();
+            await flush();
+          },
+          { signal: controller.signal }
+        )
+      ).rejects.toThrow(TransactionCancelledError);
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should refuse to register hooks without an active transaction', () => {
+      expect(() => unitOfWork.onBeforeCommit(jest.fn())).toThrow(NoActiveTransactionError);
+      expect(() => unitOfWork.onAfterCommit(jest.fn())).toThrow(NoActiveTransactionError);
+      expect(() => unitOfWork.onAfterRollback(jest.fn())).toThrow(NoActiveTransactionError);
+      expect(() => unitOfWork.onCompletion(jest.fn())).toThrow(NoActiveTransactionError);
+    });
+
+    it('should run hooks in order around a successful commit', async () => {
+      const calls: string[] = [];
+      let hookTx: unknown;
+
+      await unitOfWork.executeInTransaction(async (uow) => {
+        uow
+          .onBeforeCommit((tx) => {
+            hookTx = tx;
+            calls.push('before');
+          })
+          .onAfterCommit(() => {
+            calls.push('after-1');
+          })
+          .onAfterCommit(() => {
+            calls.push('after-2');
+          })
+          .onAfterRollback(() => {
+            calls.push('rollback');
+          })
+          .onCompletion((status) => {
+            calls.push(`completion:${status}`);
+          });
+        expect(hookTx).toBeUndefined();
+        return (uow as any).txClient;
+      });
+
+      expect(calls).toEqual(['before', 'after-1', 'after-2', 'completion:COMMITTED']);
+      expect(hookTx).toBeDefined();
+    });
+
+    it('should run beforeCommit hooks registered by other hooks', async () => {
+      const second = jest.fn();
+
+      await unitOfWork.start();
+      unitOfWork.onBeforeCommit(() => {
+        unitOfWork.onBeforeCommit(second);
+      });
+      await unitOfWork.commit();
+
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back and rethrow when a beforeCommit hook vetoes', async () => {
+      const veto = new Error('invariant violated');
+      const afterCommit = jest.fn();
+      const afterRollback = jest.fn();
+      const completion = jest.fn();
+
+      const error = await unitOfWork
+        .executeInTransaction(async (uow) => {
+          uow
+            .onBeforeCommit(() => {
+              throw veto;
+            })
+            .onAfterCommit(afterCommit)
+            .onAfterRollback(afterRollback)
+            .onCompletion(completion);
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBe(veto);
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+      expect(afterCommit).not.toHaveBeenCalled();
+      expect(afterRollback).toHaveBeenCalledTimes(1);
+      expect(completion).toHaveBeenCalledWith('ROLLED_BACK', expect.objectContaining({ success: true }));
+    });
+
+    it('should run afterRollback hooks once on explicit rollback', async () => {
+      const afterRollback = jest.fn();
+
+      await unitOfWork.start();
+      unitOfWork.onAfterRollback(afterRollback);
+      await unitOfWork.rollback();
+      await unitOfWork.rollback();
+
+      expect(afterRollback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run afterRollback hooks when the commit fails', async () => {
+      prisma.$transaction.mockImplementationOnce(
+        async (fn: (tx: unknown) => Promise<unknown>) => {
+          await fn(createMockTransactionClient());
+          throw new Error('could not commit');
+        }
+      );
+      const afterCommit = jest.fn();
+      const afterRollback = jest.fn();
+
+      await unitOfWork.start();
+      unitOfWork.onAfterCommit(afterCommit).onAfterRollback(afterRollback);
+
+      await expect(unitOfWork.commit()).rejects.toThrow(TransactionError);
+      expect(afterCommit).not.toHaveBeenCalled();
+      expect(afterRollback).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, error: expect.any(Error) })
+      );
+    });
+
+    it('should isolate and log after-hook errors', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { logger });
+      const next = jest.fn();
+
+      await unitOfWork.start();
+      unitOfWork
+        .onAfterCommit(() => {
+          throw new Error('cache unavailable');
+        })
+        .onAfterCommit(next);
+
+      const result = await unitOfWork.commit();
+
+      expect(result.success).toBe(true);
+      expect(next).toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith(
+        'Transaction hook failed',
+        expect.objectContaining({ hook: 'afterCommit', error: 'cache unavailable' })
+      );
+    });
+  });
+
+  describe('domain events', () => {
+    class TestAggregate {
+      private events: string[] = [];
+
+      raise(event: string): void {
+        this.events.push(event);
+      }
+
+      pullDomainEvents(): string[] {
+        const events = this.events;
+        this.events = [];
+        return events;
+      }
+    }
+
+    class AggregateRepository {
+      constructor(private readonly unitOfWork: { trackAggregate(aggregate: TestAggregate): void }) {}
+
+      save(aggregate: TestAggregate): void {
+        this.unitOfWork.trackAggregate(aggregate);
+      }
+    }
+
+    let dispatcher: { dispatch: jest.Mock; dispatchInTransaction: jest.Mock };
+
+    beforeEach(() => {
+      dispatcher = {
+        dispatch: jest.fn().mockResolvedValue(undefined),
+        dispatchInTransaction: jest.fn().mockResolvedValue(undefined),
+      };
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { domainEvents: dispatcher });
+      unitOfWork.registerRepository('AggregateRepo', (_tx, uow) => new AggregateRepository(uow));
+    });
+
+    it('should refuse to track aggregates without an active transaction', () => {
+      expect(() => unitOfWork.trackAggregate(new TestAggregate())).toThrow(
+        NoActiveTransactionError
+      );
+    });
+
+    it('should dispatch events in order after a successful commit', async () => {
+      const first = new TestAggregate();
+      const second = new TestAggregate();
+
+      await unitOfWork.executeInTransaction(async (uow) => {
+        const repo = uow.getRepository<AggregateRepository>('AggregateRepo');
+        first.raise('first-1');
+        second.raise('second-1');
+        repo.save(first);
+        repo.save(second);
+        first.raise('first-2');
+        expect(dispatcher.dispatch).not.toHaveBeenCalled();
+      });
+
+      expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.dispatch).toHaveBeenCalledWith(['first-1', 'first-2', 'second-1']);
+    });
+
+    it('should run in-transaction handlers against the live client before committing', async () => {
+      const aggregate = new TestAggregate();
+      let txClient: unknown;
+
+      await unitOfWork.executeInTransaction(async (uow) => {
+        txClient = (uow as any).txClient;
+        aggregate.raise('placed');
+        uow.trackAggregate(aggregate);
+      });
+
+      expect(dispatcher.dispatchInTransaction).toHaveBeenCalledWith(['placed'], txClient);
+      expect(dispatcher.dispatchInTransaction.mock.invocationCallOrder[0]).toBeLessThan(
+        dispatcher.dispatch.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should collect events raised by in-transaction handlers', async () => {
+      const aggregate = new TestAggregate();
+      dispatcher.dispatchInTransaction.mockImplementationOnce(async () => {
+        aggregate.raise('follow-up');
+      });
+
+      await unitOfWork.executeInTransaction(async (uow) => {
+        aggregate.raise('placed');
+        uow.trackAggregate(aggregate);
+      });
+
+      expect(dispatcher.dispatchInTransaction).toHaveBeenCalledTimes(2);
+      expect(dispatcher.dispatch).toHaveBeenCalledWith(['placed', 'follow-up']);
+    });
+
+    it('should roll back when an in-transaction handler throws', async () => {
+      const aggregate = new TestAggregate();
+      const failure = new Error('projection failed');
+      dispatcher.dispatchInTransaction.mockRejectedValueOnce(failure);
+
+      await expect(
+        unitOfWork.executeInTransaction(async (uow) => {
+          aggregate.raise('placed');
+          uow.trackAggregate(aggregate);
+        })
+      ).rejects.toBe(failure);
+
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should discard events of a rolled-back transaction', async () => {
+      const aggregate = new TestAggregate();
+
+      await expect(
+        unitOfWork.executeInTransaction(async (uow) => {
+          aggregate.raise('placed');
+          uow.trackAggregate(aggregate);
+          throw new Error('business rule violated');
+        })
+      ).rejects.toThrow('business rule violated');
+
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+      expect(aggregate.pullDomainEvents()).toEqual([]);
+    });
+
+    it('should discard events when the commit fails', async () => {
+      prisma.$transaction.mockImplementationOnce(
+        async (fn: (tx: unknown) => Promise<unknown>) => {
+          await fn(createMockTransactionClient());
+          throw new Error('could not commit');
+        }
+      );
+      const aggregate = new TestAggregate();
+
+      await unitOfWork.start();
+      aggregate.raise('placed');
+      unitOfWork.trackAggregate(aggregate);
+
+      await expect(unitOfWork.commit()).rejects.toThrow(TransactionError);
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should log dispatch errors without failing the commit', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      dispatcher.dispatch.mockRejectedValueOnce(new Error('bus unavailable'));
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { domainEvents: dispatcher, logger });
+      const aggregate = new TestAggregate();
+
+      await unitOfWork.start();
+      aggregate.raise('placed');
+      unitOfWork.trackAggregate(aggregate);
+      const result = await unitOfWork.commit();
+
+      expect(result.success).toBe(true);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Domain event dispatch failed',
+        expect.objectContaining({ error: 'bus unavailable', eventCount: 1 })
+      );
+    });
+
+    it('should leave aggregates untouched without a dispatcher', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any);
+      const aggregate = new TestAggregate();
+
+      await unitOfWork.executeInTransaction(async (uow) => {
+        aggregate.raise('placed');
+        uow.trackAggregate(aggregate);
+      });
+
+      expect(aggregate.pullDomainEvents()).toEqual(['placed']);
+    });
+  });
+
+  describe('change tracking', () => {
+    beforeEach(() => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, {
+        changeTracking: { modelOrder: ['user', 'order'] },
+      });
+    });
+
+    it('should reject registrations when change tracking is disabled', async () => {
+      const plain = new PrismaUnitOfWork(prisma as any);
+      await plain.start();
+
+      expect(plain.isChangeTrackingEnabled).toBe(false);
+      expect(() => plain.registerNew('user', { id: '1' })).toThrow(ChangeTrackingError);
+      expect(plain.registerClean('user', { id: '1' })).toEqual({ id: '1' });
+
+      await plain.dispose();
+    });
+
+    it('should require an active transaction', () => {
+      expect(() => unitOfWork.registerNew('user', { id: '1' })).toThrow(NoActiveTransactionError);
+    });
+
+    it('should flush registered changes on commit', async () => {
+      let tx: any;
+
+      await unitOfWork.executeInTransaction(async (uow) => {
+        tx = (uow as any).txClient;
+        uow.registerNew('order', { id: 'o1', userId: 'u1' });
+        uow.registerNew('user', { id: 'u1' });
+        expect(tx.user.createMany).not.toHaveBeenCalled();
+      });
+
+      expect(tx.user.createMany).toHaveBeenCalledWith({ data: [{ id: 'u1' }] });
+      expect(tx.user.createMany.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.order.createMany.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should write changes early with flush()', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      unitOfWork.registerDeleted('user', { id: 'u1' });
+
+      const summary = await unitOfWork.flush();
+
+      expect(summary).toEqual({ inserted: 0, updated: 0, deleted: 1 });
+      expect(tx.user.deleteMany).toHaveBeenCalledTimes(1);
+
+      await unitOfWork.commit();
+      expect(tx.user.deleteMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep one instance per id within a transaction', async () => {
+      await unitOfWork.start();
+      const first = unitOfWork.registerClean('user', { id: 'u1' });
+
+      expect(unitOfWork.registerClean('user', { id: 'u1' })).toBe(first);
+      expect(unitOfWork.getTrackedEntity('user', 'u1')).toBe(first);
+    });
+
+    it('should roll back when flushing on commit fails', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      tx.user.createMany.mockRejectedValueOnce(new Error('unique constraint'));
+      unitOfWork.registerNew('user', { id: 'u1' });
+
+      await expect(unitOfWork.commit()).rejects.toThrow('unique constraint');
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+    });
+
+    it('should flush changes raised by in-transaction event handlers', async () => {
+      const aggregate = { pullDomainEvents: jest.fn().mockReturnValueOnce(['placed']).mockReturnValue([]) };
+      unitOfWork = new PrismaUnitOfWork(prisma as any, {
+        changeTracking: {},
+        domainEvents: {
+          dispatch: jest.fn().mockResolvedValue(undefined),
+          dispatchInTransaction: async () => {
+            unitOfWork.registerNew('order', { id: 'o1' });
+          },
+        },
+      });
+
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      unitOfWork.trackAggregate(aggregate);
+      await unitOfWork.commit();
+
+      expect(tx.order.createMany).toHaveBeenCalledWith({ data: [{ id: 'o1' }] });
+    });
+
+    it('should flush before creating a savepoint and forget entities on rollback to it', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      unitOfWork.registerNew('user', { id: 'u1' });
+
+      await unitOfWork.createSavepoint('sp1');
+      expect(tx.user.createMany).toHaveBeenCalledTimes(1);
+
+      unitOfWork.registerClean('user', { id: 'u2' });
+      await unitOfWork.rollbackToSavepoint('sp1');
+
+      expect(unitOfWork.getTrackedEntity('user', 'u2')).toBeUndefined();
+    });
+  });
+
+  describe('database timeouts', () => {
+    const databaseError = (code: string) =>
+      Object.assign(new Error(`Raw query failed. Code: \`${code}\``), {
+        code: 'P2010',
+        meta: { code },
+      });
+
+    it('should set the timeouts when the transaction opens', async () => {
+      await unitOfWork.start({ databaseOptions: { statementTimeout: 5000, lockTimeout: 1000 } });
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SET LOCAL statement_timeout = 5000'],
+        ['SET LOCAL lock_timeout = 1000'],
+      ]);
+    });
+
+    it('should apply configured defaults unless overridden', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, {
+        defaultStatementTimeout: 5000,
+        defaultLockTimeout: 1000,
+      });
+      await unitOfWork.start({ databaseOptions: { lockTimeout: 250 } });
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SET LOCAL statement_timeout = 5000'],
+        ['SET LOCAL lock_timeout = 250'],
+      ]);
+    });
+
+    it('should not issue statements without timeouts', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('should restore session-scoped timeouts before the transaction ends', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'mysql' });
+      await unitOfWork.start({ databaseOptions: { statementTimeout: 5000, lockTimeout: 1500 } });
+      const tx = (unitOfWork as any).txClient;
+
+      await unitOfWork.rollback();
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SET SESSION max_execution_time = 5000'],
+        ['SET SESSION innodb_lock_wait_timeout = 2'],
+        ['SET SESSION max_execution_time = DEFAULT'],
+        ['SET SESSION innodb_lock_wait_timeout = DEFAULT'],
+      ]);
+    });
+
+    it('should report session-scoped timeouts left behind by an expired transaction', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const tx = createMockTransactionClient();
+      prisma.$transaction.mockImplementationOnce(
+        (fn: (tx: unknown) => Promise<unknown>) =>
+          new Promise((_resolve, reject) => {
+            void fn(tx);
+            setImmediate(() => reject(new Error('Transaction API error: Transaction timed out')));
+          })
+      );
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'mysql', logger });
+
+      await unitOfWork.start({ databaseOptions: { lockTimeout: 1500 } });
+      await new Promise((resolve) => setImmediate(resolve));
+      await unitOfWork.rollback();
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SET SESSION innodb_lock_wait_timeout = 2'],
+      ]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Session settings not restored after the transaction failed',
+        expect.objectContaining({ resets: ['SET SESSION innodb_lock_wait_timeout = DEFAULT'] })
+      );
+    });
+
+    it('should reject timeouts the dialect cannot apply before opening a transaction', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'sqlserver' });
+
+      await expect(
+        unitOfWork.start({ databaseOptions: { statementTimeout: 5000 } })
+      ).rejects.toThrow(UnsupportedOperationError);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(unitOfWork.state).toBe('INACTIVE');
+    });
+
+    it('should map statement timeouts to StatementTimeoutError', async () => {
+      const error = databaseError('57014');
+
+      await expect(
+        unitOfWork.executeInTransaction(
+          async () => {
+            throw error;
+          },
+          { databaseOptions: { statementTimeout: 5000 } }
+        )
+      ).rejects.toMatchObject({ name: 'StatementTimeoutError', timeoutMs: 5000, cause: error });
+      expect(unitOfWork.state).toBe('ROLLED_BACK');
+    });
+
+    it('should map lock timeouts to LockTimeoutError', async () => {
+      await expect(
+        unitOfWork.executeInTransaction(
+          async () => {
+            throw databaseError('55P03');
+          },
+          { databaseOptions: { lockTimeout: 1000 } }
+        )
+      ).rejects.toMatchObject({ name: 'LockTimeoutError', timeoutMs: 1000 });
+    });
+
+    it('should not map errors of timeouts the transaction did not set', async () => {
+      const error = databaseError('57014');
+
+      await expect(
+        unitOfWork.executeInTransaction(
+          async () => {
+            throw error;
+          },
+          { databaseOptions: { lockTimeout: 1000 } }
+        )
+      ).rejects.toBe(error);
+    });
+  });
+
+  describe('session variables', () => {
+    const setConfig = 'SELECT set_config($1, $2, true)';
+
+    it('should set the variables mapped from the context when the transaction starts', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, {
+        sessionVariables: (data) => ({
+          'app.tenant_id': data.tenantId as string,
+          'app.user_id': data.userId,
+          'app.is_admin': data.roles?.includes('admin') ?? false,
+          search_path: 'tenant_acme, public',
+        }),
+      });
+      unitOfWork.setContext(new MockContext({ tenantId: 'acme', userId: 'u1' } as any));
+
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$queryRawUnsafe.mock.calls).toEqual([
+        [setConfig, 'app.tenant_id', 'acme'],
+        [setConfig, 'app.user_id', 'u1'],
+        [setConfig, 'app.is_admin', 'false'],
+        [setConfig, 'search_path', 'tenant_acme, public'],
+      ]);
+    });
+
+    it('should skip unset values', async () => {
+      const mapper = jest.fn((data: Record<string, unknown>) => ({
+        'app.tenant_id': data.tenantId as string | undefined,
+        'app.user_id': null,
+      }));
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { sessionVariables: mapper });
+
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      expect(mapper).toHaveBeenCalledWith({});
+      expect(tx.$queryRawUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('should map the context of each Unit of Work', async () => {
+      const config = {
+        sessionVariables: (data: Record<string, unknown>) => ({
+          'app.tenant_id': data.tenantId as string,
+        }),
+      };
+      const acme = new PrismaUnitOfWork(prisma as any, config);
+      const globex = new PrismaUnitOfWork(prisma as any, config);
+      acme.setContext(new MockContext({ tenantId: 'acme' } as any));
+      globex.setContext(new MockContext({ tenantId: 'globex' } as any));
+
+      await acme.start();
+      await globex.start();
+
+      expect((acme as any).txClient.$queryRawUnsafe).toHaveBeenCalledWith(
+        setConfig,
+        'app.tenant_id',
+        'acme'
+      );
+      expect((globex as any).txClient.$queryRawUnsafe).toHaveBeenCalledWith(
+        setConfig,
+        'app.tenant_id',
+        'globex'
+      );
+      await acme.dispose();
+      await globex.dispose();
+    });
+
+    it('should not open a transaction when the mapper throws', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, {
+        sessionVariables: () => {
+          throw new Error('tenant missing');
+        },
+      });
+
+      await expect(unitOfWork.start()).rejects.toThrow('tenant missing');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(unitOfWork.state).toBe('INACTIVE');
+    });
+
+    it('should reject dialects without transaction-scoped variables', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, {
+        dialect: 'mysql',
+        sessionVariables: () => ({ 'app.tenant_id': 'acme' }),
+      });
+
+      await expect(unitOfWork.start()).rejects.toThrow(UnsupportedOperationError);
+    });
+  });
+
+  describe('savepoint names', () => {
+    it.each(['sp"; DROP TABLE users; --', '1st', '', 'a'.repeat(33), 'before order'])(
+      'should reject %j without executing SQL',
+      async (name) => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+
+        await expect(unitOfWork.createSavepoint(name)).rejects.toMatchObject({
+          name: 'SavepointError',
+          code: ErrorCodes.INVALID_SAVEPOINT_NAME,
+          savepointName: name,
+        });
+        expect(tx.$executeRawUnsafe).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should accept identifiers up to 32 characters', async () => {
+      await unitOfWork.start();
+
+      await expect(unitOfWork.createSavepoint('_' + 'a'.repeat(31))).resolves.toBeUndefined();
+    });
+
+    it('should map labels to generated identifiers', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      const label = 'import "orders.csv"; row 7';
+
+      await unitOfWork.createSavepoint(label, { label: true });
+      await unitOfWork.rollbackToSavepoint(label);
+      await unitOfWork.releaseSavepoint(label);
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SAVEPOINT "label_1"'],
+        ['ROLLBACK TO SAVEPOINT "label_1"'],
+        ['RELEASE SAVEPOINT "label_1"'],
+      ]);
+    });
+
+    it('should not reuse identifiers of active savepoints', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      await unitOfWork.createSavepoint('first step', { label: true });
+      await expect(unitOfWork.createSavepoint('label_1')).rejects.toMatchObject({
+        code: ErrorCodes.SAVEPOINT_CREATE_FAILED,
+      });
+      await unitOfWork.createSavepoint('label_2');
+      await unitOfWork.createSavepoint('second step', { label: true });
+
+      expect(tx.$executeRawUnsafe).toHaveBeenLastCalledWith('SAVEPOINT "label_3"');
+    });
+
+    it('should reject empty labels', async () => {
+      await unitOfWork.start();
+
+      await expect(unitOfWork.createSavepoint('', { label: true })).rejects.toMatchObject({
+        code: ErrorCodes.INVALID_SAVEPOINT_NAME,
+      });
+    });
+  });
+
+  describe('savepoint stack', () => {
+    beforeEach(async () => {
+      await unitOfWork.start();
+    });
+
+    it('should record sequence, depth and parent', async () => {
+      await unitOfWork.createSavepoint('a');
+      await unitOfWork.createSavepoint('b');
+
+      expect(unitOfWork.getSavepoints()).toEqual([
+        expect.objectContaining({ name: 'a', sequence: 1, depth: 1, parent: undefined }),
+        expect.objectContaining({ name: 'b', sequence: 2, depth: 2, parent: 'a' }),
+      ]);
+      expect(unitOfWork.currentSavepoint?.name).toBe('b');
+    });
+
+    it('should discard savepoints created in the same millisecond on rollback', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      try {
+        await unitOfWork.createSavepoint('a');
+        await unitOfWork.createSavepoint('b');
+        await unitOfWork.createSavepoint('c');
+
+        await unitOfWork.rollbackToSavepoint('b');
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(unitOfWork.getSavepoints().map((savepoint) => savepoint.name)).toEqual(['a', 'b']);
+      await expect(unitOfWork.releaseSavepoint('c')).rejects.toThrow("'c'");
+    });
+
+    it('should release the savepoints above a released savepoint', async () => {
+      await unitOfWork.createSavepoint('a');
+      await unitOfWork.createSavepoint('b');
+      await unitOfWork.createSavepoint('c');
+
+      await unitOfWork.releaseSavepoint('b');
+
+      expect(unitOfWork.getSavepoints().map((savepoint) => savepoint.name)).toEqual(['a']);
+      expect(unitOfWork.currentSavepoint?.name).toBe('a');
+    });
+
+    it('should keep sequence numbers increasing after savepoints are released', async () => {
+      await unitOfWork.createSavepoint('a');
+      await unitOfWork.releaseSavepoint('a');
+      await unitOfWork.createSavepoint('a');
+
+      expect(unitOfWork.currentSavepoint).toMatchObject({ name: 'a', sequence: 2, depth: 1 });
+    });
+
+    it('should return snapshots', async () => {
+      await unitOfWork.createSavepoint('a');
+
+      (unitOfWork.getSavepoints()[0] as any).depth = 5;
+      (unitOfWork.currentSavepoint as any).depth = 5;
+
+      expect(unitOfWork.currentSavepoint?.depth).toBe(1);
+    });
+
+    it('should track the nesting of withSavepoint', async () => {
+      const depths: number[] = [];
+
+      await unitOfWork.withSavepoint(async (outer) => {
+        depths.push(outer.currentSavepoint!.depth);
+        await outer.withSavepoint(async (inner) => {
+          depths.push(inner.currentSavepoint!.depth);
+        });
+      });
+
+      expect(depths).toEqual([1, 2]);
+      expect(unitOfWork.currentSavepoint).toBeUndefined();
+    });
+
+    it('should be empty after the transaction ends', async () => {
+      await unitOfWork.createSavepoint('a');
+      await unitOfWork.commit();
+
+      expect(unitOfWork.getSavepoints()).toEqual([]);
+    });
+  });
+
+  describe('withSavepoint', () => {
+    beforeEach(async () => {
+      unitOfWork.registerRepository('TestRepository', (tx) => new MockTestRepository(tx));
+      await unitOfWork.start();
+    });
+
+    it('should release the savepoint and return the result', async () => {
+      const tx = (unitOfWork as any).txClient;
+      const repository = unitOfWork.getRepository('TestRepository');
+
+      const result = await unitOfWork.withSavepoint(async () => 'done');
+
+      expect(result).toBe('done');
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SAVEPOINT "savepoint_1"'],
+        ['RELEASE SAVEPOINT "savepoint_1"'],
+      ]);
+      expect(unitOfWork.getRepository('TestRepository')).toBe(repository);
+    });
+
+    it('should roll back to the savepoint and rethrow on failure', async () => {
+      const tx = (unitOfWork as any).txClient;
+      const repository = unitOfWork.getRepository('TestRepository');
+
+      await expect(
+        unitOfWork.withSavepoint(
+          async () => {
+            throw new Error('step failed');
+          },
+          { name: 'step' }
+        )
+      ).rejects.toThrow('step failed');
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SAVEPOINT "step"'],
+        ['ROLLBACK TO SAVEPOINT "step"'],
+        ['RELEASE SAVEPOINT "step"'],
+      ]);
+      expect(unitOfWork.getRepository('TestRepository')).not.toBe(repository);
+      expect(unitOfWork.state).toBe('ACTIVE');
+    });
+
+    it('should swallow errors when requested', async () => {
+      const result = await unitOfWork.withSavepoint(
+        async () => {
+          throw new Error('optional step failed');
+        },
+        { swallowErrors: true }
+      );
+
+      expect(result).toBeUndefined();
+      await expect(unitOfWork.rollbackToSavepoint('savepoint_1')).rejects.toThrow(
+        "'savepoint_1'"
+      );
+    });
+
+    it('should nest savepoints', async () => {
+      const tx = (unitOfWork as any).txClient;
+
+      await unitOfWork.withSavepoint(async (outer) => {
+        await outer.withSavepoint(
+          async () => {
+            throw new Error('inner failure');
+          },
+          { swallowErrors: true }
+        );
+        await outer.withSavepoint(async () => undefined);
+      });
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SAVEPOINT "savepoint_1"'],
+        ['SAVEPOINT "savepoint_2"'],
+        ['ROLLBACK TO SAVEPOINT "savepoint_2"'],
+        ['RELEASE SAVEPOINT "savepoint_2"'],
+        ['SAVEPOINT "savepoint_3"'],
+        ['RELEASE SAVEPOINT "savepoint_3"'],
+        ['RELEASE SAVEPOINT "savepoint_1"'],
+      ]);
+    });
+
+    it('should skip names of active savepoints', async () => {
+      const tx = (unitOfWork as any).txClient;
+      await unitOfWork.createSavepoint('savepoint_1');
+
+      await unitOfWork.withSavepoint(async () => undefined);
+
+      expect(tx.$executeRawUnsafe).toHaveBeenCalledWith('SAVEPOINT "savepoint_2"');
+    });
+
+    it('should rethrow without rollback when the savepoint was already rolled back', async () => {
+      const tx = (unitOfWork as any).txClient;
+      await unitOfWork.createSavepoint('outer');
+
+      await expect(
+        unitOfWork.withSavepoint(async (uow) => {
+          await uow.rollbackToSavepoint('outer');
+          throw new Error('abandoned');
+        })
+      ).rejects.toThrow('abandoned');
+
+      expect(tx.$executeRawUnsafe).toHaveBeenCalledTimes(3);
+      expect(tx.$executeRawUnsafe).toHaveBeenLastCalledWith('ROLLBACK TO SAVEPOINT "outer"');
+    });
+
+    it('should throw without an active transaction', async () => {
+      await unitOfWork.rollback();
+
+      await expect(unitOfWork.withSavepoint(async () => undefined)).rejects.toThrow(
+        NoActiveTransactionError
+      );
+    });
+  });
+
+  describe('ambient transaction', () => {
+    it('should expose the transaction while the callback runs', async () => {
+      await unitOfWork.executeInTransaction(async (uow) => {
+        await Promise.resolve();
+        expect(getAmbientTransaction(prisma)).toEqual({
+          client: (uow as any).txClient,
+          unitOfWork: uow,
+        });
+      });
+
+      expect(getAmbientTransaction(prisma)).toBeUndefined();
+    });
+
+    it('should expose the transaction inside a savepoint', async () => {
+      await unitOfWork.executeInTransaction(async (uow) => {
+        await uow.withSavepoint(async () => {
+          expect(getAmbientTransaction(prisma)?.client).toBe((uow as any).txClient);
+        });
+      });
+    });
+
+    it('should hide outer transactions when running without a transaction', async () => {
+      const other = new PrismaUnitOfWork(prisma as any);
+
+      await unitOfWork.executeInTransaction(async () => {
+        await other.executeInTransaction(
+          async () => expect(getAmbientTransaction(prisma)).toBeUndefined(),
+          { propagation: TransactionPropagation.Supports }
+        );
+      });
+      await other.dispose();
+    });
+  });
+
+  describe('prepared transactions', () => {
+    beforeEach(() => {
+      (prisma as any).$executeRawUnsafe = jest.fn().mockResolvedValue(0);
+    });
+
+    it('should prepare the transaction as its last statement', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      unitOfWork.onBeforeCommit(async (client) => {
+        await (client as any).$executeRawUnsafe('UPDATE audit SET done = true');
+      });
+
+      const result = await unitOfWork.prepare('order-42');
+
+      expect(result.success).toBe(true);
+      expect(unitOfWork.state).toBe(TransactionState.Committed);
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['UPDATE audit SET done = true'],
+        ["PREPARE TRANSACTION 'order-42'"],
+      ]);
+    });
+
+    it('should commit and roll back prepared transactions on the client', async () => {
+      await unitOfWork.commitPrepared('order-42');
+      await unitOfWork.rollbackPrepared('order-43');
+
+      expect((prisma as any).$executeRawUnsafe.mock.calls).toEqual([
+        ["COMMIT PREPARED 'order-42'"],
+        ["ROLLBACK PREPARED 'order-43'"],
+      ]);
+    });
+
+    it('should roll back when preparing fails', async () => {
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+      tx.$executeRawUnsafe.mockRejectedValueOnce(new Error('prepared transactions are disabled'));
+
+      await expect(unitOfWork.prepare('order-42')).rejects.toMatchObject({
+        code: ErrorCodes.TRANSACTION_COMMIT_FAILED,
+        cause: expect.objectContaining({ message: 'prepared transactions are disabled' }),
+      });
+      expect(unitOfWork.state).toBe(TransactionState.RolledBack);
+    });
+
+    it('should reject invalid transaction ids', async () => {
+      await unitOfWork.start();
+
+      await expect(unitOfWork.prepare("x'; DROP TABLE users; --")).rejects.toMatchObject({
+        code: ErrorCodes.INVALID_TRANSACTION_ID,
+      });
+      await expect(unitOfWork.commitPrepared('')).rejects.toThrow(TransactionError);
+      expect(unitOfWork.state).toBe(TransactionState.Active);
+    });
+
+    it('should wrap failures of COMMIT PREPARED', async () => {
+      (prisma as any).$executeRawUnsafe.mockRejectedValueOnce(new Error('does not exist'));
+
+      await expect(unitOfWork.commitPrepared('order-42')).rejects.toMatchObject({
+        code: ErrorCodes.TRANSACTION_COMMIT_FAILED,
+        message: "Failed to commit prepared transaction 'order-42'",
+      });
+    });
+
+    it('should throw UnsupportedOperationError without prepared transactions', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'mysql' });
+      await unitOfWork.start();
+
+      await expect(unitOfWork.prepare('order-42')).rejects.toThrow(UnsupportedOperationError);
+      expect(unitOfWork.state).toBe(TransactionState.Active);
+    });
+  });
+
+  describe('SQL dialect', () => {
+    it('should detect the dialect from the Prisma client', () => {
+      (prisma as any)._activeProvider = 'mysql';
+
+      expect(new PrismaUnitOfWork(prisma as any).dialect.provider).toBe('mysql');
+    });
+
+    it('should default to PostgreSQL', () => {
+      expect(unitOfWork.dialect.provider).toBe('postgresql');
+    });
+
+    it('should use the configured dialect for savepoints', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'sqlserver' });
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      await unitOfWork.createSavepoint('sp1');
+      await unitOfWork.rollbackToSavepoint('sp1');
+      await unitOfWork.releaseSavepoint('sp1');
+
+      expect(tx.$executeRawUnsafe.mock.calls).toEqual([
+        ['SAVE TRANSACTION [sp1]'],
+        ['ROLLBACK TRANSACTION [sp1]'],
+      ]);
+      await expect(unitOfWork.rollbackToSavepoint('sp1')).rejects.toThrow("'sp1'");
+    });
+
+    it('should quote MySQL savepoints with backticks', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: 'mysql' });
+      await unitOfWork.start();
+      const tx = (unitOfWork as any).txClient;
+
+      await unitOfWork.createSavepoint('sp1');
+
+      expect(tx.$executeRawUnsafe).toHaveBeenCalledWith('SAVEPOINT `sp1`');
+    });
+
+    it('should skip the read-only statement when the dialect has none', async () => {
+      unitOfWork = new PrismaUnitOfWork(prisma as any, { dialect: new SqliteDialect() });
+      await unitOfWork.start({ readOnly: true });
+      const tx = (unitOfWork as any).txClient;
+
+      expect(tx.$executeRawUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('advisory locks', () => {
+    const useProvider = (provider: string) => {
+      (prisma as any)._activeProvider = provider;
+      unitOfWork = new PrismaUnitOfWork(prisma as any);
+    };
+    const toLockName = (key: string) => createHash('sha256').update(key).digest('hex');
+
+    it('should require an active transaction', async () => {
+      await expect(unitOfWork.acquireLock('jobs:settlement')).rejects.toThrow(
+        NoActiveTransactionError
+      );
+      await expect(unitOfWork.tryAcquireLock('jobs:settlement')).rejects.toThrow(
+        NoActiveTransactionError
+      );
+    });
+
+    describe('postgresql', () => {
+      it('should wait for a transaction-scoped lock on the hashed key', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        tx.$queryRawUnsafe.mockResolvedValue([{ acquired: true }]);
+
+        await unitOfWork.acquireLock('jobs:settlement');
+
+        expect(tx.$queryRawUnsafe).toHaveBeenCalledWith(
+          'SELECT true AS acquired FROM pg_advisory_xact_lock($1)',
+          new PostgresDialect().toLockId('jobs:settlement')
+        );
+      });
+
+      it('should use numeric keys as lock ids', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        tx.$queryRawUnsafe.mockResolvedValue([{ acquired: true }]);
+
+        await unitOfWork.acquireLock(42);
+
+        expect(tx.$queryRawUnsafe.mock.calls[0][1]).toBe(42n);
+      });
+
+      it('should try the lock without waiting', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        tx.$queryRawUnsafe.mockResolvedValueOnce([{ acquired: true }]);
+        tx.$queryRawUnsafe.mockResolvedValueOnce([{ acquired: false }]);
+
+        await expect(unitOfWork.tryAcquireLock('a')).resolves.toBe(true);
+        await expect(unitOfWork.tryAcquireLock('b')).resolves.toBe(false);
+        expect(tx.$queryRawUnsafe.mock.calls[0][0]).toBe(
+          'SELECT pg_try_advisory_xact_lock($1) AS acquired'
+        );
+      });
+
+      it('should throw LockNotAvailableError when not waiting', async () => {
+        await unitOfWork.start();
+        (unitOfWork as any).txClient.$queryRawUnsafe.mockResolvedValue([{ acquired: false }]);
+
+        await expect(unitOfWork.acquireLock('a', { wait: false })).rejects.toThrow(
+          LockNotAvailableError
+        );
+      });
+
+      it('should retry until the timeout elapses', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        tx.$queryRawUnsafe.mockResolvedValue([{ acquired: false }]);
+
+        const error = await unitOfWork.acquireLock('a', { timeout: 60 }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(LockTimeoutError);
+        expect(error.timeoutMs).toBe(60);
+        expect(tx.$queryRawUnsafe.mock.calls.length).toBeGreaterThan(1);
+      });
+
+      it('should return once the lock frees up within the timeout', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        tx.$queryRawUnsafe
+          .mockResolvedValueOnce([{ acquired: false }])
+          .mockResolvedValueOnce([{ acquired: true }]);
+
+        await expect(unitOfWork.acquireLock('a', { timeout: 1000 })).resolves.toBeUndefined();
+      });
+    });
+
+    describe('mysql', () => {
+      beforeEach(() => useProvider('mysql'));
+
+      it('should reject session-scoped GET_LOCK locks', async () => {
+        // An expired transaction would leave them held on the pooled connection
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+
+        await expect(unitOfWork.acquireLock('a')).rejects.toThrow(UnsupportedOperationError);
+        await expect(unitOfWork.tryAcquireLock('a')).rejects.toThrow(UnsupportedOperationError);
+        expect(tx.$queryRawUnsafe).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('sqlserver', () => {
+      beforeEach(() => useProvider('sqlserver'));
+
+      it('should use a transaction-owned application lock', async () => {
+        await unitOfWork.start();
+        const tx = (unitOfWork as any).txClient;
+        tx.$queryRawUnsafe.mockResolvedValueOnce([{ acquired: 1 }]);
+        tx.$queryRawUnsafe.mockResolvedValueOnce([{ acquired: 0 }]);
+
+        await unitOfWork.acquireLock('a', { timeout: 250 });
+        await expect(unitOfWork.tryAcquireLock('b')).resolves.toBe(false);
+
+        const [sql, resource, lockTimeout] = tx.$queryRawUnsafe.mock.calls[0];
+        expect(sql).toContain("sp_getapplock @Resource = @P1, @LockMode = 'Exclusive'");
+        expect(sql).toContain("@LockOwner = 'Transaction'");
+        expect(resource).toBe(toLockName('a'));
+        expect(lockTimeout).toBe(250);
+        expect(tx.$queryRawUnsafe.mock.calls[1][2]).toBe(0);
+      });
+    });
+
+    it('should reject providers without advisory locks', async () => {
+      useProvider('sqlite');
+      await unitOfWork.start();
+
+      await expect(unitOfWork.acquireLock('a')).rejects.toThrow(UnsupportedOperationError);
+    });
+  });
+
   describe('getRepository (without active transaction)', () => {
     it('should throw NoActiveTransactionError', () => {
       unitOfWork.registerRepository('TestRepo', () => ({} as any));
@@ -43,6 +43,10 @@ describe('PrismaUnitOfWorkFactory', () => {
       });
       expect(f).toBeDefined();
     });
+
+    it('should expose the client', () => {
+      expect(factory.client).toBe(prisma);
+    });
   });
 
   describe('registerRepository', () => {
@@ -163,6 +167,96 @@ describe('PrismaUnitOfWorkFactory', () => {
     });
   });
 
+  describe('read replicas', () => {
+    let replicas: PrismaClient[];
+
+    const userContext = (userId: string) => new MockContext({ userId } as any) as any;
+
+    beforeEach(() => {
+      replicas = [new PrismaClient(), new PrismaClient()];
+      factory = new PrismaUnitOfWorkFactory(prisma as any, {
+        readReplicas: { replicas: replicas as any, readYourWritesWindow: 1000 },
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should run read-only transactions on the replicas in turn', async () => {
+      for (let i = 0; i < 3; i++) {
+        const uow = factory.create();
+        await uow.start({ readOnly: true });
+        await uow.commit();
+      }
+
+      expect(replicas[0].$transaction).toHaveBeenCalledTimes(2);
+      expect(replicas[1].$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should run write transactions on the primary', async () => {
+      const uow = factory.create();
+      await uow.start();
+      await uow.commit();
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(replicas[0].$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should pin reads of a context to the primary after a write', async () => {
+      jest.useFakeTimers();
+      const writer = factory.createWithContext(userContext('user-1'));
+      await writer.start();
+      await writer.commit();
+
+      const pinned = factory.createWithContext(userContext('user-1'));
+      await pinned.start({ readOnly: true });
+      await pinned.commit();
+      const other = factory.createWithContext(userContext('user-2'));
+      await other.start({ readOnly: true });
+      await other.commit();
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(replicas[0].$transaction).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1000);
+      const expired = factory.createWithContext(userContext('user-1'));
+      await expired.start({ readOnly: true });
+      await expired.commit();
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(replicas[1].$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not pin after a read-only transaction', async () => {
+      const reader = factory.createWithContext(userContext('user-1'));
+      await reader.start({ readOnly: true });
+      await reader.commit();
+
+      const next = factory.createWithContext(userContext('user-1'));
+      await next.start({ readOnly: true });
+      await next.commit();
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should route reads of the routing client to a replica', async () => {
+      const client = factory.getRoutingClient(userContext('user-1')) as any;
+
+      await client.user.findMany({ where: { active: true } });
+      await client.user.create({ data: { name: 'Ada' } });
+
+      expect(replicas[0].user.findMany).toHaveBeenCalledWith({ where: { active: true } });
+      expect(prisma.user.findMany).not.toHaveBeenCalled();
+      expect(prisma.user.create).toHaveBeenCalledWith({ data: { name: 'Ada' } });
+    });
+
+    it('should return the primary client without replicas', () => {
+      expect(new PrismaUnitOfWorkFactory(prisma as any).getRoutingClient()).toBe(prisma);
+    });
+  });
+
   // describe('createWithContext', () => {
   //   it('should create UoW with context set', () => {
   //     const ctx = new MockContext({ traceId: 'trace-123', userId: 'user-456' });
@@ -0,0 +1,196 @@
+/**
+ * ReadReplicaRouter Unit Tests
+ */
+
+import { PrismaClient } from '../__mocks__/@prisma/client';
+import { MockContext } from '../__mocks__/@struktos/core';
+import { ReadReplicaRouter } from '../../src/unit-of-work/ReadReplicaRouter';
+import { ReplicaSelectionStrategy } from '../../src/types/prisma.types';
+
+describe('ReadReplicaRouter', () => {
+  let primary: PrismaClient;
+  let replicas: PrismaClient[];
+
+  const userContext = (userId?: string) =>
+    new MockContext(userId ? ({ userId } as any) : {}) as any;
+
+  beforeEach(() => {
+    primary = new PrismaClient();
+    replicas = [new PrismaClient(), new PrismaClient(), new PrismaClient()];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('should use the replicas in turn', () => {
+      const router = new ReadReplicaRouter({ replicas: replicas as any });
+
+      const indexes = [0, 1, 2, 3].map(() => router.acquire()!.index);
+
+      expect(indexes).toEqual([0, 1, 2, 0]);
+    });
+
+    it('should prefer the replica with the fewest reads in flight', () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        strategy: ReplicaSelectionStrategy.LeastInFlight,
+      });
+
+      const first = router.acquire()!;
+      const second = router.acquire()!;
+      first.release();
+      first.release();
+      const third = router.acquire()!;
+      const fourth = router.acquire()!;
+
+      expect([first.index, second.index, third.index]).toEqual([0, 1, 2]);
+      expect(fourth.index).toBe(0);
+    });
+
+    it('should return null without replicas', () => {
+      expect(new ReadReplicaRouter({ replicas: [] }).acquire()).toBeNull();
+    });
+  });
+
+  describe('read-your-writes', () => {
+    it('should pin a context for the configured window', () => {
+      jest.useFakeTimers();
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+      });
+
+      router.recordWrite(userContext('user-1'));
+
+      expect(router.isPinned(userContext('user-1'))).toBe(true);
+      expect(router.acquire(userContext('user-1'))).toBeNull();
+      expect(router.isPinned(userContext('user-2'))).toBe(false);
+
+      jest.advanceTimersByTime(500);
+      expect(router.isPinned(userContext('user-1'))).toBe(false);
+    });
+
+    it('should not pin without a window or pin key', () => {
+      const disabled = new ReadReplicaRouter({ replicas: replicas as any });
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+      });
+
+      disabled.recordWrite(userContext('user-1'));
+      router.recordWrite(userContext());
+      router.recordWrite();
+
+      expect(disabled.isPinned(userContext('user-1'))).toBe(false);
+      expect(router.isPinned(userContext())).toBe(false);
+    });
+
+    it('should use a custom pin key', () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+        resolvePinKey: (context) => context.get('sessionId') as string | undefined,
+      });
+
+      router.recordWrite(new MockContext({ sessionId: 's-1' }) as any);
+
+      expect(router.isPinned(new MockContext({ sessionId: 's-1' }) as any)).toBe(true);
+    });
+  });
+
+  describe('createClient', () => {
+    it('should send model reads to a replica and writes to the primary', async () => {
+      const router = new ReadReplicaRouter({ replicas: replicas as any });
+      const client = router.createClient(primary as any) as any;
+      replicas[0].user.count.mockResolvedValue(3);
+
+      await expect(client.user.count()).resolves.toBe(3);
+      await client.order.findUnique({ where: { id: 'o-1' } });
+      await client.user.update({ where: { id: 'u-1' }, data: {} });
+      await client.$connect();
+
+      expect(replicas[1].order.findUnique).toHaveBeenCalledWith({ where: { id: 'o-1' } });
+      expect(primary.user.count).not.toHaveBeenCalled();
+      expect(primary.user.update).toHaveBeenCalledTimes(1);
+      expect(primary.$connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the replica when a read fails', async () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas.slice(0, 2) as any,
+        strategy: ReplicaSelectionStrategy.LeastInFlight,
+      });
+      const client = router.createClient(primary as any) as any;
+      replicas[1].user.findMany.mockRejectedValue(new Error('connection reset'));
+
+      const held = router.acquire()!;
+      await expect(client.user.findMany()).rejects.toThrow('connection reset');
+
+      expect(held.index).toBe(0);
+      expect(router.acquire()!.index).toBe(1);
+    });
+
+    it('should pin the context after a write through the client', async () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+      });
+      const context = userContext('user-1');
+      const client = router.createClient(primary as any, context) as any;
+
+      await client.user.create({ data: { name: 'Ada' } });
+      await client.user.findMany();
+
+      expect(primary.user.create).toHaveBeenCalledTimes(1);
+      expect(primary.user.findMany).toHaveBeenCalledTimes(1);
+      expect(replicas[0].user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should pin the context after a raw write', async () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+      });
+      const context = userContext('user-1');
+      const client = router.createClient(primary as any, context) as any;
+      (primary as any).$executeRawUnsafe = jest.fn().mockResolvedValue(1);
+
+      await expect(client.$executeRawUnsafe('DELETE FROM sessions')).resolves.toBe(1);
+
+      expect(router.isPinned(context)).toBe(true);
+    });
+
+    it('should not pin the context when a write fails', async () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+      });
+      const context = userContext('user-1');
+      const client = router.createClient(primary as any, context) as any;
+      primary.user.update.mockRejectedValue(new Error('record not found'));
+
+      await expect(client.user.update({ where: { id: 'u-1' }, data: {} })).rejects.toThrow(
+        'record not found'
+      );
+
+      expect(router.isPinned(context)).toBe(false);
+    });
+
+    it('should read from the primary while the context is pinned', async () => {
+      const router = new ReadReplicaRouter({
+        replicas: replicas as any,
+        readYourWritesWindow: 500,
+      });
+      const context = userContext('user-1');
+      const client = router.createClient(primary as any, context) as any;
+
+      router.recordWrite(context);
+      await client.user.findMany();
+
+      expect(primary.user.findMany).toHaveBeenCalledTimes(1);
+      expect(replicas[0].user.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * TenantRoutingUnitOfWorkFactory Unit Tests
+ */
+
+import { PrismaClient } from '../__mocks__/@prisma/client';
+import { MockContext } from '../__mocks__/@struktos/core';
+import { TenantRoutingUnitOfWorkFactory } from '../../src/unit-of-work/TenantRoutingUnitOfWorkFactory';
+import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
+import { UnknownTenantError } from '../../src/errors/unit-of-work.errors';
+import type { PrismaTransactionClient } from '../../src/types/prisma.types';
+
+class MockTestRepository {
+  constructor(public readonly tx: PrismaTransactionClient) {}
+}
+
+describe('TenantRoutingUnitOfWorkFactory', () => {
+  let clients: Record<string, PrismaClient>;
+  let createClient: jest.Mock;
+  let factory: TenantRoutingUnitOfWorkFactory;
+
+  const tenantContext = (tenantId?: string) =>
+    new MockContext({ traceId: 'trace-1', ...(tenantId ? { tenantId } : {}) } as any) as any;
+
+  beforeEach(() => {
+    clients = {};
+    createClient = jest.fn((tenantId: string) => {
+      if (tenantId === 'unknown') {
+        return undefined;
+      }
+      clients[tenantId] = new PrismaClient();
+      return clients[tenantId];
+    });
+    factory = new TenantRoutingUnitOfWorkFactory({ createClient, idleTimeout: 0 });
+  });
+
+  afterEach(async () => {
+    await factory.disconnect();
+    jest.useRealTimers();
+  });
+
+  describe('createWithContext', () => {
+    it('should create a Unit of Work on the client of the tenant', async () => {
+      const context = tenantContext('acme');
+
+      const uow = factory.createWithContext(context) as PrismaUnitOfWork;
+      await uow.start();
+
+      expect(uow).toBeInstanceOf(PrismaUnitOfWork);
+      expect(uow.context).toBe(context);
+      expect(clients.acme.$transaction).toHaveBeenCalledTimes(1);
+      await uow.dispose();
+    });
+
+    it('should reuse the cached client of a tenant', () => {
+      factory.createWithContext(tenantContext('acme'));
+      factory.createWithContext(tenantContext('acme'));
+      factory.createWithContext(tenantContext('globex'));
+
+      expect(createClient).toHaveBeenCalledTimes(2);
+      expect(factory.size).toBe(2);
+    });
+
+    it('should register the repository factories', () => {
+      factory.registerRepository('TestRepository', (tx) => new MockTestRepository(tx));
+
+      const uow = factory.createWithContext(tenantContext('acme'));
+
+      expect(uow.hasRepository('TestRepository')).toBe(true);
+    });
+
+    it('should throw UnknownTenantError for unknown tenants', () => {
+      expect(() => factory.createWithContext(tenantContext('unknown'))).toThrow(
+        expect.objectContaining({ name: 'UnknownTenantError', tenantId: 'unknown' })
+      );
+      expect(factory.size).toBe(0);
+    });
+
+    it('should throw UnknownTenantError when the context has no tenant', () => {
+      expect(() => factory.createWithContext(tenantContext())).toThrow(
+        expect.objectContaining({ tenantId: undefined, traceId: 'trace-1' })
+      );
+      expect(createClient).not.toHaveBeenCalled();
+    });
+
+    it('should use a custom tenant resolver', () => {
+      factory = new TenantRoutingUnitOfWorkFactory({
+        createClient,
+        resolveTenant: (context) => (context.get('user') as any)?.organization,
+      });
+
+      factory.createWithContext(new MockContext({ user: { organization: 'initech' } }) as any);
+
+      expect(createClient).toHaveBeenCalledWith('initech');
+    });
+  });
+
+  describe('create', () => {
+    it('should require a tenant', () => {
+      expect(() => factory.create()).toThrow(UnknownTenantError);
+    });
+  });
+
+  describe('createForTenant', () => {
+    it('should create a Unit of Work without context', () => {
+      const uow = factory.createForTenant('acme');
+
+      expect(uow.context).toBeUndefined();
+      expect(createClient).toHaveBeenCalledWith('acme');
+    });
+  });
+
+  describe('eviction', () => {
+    it('should disconnect the least recently used client beyond maxClients', () => {
+      factory = new TenantRoutingUnitOfWorkFactory({ createClient, maxClients: 2 });
+
+      factory.getClient('a');
+      factory.getClient('b');
+      factory.getClient('a');
+      factory.getClient('c');
+
+      expect(clients.b.$disconnect).toHaveBeenCalledTimes(1);
+      expect(clients.a.$disconnect).not.toHaveBeenCalled();
+      expect(factory.size).toBe(2);
+
+      factory.getClient('b');
+      expect(createClient).toHaveBeenCalledTimes(4);
+    });
+
+    it('should disconnect idle clients', () => {
+      jest.useFakeTimers();
+      factory = new TenantRoutingUnitOfWorkFactory({ createClient, idleTimeout: 1000 });
+
+      factory.getClient('a');
+      factory.getClient('b');
+      jest.advanceTimersByTime(600);
+      factory.getClient('b');
+      jest.advanceTimersByTime(400);
+
+      expect(clients.a.$disconnect).toHaveBeenCalledTimes(1);
+      expect(clients.b.$disconnect).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(clients.b.$disconnect).toHaveBeenCalledTimes(1);
+      expect(factory.size).toBe(0);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should not evict the client of a tenant with an open Unit of Work', async () => {
+      factory = new TenantRoutingUnitOfWorkFactory({ createClient, maxClients: 2, idleTimeout: 0 });
+      const uow = factory.createForTenant('a');
+      await uow.start();
+
+      factory.getClient('b');
+      factory.getClient('c');
+
+      expect(clients.a.$disconnect).not.toHaveBeenCalled();
+      expect(clients.b.$disconnect).toHaveBeenCalledTimes(1);
+      await expect(factory.evict('a')).resolves.toBe(false);
+
+      await uow.commit();
+      await expect(factory.evict('a')).resolves.toBe(true);
+    });
+
+    it('should not evict clients in use when idle', async () => {
+      jest.useFakeTimers();
+      factory = new TenantRoutingUnitOfWorkFactory({ createClient, idleTimeout: 1000 });
+      const uow = factory.createForTenant('a');
+      await uow.start();
+
+      jest.advanceTimersByTime(2500);
+      expect(clients.a.$disconnect).not.toHaveBeenCalled();
+
+      // Releasing the lease counts as the last use
+      await uow.rollback();
+      jest.advanceTimersByTime(500);
+      expect(clients.a.$disconnect).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(clients.a.$disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should release the client when the Unit of Work is disposed', async () => {
+      const uow = factory.createForTenant('acme');
+
+      await expect(factory.evict('acme')).resolves.toBe(false);
+      await uow.dispose();
+      await expect(factory.evict('acme')).resolves.toBe(true);
+    });
+
+    it('should evict a single tenant', async () => {
+      factory.getClient('acme');
+
+      await expect(factory.evict('acme')).resolves.toBe(true);
+      await expect(factory.evict('acme')).resolves.toBe(false);
+      expect(clients.acme.$disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should disconnect every cached client', async () => {
+      factory.getClient('a');
+      factory.getClient('b');
+
+      await factory.disconnect();
+
+      expect(clients.a.$disconnect).toHaveBeenCalledTimes(1);
+      expect(clients.b.$disconnect).toHaveBeenCalledTimes(1);
+      expect(factory.size).toBe(0);
+    });
+
+    it('should log disconnect failures and continue', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      factory = new TenantRoutingUnitOfWorkFactory({ createClient, config: { logger } });
+      factory.getClient('a');
+      factory.getClient('b');
+      clients.a.$disconnect.mockRejectedValueOnce(new Error('socket closed'));
+
+      await factory.disconnect();
+
+      expect(logger.warn).toHaveBeenCalledWith('Tenant client disconnect failed', {
+        tenantId: 'a',
+        error: 'socket closed',
+      });
+      expect(clients.b.$disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('repository registration', () => {
+    it('should manage repository factories', () => {
+      factory.registerRepository('Repo1', () => ({})).registerRepository('Repo2', () => ({}));
+
+      expect(factory.hasRepository('Repo1')).toBe(true);
+      expect(factory.unregisterRepository('Repo1')).toBe(true);
+      expect(factory.getRegisteredRepositories()).toEqual(['Repo2']);
+    });
+  });
+});
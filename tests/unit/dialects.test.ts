@@ -0,0 +1,303 @@
+/**
+ * SQL Dialect Unit Tests
+ */
+
+import { createHash } from 'crypto';
+
+import {
+  PostgresDialect,
+  CockroachDbDialect,
+  MySqlDialect,
+  SqlServerDialect,
+  SqliteDialect,
+  createDialect,
+  resolveDialect,
+} from '../../src/dialects';
+import { RowLockMode, RowLockWait } from '../../src/repository/row-locking';
+import { UnsupportedOperationError } from '../../src/errors/unit-of-work.errors';
+
+const lockName = (key: string) => createHash('sha256').update(key).digest('hex');
+
+describe('PostgresDialect', () => {
+  const dialect = new PostgresDialect();
+
+  it('should quote identifiers with double quotes', () => {
+    expect(dialect.quoteIdentifier('billing.acc"ount')).toBe('"billing"."acc""ount"');
+  });
+
+  it('should generate savepoint statements', () => {
+    expect(dialect.createSavepoint('sp1')).toEqual({ sql: 'SAVEPOINT "sp1"', params: [] });
+    expect(dialect.rollbackToSavepoint('sp1').sql).toBe('ROLLBACK TO SAVEPOINT "sp1"');
+    expect(dialect.releaseSavepoint('sp1')?.sql).toBe('RELEASE SAVEPOINT "sp1"');
+  });
+
+  it('should set the transaction read-only', () => {
+    expect(dialect.setTransactionReadOnly()?.sql).toBe('SET TRANSACTION READ ONLY');
+  });
+
+  it('should lock rows with FOR UPDATE and numbered placeholders', () => {
+    expect(
+      dialect.lockRows('Account', 'id', ['a1', 'a2'], RowLockMode.ForUpdate, RowLockWait.Wait)
+    ).toEqual({
+      sql: 'SELECT "id" FROM "Account" WHERE "id" IN ($1, $2) ORDER BY "id" FOR UPDATE',
+      params: ['a1', 'a2'],
+    });
+  });
+
+  it('should support FOR SHARE, NOWAIT and SKIP LOCKED', () => {
+    expect(
+      dialect.lockRows('Account', 'id', [1], RowLockMode.ForShare, RowLockWait.NoWait)?.sql
+    ).toMatch(/FOR SHARE NOWAIT$/);
+    expect(
+      dialect.lockRows('Account', 'id', [1], RowLockMode.ForUpdate, RowLockWait.SkipLocked)?.sql
+    ).toMatch(/FOR UPDATE SKIP LOCKED$/);
+  });
+
+  it('should take transaction-scoped advisory locks', () => {
+    const lockId = dialect.toLockId('jobs:settlement');
+
+    expect(dialect.acquireAdvisoryLock('jobs:settlement', null)).toEqual({
+      sql: 'SELECT true AS acquired FROM pg_advisory_xact_lock($1)',
+      params: [lockId],
+    });
+    expect(dialect.acquireAdvisoryLock('jobs:settlement', 0)?.sql).toBe(
+      'SELECT pg_try_advisory_xact_lock($1) AS acquired'
+    );
+    expect(dialect.supportsAdvisoryLockTimeout).toBe(false);
+  });
+
+  it('should hash string keys into signed 64-bit lock ids', () => {
+    const lockId = dialect.toLockId('jobs:settlement');
+
+    expect(typeof lockId).toBe('bigint');
+    expect(lockId).toBe(dialect.toLockId('jobs:settlement'));
+    expect(lockId).not.toBe(dialect.toLockId('jobs:billing'));
+    expect(dialect.toLockId(42)).toBe(42n);
+  });
+
+  it('should set transaction-local timeouts', () => {
+    expect(dialect.setStatementTimeout(5000)).toEqual({
+      sql: 'SET LOCAL statement_timeout = 5000',
+      params: [],
+    });
+    expect(dialect.setLockTimeout(1000.7)?.sql).toBe('SET LOCAL lock_timeout = 1000');
+    expect(dialect.setLockTimeout(Number.NaN)?.sql).toBe('SET LOCAL lock_timeout = 0');
+    expect(dialect.resetStatementTimeout()).toBeNull();
+    expect(dialect.resetLockTimeout()).toBeNull();
+  });
+
+  it('should set transaction-scoped session variables with set_config', () => {
+    expect(dialect.setSessionVariable('app.tenant_id', "acme'; --")).toEqual({
+      sql: 'SELECT set_config($1, $2, true)',
+      params: ['app.tenant_id', "acme'; --"],
+    });
+  });
+
+  it('should generate prepared transaction statements with quoted ids', () => {
+    expect(dialect.prepareTransaction('order-42')?.sql).toBe("PREPARE TRANSACTION 'order-42'");
+    expect(dialect.commitPrepared("it's")?.sql).toBe("COMMIT PREPARED 'it''s'");
+    expect(dialect.rollbackPrepared('order-42')?.sql).toBe("ROLLBACK PREPARED 'order-42'");
+  });
+
+  it('should recognize timeout errors', () => {
+    expect(dialect.isStatementTimeoutError({ code: 'P2010', meta: { code: '57014' } })).toBe(true);
+    expect(dialect.isLockTimeoutError({ code: 'P2010', meta: { code: '55P03' } })).toBe(true);
+    expect(dialect.isStatementTimeoutError({ code: 'P2010', meta: { code: '55P03' } })).toBe(false);
+  });
+
+  it('should recognize lock_not_available errors', () => {
+    expect(dialect.isLockNotAvailableError({ code: 'P2010', meta: { code: '55P03' } })).toBe(true);
+    expect(
+      dialect.isLockNotAvailableError(new Error('Raw query failed. Code: `55P03`. Message: `...`'))
+    ).toBe(true);
+    expect(dialect.isLockNotAvailableError({ code: 'P2010', meta: { code: '42P01' } })).toBe(false);
+    expect(dialect.isLockNotAvailableError(undefined)).toBe(false);
+  });
+});
+
+describe('CockroachDbDialect', () => {
+  const dialect = new CockroachDbDialect();
+
+  it('should follow the PostgreSQL syntax', () => {
+    expect(dialect.provider).toBe('cockroachdb');
+    expect(dialect.createSavepoint('sp1').sql).toBe('SAVEPOINT "sp1"');
+    expect(
+      dialect.lockRows('Account', 'id', [1], RowLockMode.ForUpdate, RowLockWait.NoWait)?.sql
+    ).toMatch(/FOR UPDATE NOWAIT$/);
+  });
+
+  it('should not support advisory locks', () => {
+    expect(dialect.acquireAdvisoryLock('a', null)).toBeNull();
+  });
+
+  it('should not support prepared transactions', () => {
+    expect(dialect.prepareTransaction('tx1')).toBeNull();
+    expect(dialect.commitPrepared('tx1')).toBeNull();
+    expect(dialect.rollbackPrepared('tx1')).toBeNull();
+  });
+});
+
+describe('MySqlDialect', () => {
+  const dialect = new MySqlDialect();
+
+  it('should quote identifiers with backticks', () => {
+    expect(dialect.quoteIdentifier('shop.or`der')).toBe('`shop`.`or``der`');
+  });
+
+  it('should generate savepoint statements', () => {
+    expect(dialect.createSavepoint('sp1').sql).toBe('SAVEPOINT `sp1`');
+    expect(dialect.rollbackToSavepoint('sp1').sql).toBe('ROLLBACK TO SAVEPOINT `sp1`');
+    expect(dialect.releaseSavepoint('sp1')?.sql).toBe('RELEASE SAVEPOINT `sp1`');
+  });
+
+  it('should have no read-only transaction statement', () => {
+    expect(dialect.setTransactionReadOnly()).toBeNull();
+  });
+
+  it('should lock rows with question mark placeholders', () => {
+    expect(
+      dialect.lockRows('Account', 'id', ['a1', 'a2'], RowLockMode.ForShare, RowLockWait.SkipLocked)
+    ).toEqual({
+      sql: 'SELECT `id` FROM `Account` WHERE `id` IN (?, ?) ORDER BY `id` FOR SHARE SKIP LOCKED',
+      params: ['a1', 'a2'],
+    });
+  });
+
+  it('should have no transaction-scoped advisory locks', () => {
+    expect(dialect.acquireAdvisoryLock('customer:1', 1500)).toBeNull();
+  });
+
+  it('should not support transaction-scoped session variables', () => {
+    expect(dialect.setSessionVariable('app.tenant_id', 'acme')).toBeNull();
+  });
+
+  it('should not support prepared transactions', () => {
+    expect(dialect.prepareTransaction('tx1')).toBeNull();
+  });
+
+  it('should set and restore session timeouts', () => {
+    expect(dialect.setStatementTimeout(5000)?.sql).toBe('SET SESSION max_execution_time = 5000');
+    expect(dialect.setLockTimeout(1500)?.sql).toBe('SET SESSION innodb_lock_wait_timeout = 2');
+    expect(dialect.setLockTimeout(0)?.sql).toBe('SET SESSION innodb_lock_wait_timeout = 1');
+    expect(dialect.resetStatementTimeout()?.sql).toBe('SET SESSION max_execution_time = DEFAULT');
+    expect(dialect.resetLockTimeout()?.sql).toBe('SET SESSION innodb_lock_wait_timeout = DEFAULT');
+  });
+
+  it('should recognize timeout errors', () => {
+    expect(dialect.isStatementTimeoutError({ code: 'P2010', meta: { code: '3024' } })).toBe(true);
+    expect(dialect.isLockTimeoutError({ code: 'P2010', meta: { code: '1205' } })).toBe(true);
+  });
+
+  it('should recognize ER_LOCK_NOWAIT errors', () => {
+    expect(dialect.isLockNotAvailableError({ code: 'P2010', meta: { code: '3572' } })).toBe(true);
+    expect(dialect.isLockNotAvailableError({ code: 'P2010', meta: { code: '55P03' } })).toBe(false);
+  });
+});
+
+describe('SqlServerDialect', () => {
+  const dialect = new SqlServerDialect();
+
+  it('should quote identifiers with brackets', () => {
+    expect(dialect.quoteIdentifier('dbo.Acc]ount')).toBe('[dbo].[Acc]]ount]');
+  });
+
+  it('should use SAVE TRANSACTION and have no RELEASE', () => {
+    expect(dialect.createSavepoint('sp1').sql).toBe('SAVE TRANSACTION [sp1]');
+    expect(dialect.rollbackToSavepoint('sp1').sql).toBe('ROLLBACK TRANSACTION [sp1]');
+    expect(dialect.releaseSavepoint('sp1')).toBeNull();
+  });
+
+  it('should have no read-only transaction statement', () => {
+    expect(dialect.setTransactionReadOnly()).toBeNull();
+  });
+
+  it('should lock rows with table hints', () => {
+    expect(
+      dialect.lockRows('dbo.Account', 'id', [1, 2], RowLockMode.ForUpdate, RowLockWait.Wait)
+    ).toEqual({
+      sql: 'SELECT [id] FROM [dbo].[Account] WITH (UPDLOCK, ROWLOCK) WHERE [id] IN (@P1, @P2) ORDER BY [id]',
+      params: [1, 2],
+    });
+    expect(
+      dialect.lockRows('Account', 'id', [1], RowLockMode.ForShare, RowLockWait.NoWait)?.sql
+    ).toContain('WITH (HOLDLOCK, ROWLOCK, NOWAIT)');
+    expect(
+      dialect.lockRows('Account', 'id', [1], RowLockMode.ForUpdate, RowLockWait.SkipLocked)?.sql
+    ).toContain('WITH (UPDLOCK, ROWLOCK, READPAST)');
+  });
+
+  it('should take transaction-owned application locks', () => {
+    const statement = dialect.acquireAdvisoryLock('a', 250);
+
+    expect(statement?.sql).toContain(
+      "sp_getapplock @Resource = @P1, @LockMode = 'Exclusive', @LockOwner = 'Transaction'"
+    );
+    expect(statement?.params).toEqual([lockName('a'), 250]);
+    expect(dialect.acquireAdvisoryLock('a', null)?.params[1]).toBe(-1);
+  });
+
+  it('should set and restore the session lock timeout', () => {
+    expect(dialect.setLockTimeout(500)?.sql).toBe('SET LOCK_TIMEOUT 500');
+    expect(dialect.resetLockTimeout()?.sql).toBe('SET LOCK_TIMEOUT -1');
+    expect(dialect.setStatementTimeout(5000)).toBeNull();
+  });
+
+  it('should recognize lock timeout errors', () => {
+    expect(dialect.isLockNotAvailableError({ code: 'P2010', meta: { code: '1222' } })).toBe(true);
+    expect(dialect.isLockTimeoutError({ code: 'P2010', meta: { code: '1222' } })).toBe(true);
+  });
+});
+
+describe('SqliteDialect', () => {
+  const dialect = new SqliteDialect();
+
+  it('should generate savepoint statements', () => {
+    expect(dialect.createSavepoint('sp1').sql).toBe('SAVEPOINT "sp1"');
+    expect(dialect.rollbackToSavepoint('sp1').sql).toBe('ROLLBACK TO SAVEPOINT "sp1"');
+    expect(dialect.releaseSavepoint('sp1')?.sql).toBe('RELEASE SAVEPOINT "sp1"');
+  });
+
+  it('should not support read-only transactions, row locks or advisory locks', () => {
+    expect(dialect.setTransactionReadOnly()).toBeNull();
+    expect(
+      dialect.lockRows('Account', 'id', [1], RowLockMode.ForUpdate, RowLockWait.Wait)
+    ).toBeNull();
+    expect(dialect.acquireAdvisoryLock('a', null)).toBeNull();
+  });
+
+  it('should not support statement or lock timeouts', () => {
+    expect(dialect.setStatementTimeout(5000)).toBeNull();
+    expect(dialect.setLockTimeout(5000)).toBeNull();
+  });
+});
+
+describe('createDialect', () => {
+  it('should create the dialect of each provider', () => {
+    expect(createDialect('postgresql')).toBeInstanceOf(PostgresDialect);
+    expect(createDialect('cockroachdb')).toBeInstanceOf(CockroachDbDialect);
+    expect(createDialect('mysql')).toBeInstanceOf(MySqlDialect);
+    expect(createDialect('sqlserver')).toBeInstanceOf(SqlServerDialect);
+    expect(createDialect('sqlite')).toBeInstanceOf(SqliteDialect);
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createDialect('mongodb' as any)).toThrow(UnsupportedOperationError);
+  });
+});
+
+describe('resolveDialect', () => {
+  it('should prefer the configured dialect', () => {
+    const dialect = new SqlServerDialect();
+
+    expect(resolveDialect({ _activeProvider: 'mysql' }, dialect)).toBe(dialect);
+    expect(resolveDialect({ _activeProvider: 'mysql' }, 'sqlite')).toBeInstanceOf(SqliteDialect);
+  });
+
+  it('should detect the provider of the client', () => {
+    expect(resolveDialect({ _activeProvider: 'mysql' })).toBeInstanceOf(MySqlDialect);
+  });
+
+  it('should fall back to PostgreSQL', () => {
+    expect(resolveDialect({})).toBeInstanceOf(PostgresDialect);
+  });
+});
@@ -8,11 +8,24 @@ import {
   TransactionAlreadyActiveError,
   NoActiveTransactionError,
   RepositoryNotRegisteredError,
+  UnitOfWorkFactoryNotFoundError,
   SavepointError,
   SavepointNotFoundError,
   DatabaseConnectionError,
   TransactionTimeoutError,
+  TransactionCancelledError,
+  TransactionRetryExhaustedError,
+  TransactionRequiredError,
   UnitOfWorkDisposedError,
+  OutboxModelNotFoundError,
+  ChangeTrackingError,
+  OptimisticConcurrencyError,
+  LockNotAvailableError,
+  LockTimeoutError,
+  StatementTimeoutError,
+  UnsupportedOperationError,
+  UnknownTenantError,
+  CompositeCommitError,
   ErrorCodes,
 } from '../../src/errors/unit-of-work.errors';
 
@@ -106,6 +119,19 @@ describe('RepositoryNotRegisteredError', () => {
   });
 });
 
+describe('UnitOfWorkFactoryNotFoundError', () => {
+  it('should include the factory token and cause', () => {
+    const cause = new Error('No binding');
+    const error = new UnitOfWorkFactoryNotFoundError(Symbol('PrismaUnitOfWorkFactory'), cause);
+
+    expect(error.name).toBe('UnitOfWorkFactoryNotFoundError');
+    expect(error.code).toBe('UNIT_OF_WORK_FACTORY_NOT_FOUND');
+    expect(error.factoryToken).toBe('Symbol(PrismaUnitOfWorkFactory)');
+    expect(error.message).toContain('setTransactionalResolver');
+    expect(error.cause).toBe(cause);
+  });
+});
+
 describe('SavepointError', () => {
   it('should include savepoint name', () => {
     const error = new SavepointError('Savepoint failed', 'SP_ERROR', {
@@ -151,6 +177,46 @@ describe('TransactionTimeoutError', () => {
   });
 });
 
+describe('TransactionCancelledError', () => {
+  it('should carry the abort reason', () => {
+    const reason = new Error('client disconnected');
+    const error = new TransactionCancelledError('uow-123', 'trace-456', reason);
+
+    expect(error.name).toBe('TransactionCancelledError');
+    expect(error.code).toBe('TRANSACTION_CANCELLED');
+    expect(error.cause).toBe(reason);
+    expect(error).toBeInstanceOf(TransactionError);
+  });
+});
+
+describe('TransactionRetryExhaustedError', () => {
+  it('should carry every attempt cause', () => {
+    const causes = [new Error('deadlock 1'), new Error('deadlock 2')];
+    const error = new TransactionRetryExhaustedError(causes, 'uow-123');
+
+    expect(error.name).toBe('TransactionRetryExhaustedError');
+    expect(error.code).toBe('TRANSACTION_RETRY_EXHAUSTED');
+    expect(error.attempts).toBe(2);
+    expect(error.causes).toEqual(causes);
+    expect(error.cause).toBe(causes[1]);
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.toJSON().causes).toEqual(['deadlock 1', 'deadlock 2']);
+  });
+});
+
+describe('TransactionRequiredError', () => {
+  it('should include the attempted operation', () => {
+    const error = new TransactionRequiredError('create', 'user');
+
+    expect(error.name).toBe('TransactionRequiredError');
+    expect(error.code).toBe('TRANSACTION_REQUIRED');
+    expect(error.operation).toBe('create');
+    expect(error.model).toBe('user');
+    expect(error.message).toContain('user.create');
+    expect(error).toBeInstanceOf(TransactionError);
+  });
+});
+
 describe('UnitOfWorkDisposedError', () => {
   it('should include operation name', () => {
     const error = new UnitOfWorkDisposedError('start', 'uow-123');
@@ -162,6 +228,143 @@ describe('UnitOfWorkDisposedError', () => {
   });
 });
 
+describe('OutboxModelNotFoundError', () => {
+  it('should include the model name', () => {
+    const error = new OutboxModelNotFoundError('outboxMessage', 'uow-123');
+
+    expect(error.name).toBe('OutboxModelNotFoundError');
+    expect(error.code).toBe('OUTBOX_MODEL_NOT_FOUND');
+    expect(error.model).toBe('outboxMessage');
+    expect(error.message).toContain('outboxMessage');
+  });
+});
+
+describe('ChangeTrackingError', () => {
+  it('should include the model', () => {
+    const error = new ChangeTrackingError('Entity is deleted', 'user', 'uow-123');
+
+    expect(error.name).toBe('ChangeTrackingError');
+    expect(error.code).toBe('CHANGE_TRACKING_ERROR');
+    expect(error.model).toBe('user');
+    expect(error.unitOfWorkId).toBe('uow-123');
+  });
+});
+
+describe('OptimisticConcurrencyError', () => {
+  it('should carry the entity id and both versions', () => {
+    const error = new OptimisticConcurrencyError('doc-1', 3, 5);
+
+    expect(error.name).toBe('OptimisticConcurrencyError');
+    expect(error.code).toBe('OPTIMISTIC_CONCURRENCY_CONFLICT');
+    expect(error.entityId).toBe('doc-1');
+    expect(error.expectedVersion).toBe(3);
+    expect(error.actualVersion).toBe(5);
+    expect(error.message).toContain('expected version 3, found 5');
+    expect(error.toJSON()).toMatchObject({ entityId: 'doc-1', expectedVersion: 3, actualVersion: 5 });
+  });
+});
+
+describe('LockNotAvailableError', () => {
+  it('should carry the locked resource and the database error', () => {
+    const cause = new Error('could not obtain lock on row in relation "Account"');
+    const error = new LockNotAvailableError('Account', cause, { unitOfWorkId: 'uow-1' });
+
+    expect(error.name).toBe('LockNotAvailableError');
+    expect(error.code).toBe('LOCK_NOT_AVAILABLE');
+    expect(error.resource).toBe('Account');
+    expect(error.cause).toBe(cause);
+    expect(error.unitOfWorkId).toBe('uow-1');
+    expect(error).toBeInstanceOf(TransactionError);
+  });
+});
+
+describe('LockTimeoutError', () => {
+  it('should carry the lock and the timeout', () => {
+    const error = new LockTimeoutError('jobs:settlement', 5000, { traceId: 'trace-1' });
+
+    expect(error.name).toBe('LockTimeoutError');
+    expect(error.code).toBe('LOCK_TIMEOUT');
+    expect(error.resource).toBe('jobs:settlement');
+    expect(error.timeoutMs).toBe(5000);
+    expect(error.traceId).toBe('trace-1');
+    expect(error.message).toContain('5000ms');
+    expect(error).toBeInstanceOf(TransactionError);
+  });
+});
+
+describe('StatementTimeoutError', () => {
+  it('should carry the timeout and the cause', () => {
+    const cause = new Error('canceling statement due to statement timeout');
+    const error = new StatementTimeoutError(2000, { cause, unitOfWorkId: 'uow-1' });
+
+    expect(error.name).toBe('StatementTimeoutError');
+    expect(error.code).toBe('STATEMENT_TIMEOUT');
+    expect(error.timeoutMs).toBe(2000);
+    expect(error.cause).toBe(cause);
+    expect(error.message).toContain('2000ms');
+    expect(error).toBeInstanceOf(TransactionError);
+  });
+});
+
+describe('UnsupportedOperationError', () => {
+  it('should name the operation and provider', () => {
+    const error = new UnsupportedOperationError('lock rows for update', 'sqlite');
+
+    expect(error.name).toBe('UnsupportedOperationError');
+    expect(error.code).toBe('UNSUPPORTED_OPERATION');
+    expect(error.operation).toBe('lock rows for update');
+    expect(error.provider).toBe('sqlite');
+    expect(error.message).toContain("'sqlite'");
+  });
+});
+
+describe('UnknownTenantError', () => {
+  it('should name the unknown tenant', () => {
+    const error = new UnknownTenantError('acme', { traceId: 'trace-1' });
+
+    expect(error.name).toBe('UnknownTenantError');
+    expect(error.code).toBe('UNKNOWN_TENANT');
+    expect(error.tenantId).toBe('acme');
+    expect(error.message).toContain("'acme'");
+    expect(error).toBeInstanceOf(PrismaUnitOfWorkError);
+  });
+
+  it('should report a context without tenant', () => {
+    const error = new UnknownTenantError(undefined);
+
+    expect(error.tenantId).toBeUndefined();
+    expect(error.message).toContain('No tenant');
+  });
+});
+
+describe('CompositeCommitError', () => {
+  it('should describe the partial commit', () => {
+    const cause = new Error('connection lost');
+    const error = new CompositeCommitError(
+      {
+        success: false,
+        partial: true,
+        committed: ['orders'],
+        notCommitted: ['billing'],
+        members: [
+          { name: 'orders', unitOfWorkId: 'uow-1', outcome: 'COMMITTED' },
+          { name: 'billing', unitOfWorkId: 'uow-2', outcome: 'ROLLED_BACK', error: cause },
+        ],
+      },
+      { unitOfWorkId: 'composite-1' }
+    );
+
+    expect(error.name).toBe('CompositeCommitError');
+    expect(error.code).toBe('COMPOSITE_COMMIT_FAILED');
+    expect(error.message).toBe(
+      'Composite commit failed. Committed: [orders], not committed: [billing]'
+    );
+    expect(error.cause).toBe(cause);
+    expect(error).toBeInstanceOf(TransactionError);
+    expect((error.toJSON().report as any).members[1].error).toBe('connection lost');
+  });
+});
+
 describe('ErrorCodes', () => {
   it('should have all error codes defined', () => {
     expect(ErrorCodes.TRANSACTION_ERROR).toBe('TRANSACTION_ERROR');
@@ -169,6 +372,8 @@ describe('ErrorCodes', () => {
     expect(ErrorCodes.TRANSACTION_COMMIT_FAILED).toBe('TRANSACTION_COMMIT_FAILED');
     expect(ErrorCodes.TRANSACTION_ROLLBACK_FAILED).toBe('TRANSACTION_ROLLBACK_FAILED');
     expect(ErrorCodes.TRANSACTION_TIMEOUT).toBe('TRANSACTION_TIMEOUT');
+    expect(ErrorCodes.TRANSACTION_CANCELLED).toBe('TRANSACTION_CANCELLED');
+    expect(ErrorCodes.TRANSACTION_RETRY_EXHAUSTED).toBe('TRANSACTION_RETRY_EXHAUSTED');
     expect(ErrorCodes.TRANSACTION_ALREADY_ACTIVE).toBe('TRANSACTION_ALREADY_ACTIVE');
     expect(ErrorCodes.NO_ACTIVE_TRANSACTION).toBe('NO_ACTIVE_TRANSACTION');
     expect(ErrorCodes.REPOSITORY_NOT_REGISTERED).toBe('REPOSITORY_NOT_REGISTERED');
@@ -176,7 +381,22 @@ describe('ErrorCodes', () => {
     expect(ErrorCodes.SAVEPOINT_CREATE_FAILED).toBe('SAVEPOINT_CREATE_FAILED');
     expect(ErrorCodes.SAVEPOINT_ROLLBACK_FAILED).toBe('SAVEPOINT_ROLLBACK_FAILED');
     expect(ErrorCodes.SAVEPOINT_RELEASE_FAILED).toBe('SAVEPOINT_RELEASE_FAILED');
+    expect(ErrorCodes.INVALID_SAVEPOINT_NAME).toBe('INVALID_SAVEPOINT_NAME');
     expect(ErrorCodes.DATABASE_CONNECTION_ERROR).toBe('DATABASE_CONNECTION_ERROR');
     expect(ErrorCodes.UNIT_OF_WORK_DISPOSED).toBe('UNIT_OF_WORK_DISPOSED');
+    expect(ErrorCodes.OUTBOX_MODEL_NOT_FOUND).toBe('OUTBOX_MODEL_NOT_FOUND');
+    expect(ErrorCodes.CHANGE_TRACKING_ERROR).toBe('CHANGE_TRACKING_ERROR');
+    expect(ErrorCodes.OPTIMISTIC_CONCURRENCY_CONFLICT).toBe('OPTIMISTIC_CONCURRENCY_CONFLICT');
+    expect(ErrorCodes.VERSION_REQUIRED).toBe('VERSION_REQUIRED');
+    expect(ErrorCodes.LOCK_NOT_AVAILABLE).toBe('LOCK_NOT_AVAILABLE');
+    expect(ErrorCodes.LOCK_TIMEOUT).toBe('LOCK_TIMEOUT');
+    expect(ErrorCodes.STATEMENT_TIMEOUT).toBe('STATEMENT_TIMEOUT');
+    expect(ErrorCodes.UNSUPPORTED_OPERATION).toBe('UNSUPPORTED_OPERATION');
+    expect(ErrorCodes.TABLE_NAME_REQUIRED).toBe('TABLE_NAME_REQUIRED');
+    expect(ErrorCodes.UNKNOWN_TENANT).toBe('UNKNOWN_TENANT');
+    expect(ErrorCodes.COMPOSITE_COMMIT_FAILED).toBe('COMPOSITE_COMMIT_FAILED');
+    expect(ErrorCodes.INVALID_TRANSACTION_ID).toBe('INVALID_TRANSACTION_ID');
+    expect(ErrorCodes.TRANSACTION_REQUIRED).toBe('TRANSACTION_REQUIRED');
+    expect(ErrorCodes.UNIT_OF_WORK_FACTORY_NOT_FOUND).toBe('UNIT_OF_WORK_FACTORY_NOT_FOUND');
   });
 });
\ No newline at end of file
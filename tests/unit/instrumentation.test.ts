@@ -0,0 +1,157 @@
+/**
+ * Transaction Instrumentation Unit Tests
+ */
+
+import { PrismaClient } from '../__mocks__/@prisma/client';
+import { MockContext, IsolationLevel } from '../__mocks__/@struktos/core';
+import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
+import { NoActiveTransactionError } from '../../src/errors/unit-of-work.errors';
+import type {
+  PrismaTransactionClient,
+  TransactionInstrumentation,
+  TransactionSpanAttributes,
+  TransactionSpanResult,
+} from '../../src/types/prisma.types';
+
+interface RecordedSpan {
+  name: string;
+  attributes: TransactionSpanAttributes;
+  result?: TransactionSpanResult;
+}
+
+class OrderRepository {
+  constructor(private readonly tx: PrismaTransactionClient) {}
+
+  async findById(id: string): Promise<unknown> {
+    return (this.tx as any).order.findUnique({ where: { id } });
+  }
+
+  async place(): Promise<void> {
+    await this.findById('o-1');
+    throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+  }
+
+  label(): string {
+    return 'orders';
+  }
+}
+
+describe('Transaction instrumentation', () => {
+  let prisma: PrismaClient;
+  let spans: RecordedSpan[];
+  let instrumentation: TransactionInstrumentation;
+  let uow: PrismaUnitOfWork;
+
+  const names = () => spans.map((span) => span.name);
+
+  beforeEach(() => {
+    prisma = new PrismaClient();
+    spans = [];
+    instrumentation = {
+      startSpan: (name, attributes) => {
+        const span: RecordedSpan = { name, attributes };
+        spans.push(span);
+        return { end: (result) => void (span.result = result) };
+      },
+    };
+    uow = new PrismaUnitOfWork(prisma as any, { instrumentation });
+    uow.registerRepository('OrderRepository', (tx) => new OrderRepository(tx));
+  });
+
+  afterEach(async () => {
+    await uow.dispose();
+  });
+
+  it('should report transaction start and commit', async () => {
+    uow.setContext(new MockContext({ traceId: 'trace-1' }) as any);
+
+    await uow.start({ isolationLevel: IsolationLevel.Serializable, readOnly: true });
+    await uow.commit();
+
+    expect(names()).toEqual(['transaction.start', 'transaction.commit']);
+    expect(spans[0].attributes).toEqual({
+      unitOfWorkId: uow.id,
+      traceId: 'trace-1',
+      isolationLevel: IsolationLevel.Serializable,
+      readOnly: true,
+      savepointName: undefined,
+    });
+    expect(spans[1].attributes.isolationLevel).toBe(IsolationLevel.Serializable);
+    expect(spans[1].result).toEqual({ durationMs: expect.any(Number) });
+  });
+
+  it('should report rollbacks with the default isolation level', async () => {
+    await uow.start();
+    await uow.rollback();
+
+    expect(names()).toEqual(['transaction.start', 'transaction.rollback']);
+    expect(spans[1].attributes.isolationLevel).toBe('READ_COMMITTED');
+  });
+
+  it('should report savepoint operations', async () => {
+    await uow.start();
+
+    await uow.createSavepoint('sp1');
+    await uow.rollbackToSavepoint('sp1');
+    await uow.releaseSavepoint('sp1');
+
+    expect(names().slice(1)).toEqual([
+      'transaction.savepoint.create',
+      'transaction.savepoint.rollback',
+      'transaction.savepoint.release',
+    ]);
+    expect(spans[1].attributes.savepointName).toBe('sp1');
+  });
+
+  it('should report failed operations with their error code', async () => {
+    await expect(uow.commit()).rejects.toThrow(NoActiveTransactionError);
+
+    expect(spans[0].name).toBe('transaction.commit');
+    expect(spans[0].result).toEqual({
+      durationMs: expect.any(Number),
+      error: expect.any(NoActiveTransactionError),
+      errorCode: 'NO_ACTIVE_TRANSACTION',
+    });
+  });
+
+  describe('repositories', () => {
+    it('should report every repository method call', async () => {
+      await uow.start();
+      const orders = uow.getRepository<OrderRepository>('OrderRepository');
+
+      await orders.findById('o-1');
+      expect(orders.label()).toBe('orders');
+
+      expect(spans.slice(1).map((span) => span.attributes)).toEqual([
+        expect.objectContaining({
+          unitOfWorkId: uow.id,
+          repositoryToken: 'OrderRepository',
+          repositoryMethod: 'findById',
+        }),
+        expect.objectContaining({ repositoryMethod: 'label' }),
+      ]);
+      expect(spans[1].name).toBe('repository.call');
+      expect(spans[1].result).toEqual({ durationMs: expect.any(Number) });
+    });
+
+    it('should not report calls between methods of the repository', async () => {
+      await uow.start();
+      const orders = uow.getRepository<OrderRepository>('OrderRepository');
+
+      await expect(orders.place()).rejects.toThrow('Unique constraint failed');
+
+      expect(names()).toEqual(['transaction.start', 'repository.call']);
+      expect(spans[1].result?.errorCode).toBe('P2002');
+    });
+
+    it('should not wrap repositories without instrumentation', async () => {
+      const plain = new PrismaUnitOfWork(prisma as any);
+      let created: OrderRepository | undefined;
+      plain.registerRepository('OrderRepository', (tx) => (created = new OrderRepository(tx)));
+      await plain.start();
+
+      expect(plain.getRepository('OrderRepository')).toBe(created);
+      await plain.dispose();
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Transactional Outbox Unit Tests
+ */
+
+import { PrismaClient } from '../__mocks__/@prisma/client';
+import { MockContext } from '../__mocks__/@struktos/core';
+import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
+import { OutboxWriter } from '../../src/outbox/OutboxWriter';
+import { OutboxRelay } from '../../src/outbox/OutboxRelay';
+import type { OutboxMessage, OutboxPublisher } from '../../src/outbox/outbox.types';
+import {
+  NoActiveTransactionError,
+  OutboxModelNotFoundError,
+  ReadOnlyTransactionViolationError,
+} from '../../src/errors/unit-of-work.errors';
+
+const createMessage = (overrides: Partial<OutboxMessage> = {}): OutboxMessage => ({
+  id: 'msg-1',
+  aggregateType: 'Order',
+  aggregateId: 'order-1',
+  type: 'OrderPlaced',
+  payload: { total: 10 },
+  headers: { traceId: 'trace-1' },
+  createdAt: new Date(),
+  processedAt: null,
+  lockedBy: null,
+  lockedUntil: null,
+  attempts: 0,
+  lastError: null,
+  ...overrides,
+});
+
+describe('OutboxWriter', () => {
+  let prisma: PrismaClient;
+  let unitOfWork: PrismaUnitOfWork;
+
+  beforeEach(() => {
+    prisma = new PrismaClient();
+    unitOfWork = new PrismaUnitOfWork(prisma as any);
+  });
+
+  afterEach(async () => {
+    await unitOfWork.dispose();
+  });
+
+  it('should require an active transaction', () => {
+    expect(() => unitOfWork.getOutbox()).toThrow(NoActiveTransactionError);
+  });
+
+  it('should write messages through the transaction client with the trace ID', async () => {
+    unitOfWork.setContext(new MockContext({ traceId: 'trace-1' }) as any);
+    await unitOfWork.start();
+    const tx = (unitOfWork as any).txClient;
+    tx.outboxMessage.create.mockImplementation(async ({ data }: any) => data);
+
+    const message = await unitOfWork.getOutbox().add({
+      aggregateType: 'Order',
+      aggregateId: 'order-1',
+      type: 'OrderPlaced',
+      payload: { total: 10 },
+      headers: { source: 'checkout' },
+    });
+
+    expect(prisma.outboxMessage.create).not.toHaveBeenCalled();
+    expect(message).toMatchObject({
+      aggregateType: 'Order',
+      aggregateId: 'order-1',
+      type: 'OrderPlaced',
+      payload: { total: 10 },
+      headers: { traceId: 'trace-1', source: 'checkout' },
+      processedAt: null,
+      attempts: 0,
+    });
+    expect(typeof message.id).toBe('string');
+    expect(message.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should reuse the writer within a transaction', async () => {
+    await unitOfWork.start();
+
+    expect(unitOfWork.getOutbox()).toBe(unitOfWork.getOutbox());
+  });
+
+  it('should write several messages with createMany', async () => {
+    await unitOfWork.start();
+    const tx = (unitOfWork as any).txClient;
+    tx.outboxMessage.createMany.mockResolvedValue({ count: 2 });
+
+    const count = await unitOfWork.getOutbox().addMany([
+      { aggregateType: 'Order', aggregateId: '1', type: 'OrderPlaced', payload: {} },
+      { aggregateType: 'Order', aggregateId: '2', type: 'OrderPlaced', payload: {} },
+    ]);
+
+    expect(count).toBe(2);
+    expect(tx.outboxMessage.createMany.mock.calls[0][0].data).toHaveLength(2);
+  });
+
+  it('should use the configured model name', async () => {
+    unitOfWork = new PrismaUnitOfWork(prisma as any, { outbox: { model: 'integrationEvent' } });
+    await unitOfWork.start();
+
+    expect(() => unitOfWork.getOutbox()).toThrow(OutboxModelNotFoundError);
+  });
+
+  it('should refuse writes in a read-only transaction', async () => {
+    await unitOfWork.start({ readOnly: true });
+
+    await expect(
+      unitOfWork.getOutbox().add({
+        aggregateType: 'Order',
+        aggregateId: 'order-1',
+        type: 'OrderPlaced',
+        payload: {},
+      })
+    ).rejects.toThrow(ReadOnlyTransactionViolationError);
+  });
+
+  it('should be constructible from any transaction client', () => {
+    expect(() => new OutboxWriter({} as any)).toThrow(OutboxModelNotFoundError);
+  });
+});
+
+describe('OutboxRelay', () => {
+  let prisma: PrismaClient;
+  let publisher: jest.Mocked<OutboxPublisher>;
+
+  const queueClaim = (messages: OutboxMessage[]) => {
+    prisma.outboxMessage.findMany
+      .mockResolvedValueOnce(messages.map((message) => ({ id: message.id })))
+      .mockResolvedValueOnce(messages);
+    prisma.outboxMessage.updateMany.mockResolvedValueOnce({ count: messages.length });
+  };
+
+  beforeEach(() => {
+    prisma = new PrismaClient();
+    prisma.outboxMessage.findMany.mockResolvedValue([]);
+    prisma.outboxMessage.update.mockResolvedValue({});
+    publisher = { publish: jest.fn().mockResolvedValue(undefined) };
+  });
+
+  it('should claim pending messages before publishing them', async () => {
+    const relay = new OutboxRelay(prisma as any, {
+      publishers: [publisher],
+      relayId: 'relay-1',
+      batchSize: 25,
+    });
+    queueClaim([createMessage()]);
+
+    await relay.processBatch();
+
+    const [candidateQuery] = prisma.outboxMessage.findMany.mock.calls[0];
+    expect(candidateQuery).toMatchObject({
+      where: { processedAt: null, attempts: { lt: 10 } },
+      orderBy: { createdAt: 'asc' },
+      take: 25,
+    });
+
+    const [claim] = prisma.outboxMessage.updateMany.mock.calls[0];
+    expect(claim.where).toMatchObject({ processedAt: null, id: { in: ['msg-1'] } });
+    expect(claim.data.lockedBy).toBe('relay-1');
+    expect(claim.data.lockedUntil).toBeInstanceOf(Date);
+
+    const [claimedQuery] = prisma.outboxMessage.findMany.mock.calls[1];
+    expect(claimedQuery.where).toMatchObject({ lockedBy: 'relay-1' });
+  });
+
+  it('should mark messages processed after publishing', async () => {
+    const relay = new OutboxRelay(prisma as any, { publishers: [publisher] });
+    const message = createMessage();
+    queueClaim([message]);
+
+    const result = await relay.processBatch();
+
+    expect(result).toEqual({ claimed: 1, published: 1, failed: 0 });
+    expect(publisher.publish).toHaveBeenCalledWith(message);
+    expect(prisma.outboxMessage.update).toHaveBeenCalledWith({
+      where: { id: 'msg-1' },
+      data: { processedAt: expect.any(Date), lockedBy: null, lockedUntil: null },
+    });
+  });
+
+  it('should record failed attempts and release the claim', async () => {
+    publisher.publish.mockRejectedValueOnce(new Error('broker unavailable'));
+    const relay = new OutboxRelay(prisma as any, { publishers: [publisher] });
+    queueClaim([createMessage({ id: 'msg-1' }), createMessage({ id: 'msg-2' })]);
+
+    const result = await relay.processBatch();
+
+    expect(result).toEqual({ claimed: 2, published: 1, failed: 1 });
+    expect(prisma.outboxMessage.update).toHaveBeenCalledWith({
+      where: { id: 'msg-1' },
+      data: {
+        attempts: { increment: 1 },
+        lastError: 'broker unavailable',
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    });
+  });
+
+  it('should only publish to publishers accepting the message', async () => {
+    const other: jest.Mocked<OutboxPublisher> = {
+      canPublish: jest.fn().mockReturnValue(false),
+      publish: jest.fn(),
+    };
+    const relay = new OutboxRelay(prisma as any, { publishers: [publisher, other] });
+    queueClaim([createMessage()]);
+
+    await relay.processBatch();
+
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+    expect(other.publish).not.toHaveBeenCalled();
+  });
+
+  it('should fail messages no publisher accepts', async () => {
+    const relay = new OutboxRelay(prisma as any, {
+      publishers: [{ canPublish: () => false, publish: jest.fn() }],
+    });
+    queueClaim([createMessage()]);
+
+    const result = await relay.processBatch();
+
+    expect(result.failed).toBe(1);
+  });
+
+  it('should skip claiming when nothing is pending', async () => {
+    const relay = new OutboxRelay(prisma as any, { publishers: [publisher] });
+
+    const result = await relay.processBatch();
+
+    expect(result).toEqual({ claimed: 0, published: 0, failed: 0 });
+    expect(prisma.outboxMessage.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the outbox model is missing', async () => {
+    const relay = new OutboxRelay(prisma as any, { publishers: [publisher], model: 'missing' });
+
+    await expect(relay.processBatch()).rejects.toThrow(OutboxModelNotFoundError);
+  });
+
+  it('should poll until stopped', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const relay = new OutboxRelay(prisma as any, {
+      publishers: [publisher],
+      pollInterval: 5,
+      logger,
+    });
+    queueClaim([createMessage()]);
+
+    relay.start();
+    expect(relay.isRunning).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await relay.stop();
+
+    expect(relay.isRunning).toBe(false);
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+    expect(prisma.outboxMessage.findMany.mock.calls.length).toBeGreaterThan(2);
+
+    const polls = prisma.outboxMessage.findMany.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(prisma.outboxMessage.findMany.mock.calls.length).toBe(polls);
+  });
+
+  it('should log batch errors and keep polling', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    prisma.outboxMessage.findMany.mockRejectedValueOnce(new Error('connection lost'));
+    const relay = new OutboxRelay(prisma as any, {
+      publishers: [publisher],
+      pollInterval: 5,
+      logger,
+    });
+
+    relay.start();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await relay.stop();
+
+    expect(logger.error).toHaveBeenCalledWith(
+      'Outbox relay batch failed',
+      expect.objectContaining({ error: 'connection lost' })
+    );
+    expect(prisma.outboxMessage.findMany.mock.calls.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Row Locking Unit Tests
+ */
+
+import { sortLockIds } from '../../src/repository/row-locking';
+
+describe('sortLockIds', () => {
+  it('should sort and de-duplicate ids', () => {
+    expect(sortLockIds(['b', 'c', 'a', 'b'])).toEqual(['a', 'b', 'c']);
+    expect(sortLockIds([10, 2, 33])).toEqual([2, 10, 33]);
+  });
+});
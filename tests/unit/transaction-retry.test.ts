@@ -0,0 +1,85 @@
+/**
+ * Transaction Retry Helpers Unit Tests
+ */
+
+import {
+  isRetryableTransactionError,
+  resolveRetryPolicy,
+  computeRetryDelay,
+} from '../../src/unit-of-work/transaction-retry';
+import { TransactionError } from '../../src/errors/unit-of-work.errors';
+
+describe('isRetryableTransactionError', () => {
+  it('should detect Prisma write conflict errors (P2034)', () => {
+    const error = Object.assign(new Error('Transaction failed due to a write conflict'), {
+      code: 'P2034',
+    });
+
+    expect(isRetryableTransactionError(error)).toBe(true);
+  });
+
+  it('should detect serialization failure and deadlock SQLSTATEs', () => {
+    expect(isRetryableTransactionError(Object.assign(new Error('x'), { code: '40001' }))).toBe(true);
+    expect(
+      isRetryableTransactionError(
+        Object.assign(new Error('Raw query failed'), { code: 'P2010', meta: { code: '40P01' } })
+      )
+    ).toBe(true);
+  });
+
+  it('should detect MySQL deadlock messages', () => {
+    const error = new Error('Deadlock found when trying to get lock; try restarting transaction');
+
+    expect(isRetryableTransactionError(error)).toBe(true);
+  });
+
+  it('should inspect the cause chain', () => {
+    const error = new TransactionError('Failed to commit transaction', 'TRANSACTION_COMMIT_FAILED', {
+      cause: Object.assign(new Error('conflict'), { code: 'P2034' }),
+    });
+
+    expect(isRetryableTransactionError(error)).toBe(true);
+  });
+
+  it('should reject other errors', () => {
+    expect(isRetryableTransactionError(new Error('Unique constraint failed'))).toBe(false);
+    expect(isRetryableTransactionError(undefined)).toBe(false);
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('should disable retries when no policy is given', () => {
+    expect(resolveRetryPolicy(undefined).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+  });
+
+  it('should apply defaults', () => {
+    const policy = resolveRetryPolicy({});
+
+    expect(policy.maxAttempts).toBe(3);
+    expect(policy.initialDelay).toBe(50);
+    expect(policy.jitter).toBe(true);
+    expect(policy.isRetryable).toBe(isRetryableTransactionError);
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should grow exponentially up to maxDelay', () => {
+    const policy = resolveRetryPolicy({ initialDelay: 10, maxDelay: 50, jitter: false });
+
+    expect(computeRetryDelay(policy, 1)).toBe(10);
+    expect(computeRetryDelay(policy, 2)).toBe(20);
+    expect(computeRetryDelay(policy, 3)).toBe(40);
+    expect(computeRetryDelay(policy, 4)).toBe(50);
+  });
+
+  it('should stay within bounds with jitter', () => {
+    const policy = resolveRetryPolicy({ initialDelay: 100, jitter: true });
+
+    for (let i = 0; i < 20; i++) {
+      const delay = computeRetryDelay(policy, 2);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(200);
+    }
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Transactional Decorator Unit Tests
+ */
+
+import { PrismaClient } from '../__mocks__/@prisma/client';
+import { MockContext, RequestContext, TransactionState } from '../__mocks__/@struktos/core';
+import { Transactional, setTransactionalResolver } from '../../src/decorators/transactional';
+import { PrismaUnitOfWork } from '../../src/unit-of-work/PrismaUnitOfWork';
+import { PrismaUnitOfWorkFactory } from '../../src/unit-of-work/PrismaUnitOfWorkFactory';
+import { getAmbientTransaction } from '../../src/unit-of-work/ambient-transaction';
+import { PRISMA_UNIT_OF_WORK_FACTORY_TOKEN } from '../../src/tokens';
+import { TransactionPropagation } from '../../src/types/prisma.types';
+import {
+  ReadOnlyTransactionViolationError,
+  UnitOfWorkFactoryNotFoundError,
+} from '../../src/errors/unit-of-work.errors';
+
+describe('Transactional', () => {
+  let prisma: PrismaClient;
+  let factory: PrismaUnitOfWorkFactory;
+
+  const ambientUnitOfWork = () =>
+    getAmbientTransaction(prisma)?.unitOfWork as PrismaUnitOfWork | undefined;
+
+  class OrderService {
+    @Transactional({ timeout: 5000 })
+    async placeOrder(id: string): Promise<string> {
+      await Promise.resolve();
+      return `${id}:${ambientUnitOfWork()?.state}`;
+    }
+
+    @Transactional()
+    async failOrder(): Promise<void> {
+      throw new Error('out of stock');
+    }
+
+    @Transactional()
+    async placeTwice(): Promise<void> {
+      await this.placeOrder('a');
+      await this.auditOrder();
+    }
+
+    @Transactional({ propagation: TransactionPropagation.RequiresNew })
+    async auditOrder(): Promise<void> {}
+
+    @Transactional({ readOnly: true })
+    async writeInReadOnly(): Promise<void> {
+      await (getAmbientTransaction(prisma)!.client as any).user.create({ data: {} });
+    }
+
+    @Transactional()
+    async getTraceId(): Promise<unknown> {
+      return ambientUnitOfWork()?.context?.get('traceId');
+    }
+  }
+
+  beforeEach(() => {
+    prisma = new PrismaClient();
+    factory = new PrismaUnitOfWorkFactory(prisma as any);
+    setTransactionalResolver({
+      resolve: (token) => (token === PRISMA_UNIT_OF_WORK_FACTORY_TOKEN ? factory : undefined),
+    });
+  });
+
+  afterEach(() => {
+    setTransactionalResolver(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('standard decorators', () => {
+    it('should run the method in a transaction', async () => {
+      const service = new OrderService();
+
+      await expect(service.placeOrder('o-1')).resolves.toBe('o-1:ACTIVE');
+
+      expect(prisma.$transaction).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ timeout: 5000 })
+      );
+      expect(getAmbientTransaction(prisma)).toBeUndefined();
+    });
+
+    it('should commit and dispose the Unit of Work', async () => {
+      const dispose = jest.spyOn(PrismaUnitOfWork.prototype, 'dispose');
+      let unitOfWork: PrismaUnitOfWork | undefined;
+      class Service {
+        @Transactional()
+        async run(): Promise<void> {
+          unitOfWork = ambientUnitOfWork();
+        }
+      }
+
+      await new Service().run();
+
+      expect(unitOfWork?.state).toBe(TransactionState.Committed);
+      expect(dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back and rethrow errors', async () => {
+      const dispose = jest.spyOn(PrismaUnitOfWork.prototype, 'dispose');
+
+      await expect(new OrderService().failOrder()).rejects.toThrow('out of stock');
+
+      expect(dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should join an active ambient transaction', async () => {
+      const uow = factory.create() as PrismaUnitOfWork;
+
+      await uow.executeInTransaction(() => new OrderService().placeOrder('o-1'));
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      await uow.dispose();
+    });
+
+    it('should apply the propagation to an ambient transaction', async () => {
+      await new OrderService().placeTwice();
+
+      // placeOrder joins, auditOrder requires a new transaction
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass the transaction options', async () => {
+      await expect(new OrderService().writeInReadOnly()).rejects.toThrow(
+        ReadOnlyTransactionViolationError
+      );
+    });
+  });
+
+  describe('legacy decorators', () => {
+    it('should wrap the method of the property descriptor', async () => {
+      class Service {
+        async run(value: number): Promise<unknown> {
+          return { value, state: ambientUnitOfWork()?.state };
+        }
+      }
+      const descriptor = Object.getOwnPropertyDescriptor(Service.prototype, 'run')!;
+      Object.defineProperty(
+        Service.prototype,
+        'run',
+        Transactional()(Service.prototype, 'run', descriptor)
+      );
+
+      await expect(new Service().run(42)).resolves.toEqual({
+        value: 42,
+        state: TransactionState.Active,
+      });
+    });
+
+    it('should reject non-method members', () => {
+      expect(() => Transactional()({}, 'value', { value: 42 } as any)).toThrow(TypeError);
+    });
+  });
+
+  describe('context', () => {
+    it('should use the current request context', async () => {
+      const traceId = await RequestContext.run({ traceId: 'trace-1' }, () =>
+        new OrderService().getTraceId()
+      );
+
+      expect(traceId).toBe('trace-1');
+    });
+
+    it('should use the context of the resolver', async () => {
+      setTransactionalResolver({
+        resolve: () => factory,
+        getContext: () => new MockContext({ traceId: 'trace-2' }) as any,
+      });
+
+      await expect(new OrderService().getTraceId()).resolves.toBe('trace-2');
+    });
+  });
+
+  describe('factory resolution', () => {
+    it('should resolve the factory with a custom token', async () => {
+      const resolve = jest.fn(() => factory);
+      setTransactionalResolver({ resolve });
+      class Service {
+        @Transactional({ factory: 'ReportingUnitOfWorkFactory' })
+        async run(): Promise<void> {}
+      }
+
+      await new Service().run();
+
+      expect(resolve).toHaveBeenCalledWith('ReportingUnitOfWorkFactory');
+    });
+
+    it('should throw UnitOfWorkFactoryNotFoundError without a resolver', async () => {
+      setTransactionalResolver(null);
+
+      await expect(new OrderService().placeOrder('o-1')).rejects.toThrow(
+        UnitOfWorkFactoryNotFoundError
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should wrap errors of the resolver', async () => {
+      const cause = new Error('No binding for token');
+      setTransactionalResolver({
+        resolve: () => {
+          throw cause;
+        },
+      });
+
+      await expect(new OrderService().placeOrder('o-1')).rejects.toMatchObject({
+        name: 'UnitOfWorkFactoryNotFoundError',
+        code: 'UNIT_OF_WORK_FACTORY_NOT_FOUND',
+        cause,
+      });
+    });
+  });
+});
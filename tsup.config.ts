@@ -7,6 +7,10 @@ export default defineConfig({
     'repository/index': 'src/repository/index.ts',
     'types/index': 'src/types/index.ts',
     'errors/index': 'src/errors/index.ts',
+    'outbox/index': 'src/outbox/index.ts',
+    'dialects/index': 'src/dialects/index.ts',
+    'decorators/index': 'src/decorators/index.ts',
+    'instrumentation/index': 'src/instrumentation/index.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,